@@ -0,0 +1,76 @@
+// scripts/eval.ts
+// Offline evaluation of the label pipeline against golden cases.
+//
+//   npm run eval -- run eval/cases [--record] [--name NAME] [--out DIR] [--case NAME]...
+//   npm run eval -- compare eval/runs/base.json eval/runs/next.json [--out report.md]
+//
+// `run` replays each case's recording.json unless --record is given, in which case
+// the providers configured in env are called and their responses recorded.
+import { mkdtemp, mkdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { compareRuns, loadCases, renderComparison, renderRun, runEval, type EvalRun } from "@/lib/eval";
+
+const USAGE = `usage:
+  npm run eval -- run <cases-dir> [--record] [--name NAME] [--out DIR] [--case NAME]...
+  npm run eval -- compare <base.json> <next.json> [--out FILE]`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      record: { type: "boolean", default: false },
+      name: { type: "string" },
+      out: { type: "string" },
+      case: { type: "string", multiple: true },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (command === "run" && args.length === 1) {
+    // Every case must really run, and must not touch the app's own data
+    process.env.CACHE = "off";
+    process.env.DATA_DIR = await mkdtemp(path.join(os.tmpdir(), "wine-eval-"));
+
+    const cases = await loadCases(args[0], values.case);
+    if (cases.length === 0) throw new Error(`No cases (directories with expected.json) in ${args[0]}`);
+    const name = values.name ?? new Date().toISOString().replace(/[:.]/g, "-");
+    const mode = values.record ? "record" : "replay";
+    console.log(`${mode === "record" ? "Recording" : "Replaying"} ${cases.length} case(s)…`);
+
+    const run = await runEval(cases, {
+      mode,
+      name,
+      onCase: (c) =>
+        console.log(
+          c.error
+            ? `  ✗ ${c.name}: ${c.error}`
+            : `  ${c.fields.every((f) => f.pass) ? "✓" : "·"} ${c.name} ${(c.score * 100).toFixed(0)}%`
+        ),
+    });
+
+    const out = values.out ?? path.join("eval", "runs");
+    await mkdir(out, { recursive: true });
+    await writeFile(path.join(out, `${name}.json`), JSON.stringify(run, null, 2));
+    await writeFile(path.join(out, `${name}.md`), renderRun(run));
+    console.log(`\n${renderRun(run)}\nWrote ${path.join(out, `${name}.json`)}`);
+    return;
+  }
+
+  if (command === "compare" && args.length === 2) {
+    const [base, next] = await Promise.all(args.map(async (f) => JSON.parse(await readFile(f, "utf8")) as EvalRun));
+    const report = renderComparison(compareRuns(base, next));
+    if (values.out) await writeFile(values.out, report);
+    console.log(report);
+    return;
+  }
+
+  console.error(USAGE);
+  process.exitCode = 2;
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,30 @@
+// src/app/api/analyze/batch/[id]/export/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { batchToCsv, getBatchJob } from "@/lib/batch";
+import { ApiError, toApiError } from "@/lib/errors";
+
+/** GET ?format=csv|json (default csv) downloads all results so far, one row per image. */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const format = new URL(req.url).searchParams.get("format") ?? "csv";
+    if (format !== "csv" && format !== "json") {
+      throw new ApiError("BAD_REQUEST", "format must be csv or json");
+    }
+    const job = await getBatchJob((await params).id);
+    if (!job) throw new ApiError("NOT_FOUND", "Batch job not found");
+
+    const filename = `batch-${job.id.slice(0, 8)}.${format}`;
+    const body = format === "csv" ? batchToCsv(job) : JSON.stringify(job, null, 2);
+    return new Response(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
@@ -0,0 +1,18 @@
+// src/app/api/analyze/batch/[id]/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getBatchJob } from "@/lib/batch";
+import { ApiError, toApiError } from "@/lib/errors";
+
+/** Job progress plus every finished item's result. */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const job = await getBatchJob((await params).id);
+    if (!job) throw new ApiError("NOT_FOUND", "Batch job not found");
+    return NextResponse.json({ ok: true, data: job });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
@@ -0,0 +1,50 @@
+// src/app/api/analyze/batch/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { batchConcurrency, batchMaxItems, collectUploads, getBatchStore, startBatch } from "@/lib/batch";
+import { ApiError, toApiError } from "@/lib/errors";
+import { chargeBudget, guardConfig, limitRequest, readBody } from "@/lib/guard";
+import { parsePriceContext } from "@/lib/pipeline";
+import { ZipError } from "@/lib/zip";
+
+/**
+ * POST multipart `image` fields (any number of images and/or .zip archives).
+ * Each image is analysed as one bottle in the background; poll GET /api/analyze/batch/:id.
+ * `?market=` and `?currency=` apply to every bottle, as for POST /api/analyze.
+ * The job is rate limited as one request, and charged to the daily budget per bottle.
+ */
+export async function POST(req: Request) {
+  try {
+    const config = guardConfig();
+    await limitRequest(req, config);
+
+    const form = await (await readBody(req, config)).formData();
+    const files = form.getAll("image").filter((f): f is File => f instanceof File);
+    if (files.length === 0) {
+      throw new ApiError("NO_IMAGE", "No image or zip supplied");
+    }
+
+    const uploads = await collectUploads(files, config);
+    if (uploads.length === 0) {
+      throw new ApiError("NO_IMAGE", "No images found in the upload");
+    }
+    const max = batchMaxItems();
+    if (uploads.length > max) {
+      throw new ApiError("TOO_MANY_IMAGES", `At most ${max} images per batch (got ${uploads.length})`);
+    }
+
+    const params = new URL(req.url).searchParams;
+    const refresh = params.get("refresh") === "1";
+    const context = await parsePriceContext(params.get("market"), params.get("currency"));
+    await chargeBudget(config.costUsd.label * uploads.filter((u) => "image" in u).length, config);
+    const job = await startBatch(getBatchStore(), uploads, { ...context, concurrency: batchConcurrency(), refresh });
+    return NextResponse.json(
+      { ok: true, data: { id: job.id, status: job.status, total: job.total } },
+      { status: 202, headers: { Location: `/api/analyze/batch/${job.id}` } }
+    );
+  } catch (err: unknown) {
+    const e = err instanceof ZipError ? new ApiError(err.code, `Unreadable zip: ${err.message}`) : toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
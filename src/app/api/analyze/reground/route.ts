@@ -0,0 +1,93 @@
+// src/app/api/analyze/reground/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { aliasesFrom, changedFields, getCorrectionLog } from "@/lib/corrections";
+import { ApiError, toApiError } from "@/lib/errors";
+import { chargeBudget, guardConfig, limitRequest, readBody } from "@/lib/guard";
+import { getIdentityStore } from "@/lib/identity";
+import { parsePriceContext, regroundLabel, type AnalyzeEvent } from "@/lib/pipeline";
+import { parseAnalysis, parseRecognizedLabel, type AnalysisResult, type RecognizedLabel } from "@/lib/schema";
+import { errorEvent, streamEvents, streamFormat, type ErrorEvent } from "@/lib/stream";
+
+/**
+ * POST /api/analyze/reground with `{ result, recognizedLabel, remember? }`: the
+ * earlier result and the user's corrected label. Search and grounding run again
+ * for the corrected wine; the photos are not needed. `?market=`, `?currency=`,
+ * `?refresh=1` and `?stream=` work as for /api/analyze. Every correction is
+ * recorded; with `remember: true` the misread names also become aliases.
+ * Rate limits and the daily budget apply as for /api/analyze.
+ */
+export async function POST(req: Request) {
+  try {
+    const config = guardConfig();
+    await limitRequest(req, config);
+
+    const body = await readJson(await readBody(req, config));
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new ApiError("BAD_REQUEST", "expected a JSON object");
+    }
+    const b = body as Record<string, unknown>;
+    const result = parseAnalysis(b.result);
+    const corrected = parseRecognizedLabel(b.recognizedLabel);
+    if (!result.ok || !corrected.ok) {
+      const issues = [
+        ...(result.ok ? [] : result.issues.map((i) => ({ ...i, path: i.path ? `result.${i.path}` : "result" }))),
+        ...(corrected.ok ? [] : corrected.issues),
+      ];
+      throw new ApiError("BAD_REQUEST", "Invalid correction", { issues });
+    }
+    if (changedFields(result.value.recognizedLabel, corrected.value).length === 0) {
+      throw new ApiError("BAD_REQUEST", "recognizedLabel is unchanged");
+    }
+    if (!corrected.value.producer && !corrected.value.wine) {
+      throw new ApiError("BAD_REQUEST", "producer or wine is required");
+    }
+
+    const params = new URL(req.url).searchParams;
+    const refresh = params.get("refresh") === "1";
+    const context = await parsePriceContext(params.get("market"), params.get("currency"));
+    const remember = b.remember === true;
+    await chargeBudget(config.costUsd.label, config);
+
+    const format = streamFormat(req);
+    if (format) {
+      return streamEvents<AnalyzeEvent | ErrorEvent>(format, async (send) => {
+        try {
+          const { data } = await regroundLabel(result.value, corrected.value, { ...context, onEvent: send, refresh });
+          await recordCorrection(result.value, corrected.value, data, remember);
+        } catch (err) {
+          send(errorEvent(err));
+        }
+      });
+    }
+
+    const { data, diagnostics, cache } = await regroundLabel(result.value, corrected.value, { ...context, refresh });
+    const correction = await recordCorrection(result.value, corrected.value, data, remember);
+    return NextResponse.json({ ok: true, data, diagnostics, cache, correction });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+async function recordCorrection(before: AnalysisResult, after: RecognizedLabel, data: AnalysisResult, remember: boolean) {
+  const aliases = remember ? aliasesFrom(before.recognizedLabel, after) : [];
+  if (aliases.length > 0) await getIdentityStore().addAliases(aliases);
+  return getCorrectionLog().record({
+    wineIdBefore: before.wineId,
+    wineIdAfter: data.wineId,
+    before: before.recognizedLabel,
+    after,
+    fields: changedFields(before.recognizedLabel, after),
+    aliases,
+  });
+}
+
+async function readJson(body: Response): Promise<unknown> {
+  try {
+    return await body.json();
+  } catch {
+    return null;
+  }
+}
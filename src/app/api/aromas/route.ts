@@ -0,0 +1,22 @@
+// src/app/api/aromas/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { AROMA_CLUSTERS, countAromas, resultDescriptors } from "@/lib/aromas";
+import { getCellarRepository } from "@/lib/cellar";
+import { toApiError } from "@/lib/errors";
+
+/**
+ * GET /api/aromas returns the aroma lexicon and how many cellar bottles mention
+ * each canonical descriptor, most common first.
+ */
+export async function GET() {
+  try {
+    const bottles = await getCellarRepository().list();
+    const counts = countAromas(bottles.map((b) => resultDescriptors(b.result)));
+    return NextResponse.json({ ok: true, data: { clusters: AROMA_CLUSTERS, counts } });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
@@ -0,0 +1,96 @@
+// src/app/api/cellar/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getCellarRepository, parseCellarInput, parseCellarPatch, type CellarFilter } from "@/lib/cellar";
+import { ApiError, toApiError } from "@/lib/errors";
+
+/** GET /api/cellar?country=&region=&grape=&aroma=&vintage= lists bottles; ?id= fetches one. */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const repo = getCellarRepository();
+
+    const id = params.get("id");
+    if (id) {
+      const bottle = await repo.get(id);
+      if (!bottle) throw new ApiError("NOT_FOUND", "Bottle not found");
+      return NextResponse.json({ ok: true, data: bottle });
+    }
+
+    const filter: CellarFilter = {};
+    for (const key of ["country", "region", "grape", "aroma"] as const) {
+      const v = params.get(key)?.trim();
+      if (v) filter[key] = v;
+    }
+    const vintage = params.get("vintage");
+    if (vintage) {
+      const n = Number(vintage);
+      if (!Number.isInteger(n)) {
+        throw new ApiError("BAD_REQUEST", "vintage must be a year");
+      }
+      filter.vintage = n;
+    }
+
+    return NextResponse.json({ ok: true, data: await repo.list(filter) });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const parsed = parseCellarInput(await readJson(req));
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid bottle", { issues: parsed.issues });
+    }
+    const bottle = await getCellarRepository().create(parsed.value);
+    return NextResponse.json({ ok: true, data: bottle }, { status: 201 });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/** PATCH /api/cellar?id= with the fields to change. */
+export async function PATCH(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) throw new ApiError("BAD_REQUEST", "id is required");
+
+    const parsed = parseCellarPatch(await readJson(req));
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid bottle", { issues: parsed.issues });
+    }
+    const bottle = await getCellarRepository().update(id, parsed.value);
+    if (!bottle) throw new ApiError("NOT_FOUND", "Bottle not found");
+    return NextResponse.json({ ok: true, data: bottle });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) throw new ApiError("BAD_REQUEST", "id is required");
+
+    const removed = await getCellarRepository().remove(id);
+    if (!removed) throw new ApiError("NOT_FOUND", "Bottle not found");
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+function errorResponse(err: unknown) {
+  const e = toApiError(err);
+  return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+}
@@ -0,0 +1,30 @@
+// src/app/api/cellar/valuation/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getCellarRepository } from "@/lib/cellar";
+import { toApiError } from "@/lib/errors";
+import { getFxTable } from "@/lib/fx";
+import { parsePriceContext } from "@/lib/pipeline";
+import { getPriceHistory, valueCellar } from "@/lib/price-history";
+import { MARKET_CURRENCY, searchMarket } from "@/lib/search";
+
+/**
+ * GET /api/cellar/valuation?market=&currency= values the bottles in stock at each
+ * wine's latest price recorded in that market (default: SEARCH_MARKET), in
+ * `currency` (default: the market's own).
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const context = await parsePriceContext(params.get("market"), params.get("currency"));
+    const market = context.market ?? searchMarket();
+    const currency = context.currency ?? MARKET_CURRENCY[market];
+    const bottles = await getCellarRepository().list();
+    const fx = await getFxTable();
+    return NextResponse.json({ ok: true, data: await valueCellar(bottles, getPriceHistory(), currency, fx, market) });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
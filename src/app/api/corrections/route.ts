@@ -0,0 +1,21 @@
+// src/app/api/corrections/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { aliasesFrom, getCorrectionLog } from "@/lib/corrections";
+import { toApiError } from "@/lib/errors";
+
+/**
+ * GET /api/corrections lists every label correction, oldest first, each with the
+ * `suggestedAliases` that would have resolved the misread names on their own.
+ */
+export async function GET() {
+  try {
+    const corrections = await getCorrectionLog().list();
+    const data = corrections.map((c) => ({ ...c, suggestedAliases: aliasesFrom(c.before, c.after) }));
+    return NextResponse.json({ ok: true, data });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
@@ -0,0 +1,59 @@
+// src/app/api/drink-window/calendar/route.ts
+export const runtime = "nodejs";
+
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+import { wineKey } from "@/lib/cache/keys";
+import { getCellarRepository } from "@/lib/cellar";
+import { drinkWindowEvents } from "@/lib/drink-window";
+import { ApiError, toApiError } from "@/lib/errors";
+import { buildCalendar } from "@/lib/ics";
+import { parseAnalysisList, type AnalysisResult } from "@/lib/schema";
+
+/** GET: iCalendar feed for every bottle in the cellar (subscribable). */
+export async function GET() {
+  try {
+    const bottles = (await getCellarRepository().list()).filter((b) => b.quantity > 0);
+    return calendar(bottles.flatMap((b) => drinkWindowEvents(b.id, b.result)));
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+/** POST { results: AnalysisResult[] }: one-off .ics download for the supplied results. */
+export async function POST(req: Request) {
+  try {
+    const parsed = parseAnalysisList((await req.json().catch(() => null))?.results);
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid results", { issues: parsed.issues });
+    }
+    // The same wine twice would only repeat its events
+    const byKey = new Map<string, AnalysisResult>();
+    for (const r of parsed.value) if (!byKey.has(resultKey(r))) byKey.set(resultKey(r), r);
+    return calendar([...byKey].flatMap(([key, r]) => drinkWindowEvents(key, r)));
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+/**
+ * A stable event key from the wine and vintage, so importing the same wine again
+ * (or from another feed) updates its reminders instead of adding copies.
+ */
+function resultKey(r: AnalysisResult): string {
+  const identity = r.wineId
+    ? `${r.wineId}|${r.recognizedLabel.vintage ?? "nv"}`
+    : (wineKey(r.recognizedLabel) ?? JSON.stringify(r.recognizedLabel));
+  return `wine-${createHash("sha256").update(identity).digest("hex").slice(0, 16)}`;
+}
+
+function calendar(events: ReturnType<typeof drinkWindowEvents>) {
+  return new Response(buildCalendar("Wine drink windows", events), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="drink-windows.ics"',
+    },
+  });
+}
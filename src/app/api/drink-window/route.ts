@@ -0,0 +1,46 @@
+// src/app/api/drink-window/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getCellarRepository } from "@/lib/cellar";
+import { rankByUrgency, wineTitle, type DrinkAssessment } from "@/lib/drink-window";
+import { ApiError, toApiError } from "@/lib/errors";
+import { parseAnalysisList } from "@/lib/schema";
+
+type RankedEntry = { id?: string; index?: number; title: string } & DrinkAssessment;
+
+/** GET /api/drink-window ranks the cellar (bottles with quantity > 0) by urgency: what to open tonight. */
+export async function GET() {
+  try {
+    const bottles = (await getCellarRepository().list()).filter((b) => b.quantity > 0);
+    const data: RankedEntry[] = rankByUrgency(bottles, (b) => b.result).map(({ item, assessment }) => ({
+      id: item.id,
+      title: wineTitle(item.result),
+      ...assessment,
+    }));
+    return NextResponse.json({ ok: true, data });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+/** POST { results: AnalysisResult[] } ranks the supplied results; `index` points back into the input. */
+export async function POST(req: Request) {
+  try {
+    const parsed = parseAnalysisList((await req.json().catch(() => null))?.results);
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid results", { issues: parsed.issues });
+    }
+    const indexed = parsed.value.map((result, index) => ({ result, index }));
+    const data: RankedEntry[] = rankByUrgency(indexed, (x) => x.result).map(({ item, assessment }) => ({
+      index: item.index,
+      title: wineTitle(item.result),
+      ...assessment,
+    }));
+    return NextResponse.json({ ok: true, data });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
@@ -0,0 +1,72 @@
+// src/app/api/export/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { ApiError, toApiError } from "@/lib/errors";
+import { EXPORT_FORMATS, cardImage, exportResult, type CardImage, type ExportFormat } from "@/lib/export";
+import { checkImage, guardConfig, readBody } from "@/lib/guard";
+import { parseAnalysis } from "@/lib/schema";
+
+/**
+ * POST ?format=pdf|png|md|json (default pdf) renders one analysis as a tasting card.
+ * Send JSON `{ result }`, or multipart with a `result` field (the analysis as JSON)
+ * and an optional `image` field: the label photo, shown as a thumbnail on pdf and png.
+ * `?inline=1` asks the browser to open the file instead of downloading it.
+ */
+export async function POST(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const format = params.get("format") ?? "pdf";
+    if (!EXPORT_FORMATS.some((f) => f === format)) {
+      throw new ApiError("BAD_REQUEST", `Unknown format; expected one of ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const config = guardConfig();
+    const body = await readBody(req, config);
+    let input: unknown;
+    let image: CardImage | null = null;
+    if (req.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      const form = await body.formData();
+      const file = form.get("image");
+      if (file instanceof File) {
+        const checked = await checkImage(file, config.maxImageBytes);
+        image = await cardImage(checked.data);
+      }
+      input = parseJson(form.get("result"));
+    } else {
+      const json = await readJson(body);
+      input = typeof json === "object" && json !== null ? (json as { result?: unknown }).result : undefined;
+    }
+    const result = parseAnalysis(input);
+    if (!result.ok) throw new ApiError("BAD_REQUEST", "Invalid result", { issues: result.issues });
+
+    const file = await exportResult(result.value, format as ExportFormat, image);
+    const disposition = params.get("inline") === "1" ? "inline" : "attachment";
+    return new Response(typeof file.body === "string" ? file.body : new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `${disposition}; filename="${file.filename}"`,
+      },
+    });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+async function readJson(body: Response): Promise<unknown> {
+  try {
+    return await body.json();
+  } catch {
+    return null;
+  }
+}
+
+function parseJson(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== "string") return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
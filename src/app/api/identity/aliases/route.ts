@@ -0,0 +1,45 @@
+// src/app/api/identity/aliases/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { ApiError, toApiError } from "@/lib/errors";
+import { getIdentityStore, parseAliasTable } from "@/lib/identity";
+
+/** GET /api/identity/aliases returns the alias table. */
+export async function GET() {
+  try {
+    return NextResponse.json({ ok: true, data: await getIdentityStore().aliases() });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * PUT /api/identity/aliases replaces the table with `{ producers, wines, appellations }`,
+ * each mapping a spelling to its canonical name. Applies to analyses from now on.
+ */
+export async function PUT(req: Request) {
+  try {
+    const parsed = parseAliasTable(await readJson(req));
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid alias table", { issues: parsed.issues });
+    }
+    await getIdentityStore().setAliases(parsed.value);
+    return NextResponse.json({ ok: true, data: parsed.value });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+function errorResponse(err: unknown) {
+  const e = toApiError(err);
+  return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+}
@@ -0,0 +1,38 @@
+// src/app/api/identity/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { ApiError, toApiError } from "@/lib/errors";
+import { getIdentityStore } from "@/lib/identity";
+import { emptyAnalysis } from "@/lib/schema";
+
+/**
+ * GET /api/identity lists every wine seen; ?wineId= fetches one; ?producer=&wine=&appellation=
+ * shows how those names would resolve, without registering anything.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const store = getIdentityStore();
+
+    const wineId = params.get("wineId");
+    if (wineId) {
+      const identity = await store.get(wineId);
+      if (!identity) throw new ApiError("NOT_FOUND", "Wine not found");
+      return NextResponse.json({ ok: true, data: identity });
+    }
+
+    const names = {
+      producer: params.get("producer") ?? "",
+      wine: params.get("wine") ?? "",
+      appellation: params.get("appellation") ?? "",
+    };
+    if (!names.producer && !names.wine && !names.appellation) {
+      return NextResponse.json({ ok: true, data: await store.list() });
+    }
+    return NextResponse.json({ ok: true, data: await store.resolve(emptyAnalysis(names).recognizedLabel) });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
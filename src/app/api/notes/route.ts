@@ -0,0 +1,98 @@
+// src/app/api/notes/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { ApiError, toApiError } from "@/lib/errors";
+import { diffNote, getNoteRepository, parseNoteInput, parseNotePatch, type NoteFilter, type TastingNote } from "@/lib/notes";
+
+/**
+ * GET /api/notes?wineId=&taster= lists tasting notes, most recently tasted
+ * first; ?id= fetches one. Each note comes with `diff` against the model's
+ * prediction (null when it was written without one).
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const repo = getNoteRepository();
+
+    const id = params.get("id");
+    if (id) {
+      const note = await repo.get(id);
+      if (!note) throw new ApiError("NOT_FOUND", "Note not found");
+      return NextResponse.json({ ok: true, data: withDiff(note) });
+    }
+
+    const filter: NoteFilter = {};
+    for (const key of ["wineId", "taster"] as const) {
+      const v = params.get(key)?.trim();
+      if (v) filter[key] = v;
+    }
+
+    const notes = await repo.list(filter);
+    return NextResponse.json({ ok: true, data: notes.map(withDiff) });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/** POST /api/notes with `{ taster, tastedAt, result | label, tastingNotes?, aromasAndFlavours?, comments? }`. */
+export async function POST(req: Request) {
+  try {
+    const parsed = parseNoteInput(await readJson(req));
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid note", { issues: parsed.issues });
+    }
+    const note = await getNoteRepository().create(parsed.value);
+    return NextResponse.json({ ok: true, data: withDiff(note) }, { status: 201 });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/** PATCH /api/notes?id= with the fields to change. */
+export async function PATCH(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) throw new ApiError("BAD_REQUEST", "id is required");
+
+    const parsed = parseNotePatch(await readJson(req));
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid note", { issues: parsed.issues });
+    }
+    const note = await getNoteRepository().update(id, parsed.value);
+    if (!note) throw new ApiError("NOT_FOUND", "Note not found");
+    return NextResponse.json({ ok: true, data: withDiff(note) });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) throw new ApiError("BAD_REQUEST", "id is required");
+
+    const removed = await getNoteRepository().remove(id);
+    if (!removed) throw new ApiError("NOT_FOUND", "Note not found");
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+function withDiff(note: TastingNote) {
+  return { ...note, diff: note.prediction ? diffNote(note, note.prediction) : null };
+}
+
+async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+function errorResponse(err: unknown) {
+  const e = toApiError(err);
+  return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+}
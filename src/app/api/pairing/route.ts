@@ -0,0 +1,102 @@
+// src/app/api/pairing/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getCellarRepository } from "@/lib/cellar";
+import { wineTitle } from "@/lib/drink-window";
+import { ApiError, toApiError, type ErrorCode } from "@/lib/errors";
+import { chargeBudget, guardConfig, limitRequest } from "@/lib/guard";
+import {
+  DISH_CATEGORIES,
+  explainPairings,
+  matchDish,
+  rankBottlesForDish,
+  suggestDishes,
+  wineProfile,
+  type Dish,
+  type PairingScore,
+} from "@/lib/pairing";
+import { parseAnalysis, parseAnalysisList } from "@/lib/schema";
+
+type RankedEntry = { id?: string; index?: number; title: string } & PairingScore;
+
+/** GET /api/pairing?dish= ranks the cellar (bottles with quantity > 0) for a dish. */
+export async function GET(req: Request) {
+  try {
+    const dish = resolveDish(new URL(req.url).searchParams.get("dish"));
+
+    const bottles = (await getCellarRepository().list()).filter((b) => b.quantity > 0);
+    const ranked: RankedEntry[] = rankBottlesForDish(dish, bottles, (b) => b.result).map(({ item, ...score }) => ({
+      id: item.id,
+      title: wineTitle(item.result),
+      ...score,
+    }));
+    return NextResponse.json({ ok: true, data: { dish: dish.category, label: dish.label, bottles: ranked } });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+/**
+ * POST { result, explain? } suggests dishes for one wine; `explain: true` adds the
+ * model's prose on top of the rule-based ranking, and is rate limited and charged
+ * to the daily budget like /api/analyze.
+ * POST { dish, results } ranks the supplied results for a dish; `index` points back into the input.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+
+    if (body?.dish !== undefined) {
+      const dish = resolveDish(body.dish);
+      const parsed = parseAnalysisList(body.results);
+      if (!parsed.ok) {
+        throw new ApiError("BAD_REQUEST", "Invalid results", { issues: parsed.issues });
+      }
+      const indexed = parsed.value.map((result, index) => ({ result, index }));
+      const ranked: RankedEntry[] = rankBottlesForDish(dish, indexed, (x) => x.result).map(
+        ({ item, ...score }) => ({ index: item.index, title: wineTitle(item.result), ...score })
+      );
+      return NextResponse.json({ ok: true, data: { dish: dish.category, label: dish.label, bottles: ranked } });
+    }
+
+    const parsed = parseAnalysis(body?.result);
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid result", { issues: parsed.issues });
+    }
+    const dishes = suggestDishes(parsed.value);
+    let explanation: string | null = null;
+    let explanationError: string | undefined;
+    let explanationCode: ErrorCode | undefined;
+    if (body?.explain === true) {
+      // Guard failures refuse the request, as the caller asked for the model
+      const config = guardConfig();
+      await limitRequest(req, config);
+      await chargeBudget(config.costUsd.pairing, config);
+      // The explanation is optional; a model failure still returns the suggestions
+      try {
+        explanation = await explainPairings(parsed.value, dishes);
+      } catch (err) {
+        const e = toApiError(err);
+        explanationError = e.message;
+        explanationCode = e.code;
+      }
+    }
+    return NextResponse.json({
+      ok: true,
+      data: { profile: wineProfile(parsed.value), dishes, explanation, explanationError, explanationCode },
+    });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
+
+function resolveDish(input: unknown): Dish {
+  const dish = typeof input === "string" ? matchDish(input) : null;
+  if (!dish) {
+    throw new ApiError("BAD_REQUEST", `Unrecognised dish; describe it or use one of ${DISH_CATEGORIES.join(", ")}`);
+  }
+  return dish;
+}
@@ -0,0 +1,63 @@
+// src/app/api/prices/history/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { wineKey } from "@/lib/cache";
+import { ApiError, toApiError } from "@/lib/errors";
+import { fxRate, getFxTable, hasCurrency } from "@/lib/fx";
+import { getIdentityStore } from "@/lib/identity";
+import { getPriceHistory, midPrice } from "@/lib/price-history";
+import { emptyAnalysis } from "@/lib/schema";
+
+/**
+ * GET /api/prices/history?producer=&wine=&vintage=&currency= returns every price
+ * observation recorded for the wine, oldest first. Each one carries `value`: its
+ * low / mid / high in `currency` (default: the latest observation's currency).
+ * The names may be any known spelling; `wineId=` can be given instead of them.
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const vintageParam = params.get("vintage");
+    const vintage = vintageParam ? Number(vintageParam) : null;
+    if (vintage != null && !Number.isInteger(vintage)) {
+      throw new ApiError("BAD_REQUEST", "vintage must be a year");
+    }
+    const identities = getIdentityStore();
+    const wineId = params.get("wineId");
+    let names = { producer: params.get("producer") ?? "", wine: params.get("wine") ?? "" };
+    if (wineId) {
+      const known = await identities.get(wineId);
+      if (!known) {
+        throw new ApiError("NOT_FOUND", `Unknown wineId "${wineId}"`);
+      }
+      names = { producer: known.producer, wine: known.wine };
+    }
+    // History is recorded under the canonical spelling
+    const { label } = await identities.resolve(emptyAnalysis({ ...names, vintage }).recognizedLabel);
+    const key = wineKey(label);
+    if (!key) {
+      throw new ApiError("BAD_REQUEST", "producer or wine is required");
+    }
+
+    const history = await getPriceHistory().get(key);
+    if (!history) {
+      throw new ApiError("NOT_FOUND", "No price history for this wine");
+    }
+
+    const fx = await getFxTable();
+    const currency = params.get("currency")?.trim().toUpperCase() || history.observations.at(-1)!.currency;
+    if (!hasCurrency(fx, currency)) {
+      throw new ApiError("BAD_REQUEST", `No exchange rate for currency "${currency}"`);
+    }
+    const observations = history.observations.map((o) => {
+      const rate = fxRate(fx, o.currency, currency);
+      const convert = (n: number | null) => (n == null || rate == null ? null : Math.round(n * rate * 100) / 100);
+      return { ...o, value: { low: convert(o.low), mid: convert(midPrice(o)), high: convert(o.high) } };
+    });
+    return NextResponse.json({ ok: true, data: { ...history, currency, rateDate: fx.date, observations } });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
@@ -0,0 +1,85 @@
+// src/app/api/quiz/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getCellarRepository } from "@/lib/cellar";
+import { ApiError, toApiError } from "@/lib/errors";
+import {
+  QUIZ_MODES,
+  getQuizLog,
+  makeQuestion,
+  parseQuizMode,
+  parseQuizSubmission,
+  pickBottle,
+  quizStats,
+  quizTruth,
+  scoreBlind,
+  scoreReverse,
+} from "@/lib/quiz";
+
+/** Bottles asked about in a user's last few answers are skipped while there are others. */
+const RECENT = 5;
+
+/**
+ * GET /api/quiz?mode=blind|reverse&user= picks a wine from the cellar and
+ * returns the question: the profile without the label (`blind`), or the label
+ * without the profile (`reverse`).
+ */
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const mode = parseQuizMode(params.get("mode") ?? "blind");
+    if (!mode) {
+      throw new ApiError("BAD_REQUEST", `mode must be one of ${QUIZ_MODES.join(", ")}`);
+    }
+    const user = params.get("user")?.trim();
+    const recent = user ? (await getQuizLog().list(user)).slice(-RECENT).map((a) => a.bottleId) : [];
+
+    const bottle = pickBottle(await getCellarRepository().list(), mode, recent);
+    if (!bottle) {
+      throw new ApiError("NOT_FOUND", "No analysed wines to quiz on; save some to the cellar first");
+    }
+    return NextResponse.json({ ok: true, data: makeQuestion(bottle, mode) });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/quiz with `{ user, bottleId, mode, answer }` scores the answer
+ * against the stored result, records it, and returns the attempt (with the
+ * answer key as `truth`) and the user's updated stats.
+ */
+export async function POST(req: Request) {
+  try {
+    const parsed = parseQuizSubmission(await readJson(req));
+    if (!parsed.ok) {
+      throw new ApiError("BAD_REQUEST", "Invalid answer", { issues: parsed.issues });
+    }
+    const s = parsed.value;
+    const bottle = await getCellarRepository().get(s.bottleId);
+    if (!bottle) throw new ApiError("NOT_FOUND", "Bottle not found");
+
+    const truth = quizTruth(bottle.result);
+    const score = s.mode === "blind" ? scoreBlind(truth, s.answer) : scoreReverse(truth, s.answer);
+    const log = getQuizLog();
+    const attempt = await log.record({ ...s, wineId: bottle.result.wineId, truth, score });
+    const stats = quizStats(s.user, await log.list(s.user));
+    return NextResponse.json({ ok: true, data: { attempt, stats } }, { status: 201 });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+function errorResponse(err: unknown) {
+  const e = toApiError(err);
+  return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+}
@@ -0,0 +1,18 @@
+// src/app/api/quiz/stats/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { ApiError, toApiError } from "@/lib/errors";
+import { getQuizLog, quizStats } from "@/lib/quiz";
+
+/** GET /api/quiz/stats?user= summarises a user's answers, with their weakest grapes and regions. */
+export async function GET(req: Request) {
+  try {
+    const user = new URL(req.url).searchParams.get("user")?.trim();
+    if (!user) throw new ApiError("BAD_REQUEST", "user is required");
+    return NextResponse.json({ ok: true, data: quizStats(user, await getQuizLog().list(user)) });
+  } catch (err: unknown) {
+    const e = toApiError(err);
+    return NextResponse.json(e.toBody(), { status: e.status, headers: e.headers() });
+  }
+}
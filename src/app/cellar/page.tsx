@@ -0,0 +1,408 @@
+// src/app/cellar/page.tsx
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+import { Field, PillList, safeStr } from "@/components/fields";
+import { Reason } from "@/components/pairing-panel";
+import type { AromaCount } from "@/lib/aromas";
+import type { CellarBottle, CellarFilter } from "@/lib/cellar/types";
+import { DRINK_STATUS_LABEL, wineTitle, type DrinkAssessment } from "@/lib/drink-window";
+import { DISHES } from "@/lib/pairing/dishes";
+import type { PairingScore } from "@/lib/pairing/types";
+import type { CellarValuation } from "@/lib/price-history/valuation";
+
+type TonightEntry = { id: string; title: string } & DrinkAssessment;
+
+type PairingMatch = { id: string; title: string } & PairingScore;
+
+type Filters = Record<keyof CellarFilter, string>;
+
+const EMPTY_FILTERS: Filters = { country: "", region: "", grape: "", aroma: "", vintage: "" };
+
+export default function CellarPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [bottles, setBottles] = useState<CellarBottle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tonight, setTonight] = useState<TonightEntry[]>([]);
+  const [valuation, setValuation] = useState<CellarValuation | null>(null);
+
+  const load = useCallback(async (f: Filters) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      for (const [k, v] of Object.entries(f)) if (v.trim()) params.set(k, v.trim());
+      const res = await fetch(`/api/cellar?${params}`);
+      const payload = (await res.json()) as { data?: CellarBottle[]; error?: string };
+      if (!res.ok) throw new Error(payload.error || `HTTP ${res.status}`);
+      setBottles(payload.data ?? []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not load the cellar.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(EMPTY_FILTERS);
+  }, [load]);
+
+  // Re-rank whenever the cellar contents change
+  useEffect(() => {
+    fetch("/api/drink-window")
+      .then((res) => res.json() as Promise<{ data?: TonightEntry[] }>)
+      .then((payload) => setTonight((payload.data ?? []).filter((e) => e.status !== "too-young").slice(0, 3)))
+      .catch(() => setTonight([]));
+    fetch("/api/cellar/valuation")
+      .then((res) => res.json() as Promise<{ data?: CellarValuation }>)
+      .then((payload) => setValuation(payload.data ?? null))
+      .catch(() => setValuation(null));
+  }, [bottles]);
+
+  function onFilter(e: React.FormEvent) {
+    e.preventDefault();
+    load(filters);
+  }
+
+  function onAroma(aroma: string) {
+    const next = { ...filters, aroma };
+    setFilters(next);
+    load(next);
+  }
+
+  function onReset() {
+    setFilters(EMPTY_FILTERS);
+    load(EMPTY_FILTERS);
+  }
+
+  const totalBottles = bottles.reduce((n, b) => n + b.quantity, 0);
+
+  return (
+    <main className="min-h-screen bg-gray-50 text-gray-900">
+      <div className="max-w-2xl mx-auto p-6 space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">My Cellar</h1>
+          <p className="text-sm text-gray-600">
+            {loading ? "Loading…" : `${bottles.length} wines, ${totalBottles} bottles`} ·{" "}
+            <Link href="/" className="underline">
+              Analyse a label
+            </Link>
+          </p>
+          {valuation && valuation.valued > 0 ? (
+            <p className="text-sm text-gray-600" title={`Latest recorded prices; exchange rates of ${valuation.rateDate}`}>
+              Estimated value <span className="font-medium text-gray-900">{money(valuation.total, valuation.currency)}</span>
+              {valuation.paid != null ? ` (paid ${money(valuation.paid, valuation.currency)})` : ""}
+              {valuation.unvalued > 0 ? ` · ${valuation.unvalued} wines without a price` : ""}
+            </p>
+          ) : null}
+        </header>
+
+        {tonight.length > 0 ? (
+          <div className="grid gap-2 p-4 rounded-2xl bg-white shadow text-sm">
+            <h2 className="text-xl font-semibold">What to Open Tonight</h2>
+            <ol className="list-decimal pl-5 space-y-1">
+              {tonight.map((e) => (
+                <li key={e.id}>
+                  <span className="font-medium">{e.title}</span> — {DRINK_STATUS_LABEL[e.status]}: {e.reason}
+                </li>
+              ))}
+            </ol>
+            <a href="/api/drink-window/calendar" className="underline text-xs text-gray-600">
+              Download drink-window calendar (.ics)
+            </a>
+          </div>
+        ) : null}
+
+        <PairWithDish />
+
+        <CommonAromas refreshKey={bottles} onPick={onAroma} />
+
+        <form onSubmit={onFilter} className="grid grid-cols-2 gap-2 p-4 rounded-2xl bg-white shadow text-sm">
+          {(Object.keys(EMPTY_FILTERS) as Array<keyof Filters>).map((key) => (
+            <label key={key} className="grid gap-1 capitalize">
+              {key}
+              <input
+                value={filters[key]}
+                inputMode={key === "vintage" ? "numeric" : undefined}
+                onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+                className="border rounded-lg px-2 py-1"
+              />
+            </label>
+          ))}
+          <div className="col-span-2 flex gap-2">
+            <button className="px-4 py-2 rounded-xl bg-black text-white">Filter</button>
+            <button type="button" onClick={onReset} className="px-4 py-2 rounded-xl border">
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-red-800">{error}</div>
+        )}
+
+        {!loading && bottles.length === 0 && !error ? (
+          <div className="text-sm text-gray-600">No bottles match.</div>
+        ) : null}
+
+        {bottles.map((b) => (
+          <BottleCard
+            key={b.id}
+            bottle={b}
+            onChanged={(updated) => setBottles((all) => all.map((x) => (x.id === updated.id ? updated : x)))}
+            onRemoved={() => setBottles((all) => all.filter((x) => x.id !== b.id))}
+          />
+        ))}
+      </div>
+    </main>
+  );
+}
+
+/** Ranks the cellar for a dish typed in or picked from the categories. */
+/** The cellar's most-mentioned descriptors; picking one filters the list by it. */
+function CommonAromas({ refreshKey, onPick }: { refreshKey: unknown; onPick: (aroma: string) => void }) {
+  const [counts, setCounts] = useState<AromaCount[]>([]);
+
+  useEffect(() => {
+    fetch("/api/aromas")
+      .then((res) => res.json() as Promise<{ data?: { counts: AromaCount[] } }>)
+      .then((payload) => setCounts((payload.data?.counts ?? []).slice(0, 12)))
+      .catch(() => setCounts([]));
+  }, [refreshKey]);
+
+  if (counts.length === 0) return null;
+  return (
+    <div className="grid gap-2 p-4 rounded-2xl bg-white shadow text-sm">
+      <h2 className="text-xl font-semibold">Common Aromas</h2>
+      <div className="flex flex-wrap gap-2">
+        {counts.map((c) => (
+          <button
+            key={c.name}
+            type="button"
+            onClick={() => onPick(c.name)}
+            className="px-2 py-1 bg-gray-100 rounded-full border text-gray-800 hover:bg-gray-200"
+          >
+            {c.name} <span className="text-xs text-gray-500">×{c.count}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PairWithDish() {
+  const [dish, setDish] = useState("");
+  const [label, setLabel] = useState("");
+  const [matches, setMatches] = useState<PairingMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onPair(e: React.FormEvent) {
+    e.preventDefault();
+    if (!dish.trim()) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/pairing?dish=${encodeURIComponent(dish.trim())}`);
+      const payload = (await res.json()) as { data?: { label: string; bottles: PairingMatch[] }; error?: string };
+      if (!res.ok || !payload.data) throw new Error(payload.error || `HTTP ${res.status}`);
+      setLabel(payload.data.label);
+      setMatches(payload.data.bottles.slice(0, 3));
+    } catch (err: unknown) {
+      setMatches(null);
+      setError(err instanceof Error ? err.message : "Could not rank the cellar.");
+    }
+  }
+
+  return (
+    <form onSubmit={onPair} className="grid gap-2 p-4 rounded-2xl bg-white shadow text-sm">
+      <h2 className="text-xl font-semibold">Pair with a Dish</h2>
+      <div className="flex gap-2">
+        <input
+          value={dish}
+          onChange={(e) => setDish(e.target.value)}
+          list="dish-categories"
+          placeholder="e.g. lamb tagine, mushroom risotto"
+          className="flex-1 border rounded-lg px-2 py-1"
+        />
+        <datalist id="dish-categories">
+          {DISHES.map((d) => (
+            <option key={d.category} value={d.category}>
+              {d.label}
+            </option>
+          ))}
+        </datalist>
+        <button className="px-4 py-2 rounded-xl bg-black text-white">Pair</button>
+      </div>
+      {error ? <div className="text-red-700">{error}</div> : null}
+      {matches ? (
+        matches.length > 0 ? (
+          <>
+            <div className="text-xs text-gray-600">Best for {label.toLowerCase()}:</div>
+            <ol className="list-decimal pl-5 space-y-2">
+              {matches.map((m) => (
+                <li key={m.id}>
+                  <span className="font-medium">{m.title}</span>
+                  <ul className="text-xs space-y-0.5 mt-1">
+                    {m.reasons.map((r) => (
+                      <Reason key={r.rule} r={r} />
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </>
+        ) : (
+          <div className="text-gray-600">No bottles in the cellar to pair.</div>
+        )
+      ) : null}
+    </form>
+  );
+}
+
+function BottleCard({
+  bottle,
+  onChanged,
+  onRemoved,
+}: {
+  bottle: CellarBottle;
+  onChanged: (b: CellarBottle) => void;
+  onRemoved: () => void;
+}) {
+  const rl = bottle.result.recognizedLabel;
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState({
+    quantity: String(bottle.quantity),
+    purchasePrice: bottle.purchasePrice != null ? String(bottle.purchasePrice) : "",
+    purchaseDate: bottle.purchaseDate ?? "",
+    location: bottle.location,
+  });
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/cellar?id=${encodeURIComponent(bottle.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          quantity: Number(draft.quantity) || 0,
+          purchasePrice: draft.purchasePrice ? Number(draft.purchasePrice) : null,
+          purchaseDate: draft.purchaseDate || null,
+          location: draft.location,
+        }),
+      });
+      const payload = (await res.json()) as { data?: CellarBottle; error?: string };
+      if (!res.ok || !payload.data) throw new Error(payload.error || `HTTP ${res.status}`);
+      onChanged(payload.data);
+      setEditing(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not save.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove() {
+    if (!window.confirm(`Remove ${rl.producer || "this bottle"} from the cellar?`)) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/cellar?id=${encodeURIComponent(bottle.id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      onRemoved();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not delete.");
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
+      <div className="flex items-start justify-between gap-2">
+        <h2 className="text-xl font-semibold">{wineTitle(bottle.result)}</h2>
+        <div className="flex gap-2 text-sm">
+          <button onClick={() => setEditing(!editing)} disabled={busy} className="underline">
+            {editing ? "Cancel" : "Edit"}
+          </button>
+          <button onClick={remove} disabled={busy} className="underline text-red-700">
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <Field k="Country" v={safeStr(rl.country)} />
+        <Field k="Region" v={safeStr(rl.region)} />
+        <Field k="Appellation" v={safeStr(rl.appellation)} />
+        <Field k="Quantity" v={String(bottle.quantity)} />
+        <Field
+          k="Paid"
+          v={bottle.purchasePrice != null ? `${bottle.purchasePrice} ${bottle.purchaseCurrency}` : "—"}
+        />
+        <Field k="Purchased" v={safeStr(bottle.purchaseDate)} />
+        <Field k="Location" v={bottle.location} />
+      </div>
+      <PillList
+        label="Grapes"
+        items={bottle.result.grapes.map((g) => (g.percent != null ? `${g.variety} ${g.percent}%` : g.variety))}
+      />
+
+      {editing ? (
+        <form onSubmit={save} className="grid grid-cols-2 gap-2 text-sm border-t pt-3">
+          <label className="grid gap-1">
+            Quantity
+            <input
+              type="number"
+              min={0}
+              value={draft.quantity}
+              onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="grid gap-1">
+            Price paid ({bottle.purchaseCurrency})
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={draft.purchasePrice}
+              onChange={(e) => setDraft({ ...draft, purchasePrice: e.target.value })}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="grid gap-1">
+            Purchase date
+            <input
+              type="date"
+              value={draft.purchaseDate}
+              onChange={(e) => setDraft({ ...draft, purchaseDate: e.target.value })}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="grid gap-1">
+            Location
+            <input
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+          <div className="col-span-2">
+            <button disabled={busy} className="px-4 py-2 rounded-xl bg-black text-white disabled:opacity-50">
+              {busy ? "Saving…" : "Save changes"}
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {error ? <div className="text-sm text-red-700">{error}</div> : null}
+    </div>
+  );
+}
+
+function money(amount: number, currency: string) {
+  return `${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })} ${currency}`;
+}
@@ -2,115 +2,193 @@
 /* eslint-disable @next/next/no-img-element */
 "use client";
 
+import Link from "next/link";
 import React, { useRef, useState } from "react";
-
-/** Shape we expect back from the API. All fields optional/loose on purpose. */
-type WsetL2 = Partial<{
-  sweetness: string;
-  acidity: string;
-  tannin: string;
-  body: string;
-  alcohol: string;
-  finishLength: string;
+import { CompareTable } from "@/components/compare-table";
+import { ExportMenu } from "@/components/export-menu";
+import { Field, PillList, safeStr } from "@/components/fields";
+import { StructureChart } from "@/components/structure-chart";
+import { TastingJournal } from "@/components/tasting-journal";
+import type { CellarBottle } from "@/lib/cellar/types";
+import { DRINK_STATUS_LABEL, assessDrinkWindow, wineTitle } from "@/lib/drink-window";
+import type { CacheReport } from "@/lib/cache/types";
+import type { ErrorCode } from "@/lib/errors";
+import type { AnalyzeEvent } from "@/lib/pipeline";
+import { LabelEditor } from "@/components/label-editor";
+import { PairingPanel } from "@/components/pairing-panel";
+import { PricePoints } from "@/components/price-points";
+import { PriceTrend } from "@/components/price-trend";
+import { ProvenanceBadge, isGuess } from "@/components/provenance";
+import { WineListTable } from "@/components/wine-list-table";
+import {
+  IMAGE_ROLES,
+  type AnalysisResult,
+  type FieldIssue,
+  type ImageRole,
+  type ProvenanceField,
+  type RecognizedLabel,
+  type WineListLine,
+} from "@/lib/schema";
+import { MARKETS, MARKET_CURRENCY, MARKET_LABEL, type Market, type SearchDiagnostic } from "@/lib/search/types";
+import type { WineListEntry, WineListEvent } from "@/lib/wine-list";
+
+/** Error/success envelope returned by /api/analyze. */
+type ApiPayload = Partial<{
+  ok: boolean;
+  data: AnalysisResult;
+  error: string;
+  code: ErrorCode;
+  /** Seconds, with RATE_LIMITED, BUDGET_EXCEEDED and UPSTREAM_RATE_LIMIT. */
+  retryAfter: number;
+  issues: FieldIssue[];
+  diagnostics: SearchDiagnostic[];
+  cache: CacheReport;
 }>;
 
-type TastingNotes = Partial<{
-  nose: string[];
-  palate: string[];
-  finish: string;
-  wsetLevel2: WsetL2;
-}>;
+/** One line of the `?stream=ndjson` response. */
+type StreamLine = AnalyzeEvent | ({ stage: "error"; status: number } & ApiPayload);
+type ListStreamLine = WineListEvent | ({ stage: "error"; status: number } & ApiPayload);
 
-type RecognizedLabel = Partial<{
-  producer: string;
-  wine: string;
-  appellation: string;
-  region: string;
-  country: string;
-  vintage: string | number;
-}>;
+/** A single bottle from its label photos, or every line of a restaurant wine list. */
+type Mode = "label" | "list";
 
-type DrinkWindow = Partial<{
-  drinkNow: boolean;
-  from: string;
-  to: string;
-  peakFrom: string;
-  peakTo: string;
-  decant: string;
-}>;
+type WineListState = { currency: string; lines: WineListLine[]; entries: Array<WineListEntry | undefined> };
 
-type PriceEstimate = Partial<{
-  currency: string;
-  low: number;
-  high: number;
-  confidence: string;
-  note: string;
-}>;
+/** A picked photo waiting to be uploaded. */
+type Photo = { id: number; file: File; url: string; role: ImageRole };
 
-type AromasAndFlavours = Partial<{
-  primary: string[];
-  secondary: string[];
-  tertiary: string[];
-}>;
+const MAX_PHOTOS = 4;
 
-type GrapePart = { variety: string; percent: number | null };
+/** Offered in the currency picker; the API accepts any code in its FX table. */
+const CURRENCIES = [...new Set(Object.values(MARKET_CURRENCY))];
 
-type ApiResult = Partial<{
-  recognizedLabel: RecognizedLabel;
-  tastingNotes: TastingNotes;
-  drinkWindow: DrinkWindow;
-  priceEstimate: PriceEstimate;
-  aromasAndFlavours: AromasAndFlavours;
-  grapes: GrapePart[] | string[]; // backward compatible with earlier string[] shape
-  caveats: string[];
-}>;
+const ROLE_LABEL: Record<ImageRole, string> = {
+  front: "Front label",
+  back: "Back label",
+  capsule: "Capsule",
+  other: "Other",
+};
+
+type Progress = "reading" | "searching" | "grounding" | "reading-list" | "pricing";
+
+const PROGRESS_LABEL: Record<Progress, string> = {
+  reading: "Reading label…",
+  searching: "Searching for prices…",
+  grounding: "Grounding with web evidence…",
+  "reading-list": "Reading wine list…",
+  pricing: "Pricing each wine…",
+};
 
 export default function Page() {
-  const fileRef = useRef<HTMLInputElement | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const nextId = useRef(0);
+  const [mode, setMode] = useState<Mode>("label");
+  const [market, setMarket] = useState<Market>("uk");
+  const [currency, setCurrency] = useState("");
+  const [photos, setPhotos] = useState<Photo[]>([]);
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<ApiResult | null>(null);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<SearchDiagnostic[]>([]);
+  const [cache, setCache] = useState<CacheReport | null>(null);
+  const [wineList, setWineList] = useState<WineListState | null>(null);
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const [cellar, setCellar] = useState<CellarBottle[] | null>(null);
+  const [compareId, setCompareId] = useState("");
 
   function onPickFile(e: React.ChangeEvent<HTMLInputElement>) {
-    const f = e.target.files?.[0];
-    if (!f) return;
-    const url = URL.createObjectURL(f);
-    setPreview(url);
+    const picked = Array.from(e.target.files ?? []);
+    if (picked.length === 0) return;
+    // Photos accumulate, so a phone camera can shoot front, back and capsule one after another
+    setPhotos((current) => {
+      const added = picked.slice(0, MAX_PHOTOS - current.length).map((file, i) => ({
+        id: nextId.current++,
+        file,
+        url: URL.createObjectURL(file),
+        role: defaultRole(current.length + i),
+      }));
+      return [...current, ...added];
+    });
+    e.target.value = "";
     setResult(null);
+    setWineList(null);
     setError(null);
   }
 
+  function switchMode(next: Mode) {
+    setMode(next);
+    setResult(null);
+    setWineList(null);
+    setSelectedLine(null);
+    setError(null);
+  }
+
+  function setRole(id: number, role: ImageRole) {
+    setPhotos((current) => current.map((p) => (p.id === id ? { ...p, role } : p)));
+  }
+
+  function removePhoto(id: number) {
+    setPhotos((current) => {
+      const gone = current.find((p) => p.id === id);
+      if (gone) URL.revokeObjectURL(gone.url);
+      return current.filter((p) => p.id !== id);
+    });
+  }
+
 async function onSubmit(e: React.FormEvent) {
   e.preventDefault();
+  await analyze(false);
+}
+
+async function analyze(refresh: boolean) {
   setLoading(true);
   setError(null);
   setResult(null);
-
-  const file = fileRef.current?.files?.[0];
-  if (!file) {
-    setError("⚠️ Please upload a wine label image before analyzing.");
+  setWineList(null);
+  setSelectedLine(null);
+  setCellar(null);
+  setDiagnostics([]);
+  setCache(null);
+  setProgress(mode === "list" ? "reading-list" : "reading");
+
+  if (photos.length === 0) {
+    setError(mode === "list" ? "⚠️ Please photograph the wine list first." : "⚠️ Please upload a wine label image before analyzing.");
     setLoading(false);
+    setProgress(null);
     return;
   }
 
   try {
-    // Optional: downscale large images to avoid 413 / reduce upload time
-    const processed = await resizeIfNeeded(file, 1600); // max width 1600px
-
     const fd = new FormData();
-    fd.append("image", processed, processed.name || file.name || "label.jpg");
+    for (const photo of photos) {
+      // Optional: downscale large images to avoid 413 / reduce upload time
+      const processed = await resizeIfNeeded(photo.file, 1600); // max width 1600px
+      fd.append("image", processed, processed.name || photo.file.name || "label.jpg");
+      if (mode === "label") fd.append("role", photo.role);
+    }
 
-    const res = await fetch("/api/analyze", { method: "POST", body: fd });
+    // Stream stage events so the card (or table) can render as soon as the photos are read
+    const params = new URLSearchParams({ stream: "ndjson" });
+    if (mode === "list") params.set("mode", "list");
+    if (refresh) params.set("refresh", "1");
+    params.set("market", market);
+    if (currency) params.set("currency", currency);
+    const res = await fetch(`/api/analyze?${params}`, { method: "POST", body: fd });
 
-    // Read as text first so we can safely handle non-JSON (HTML error pages, empty body, etc.)
     const contentType = res.headers.get("content-type") || "";
+    if (res.ok && contentType.includes("application/x-ndjson") && res.body) {
+      if (mode === "list") await readListStream(res.body);
+      else await readStream(res.body);
+      return;
+    }
+
+    // Read as text first so we can safely handle non-JSON (HTML error pages, empty body, etc.)
     const text = await res.text();
 
-    let payload: unknown = null;
+    let payload: ApiPayload | null = null;
     if (contentType.includes("application/json") && text) {
       try {
-        payload = JSON.parse(text);
+        payload = JSON.parse(text) as ApiPayload;
       } catch {
         // fall through; we'll handle as non-JSON below
       }
@@ -118,40 +196,117 @@ async function onSubmit(e: React.FormEvent) {
 
     if (!res.ok) {
       // Try to extract server error message if present
-      const msg =
-        (typeof (payload as any)?.error === "string" && (payload as any).error) ||
-        (text && text.slice(0, 300)) ||
-        `HTTP ${res.status}`;
-      throw new Error(msg);
+      throw new Error(describeError(payload, res.status) || (text && text.slice(0, 300)) || `HTTP ${res.status}`);
     }
 
-    const data = (payload as any)?.data;
+    const data = payload?.data;
     if (!data) {
       throw new Error("Empty response from server.");
     }
 
     setResult(data);
+    setDiagnostics((payload?.diagnostics ?? []).filter((d) => d.level !== "info"));
+    setCache(payload?.cache ?? null);
   } catch (err: unknown) {
-    let msg = err instanceof Error ? err.message : "Something went wrong.";
-
-    if (/payload too large|entity too large|413/i.test(msg)) {
-      msg = "⚠️ The image is too large for the server. Try a smaller photo or let me compress it.";
-    } else if (/quota/i.test(msg) || /429/.test(msg)) {
-      msg =
-        "⚠️ You’ve used up your OpenAI credits or hit a rate limit. Please check your OpenAI billing and try again later.";
-    } else if (/OPENAI_API_KEY/i.test(msg) || /401|unauthorized/i.test(msg)) {
-      msg =
-        "⚠️ API key problem. Check your OPENAI_API_KEY in Vercel → Project → Settings → Environment Variables.";
-    } else if (/No image supplied/i.test(msg)) {
-      msg = "⚠️ Please upload a wine label image before analyzing.";
-    }
+    setError(err instanceof Error ? err.message : "Something went wrong.");
+  } finally {
+    setLoading(false);
+    setProgress(null);
+  }
+}
 
-    setError(msg);
+/** Search and ground again with the user's corrections to the label; the photos are not re-read. */
+async function reground(label: RecognizedLabel, remember: boolean) {
+  if (!result) return;
+  const previous = result;
+  setLoading(true);
+  setError(null);
+  setDiagnostics([]);
+  setCache(null);
+  setProgress("searching");
+
+  try {
+    const params = new URLSearchParams({ stream: "ndjson", market });
+    if (currency) params.set("currency", currency);
+    const res = await fetch(`/api/analyze/reground?${params}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ result: previous, recognizedLabel: label, remember }),
+    });
+    if (res.ok && (res.headers.get("content-type") || "").includes("application/x-ndjson") && res.body) {
+      await readStream(res.body);
+      return;
+    }
+    const payload = (await res.json().catch(() => null)) as ApiPayload | null;
+    throw new Error(describeError(payload, res.status) || `HTTP ${res.status}`);
+  } catch (err: unknown) {
+    setResult(previous);
+    setError(err instanceof Error ? err.message : "Something went wrong.");
   } finally {
     setLoading(false);
+    setProgress(null);
   }
 }
 
+async function readStream(body: ReadableStream<Uint8Array>) {
+  let finished = false;
+  await readNdjson<StreamLine>(body, (event) => {
+    switch (event.stage) {
+      case "label":
+        setResult(event.data);
+        setProgress("searching");
+        break;
+      case "evidence":
+        if (event.count > 0) setProgress("grounding");
+        break;
+      case "grounded":
+        setResult(event.data);
+        break;
+      case "final":
+        setResult(event.data);
+        setDiagnostics(event.diagnostics.filter((d) => d.level !== "info"));
+        setCache(event.cache);
+        finished = true;
+        break;
+      case "error":
+        throw new Error(describeError(event) || `HTTP ${event.status}`);
+    }
+  });
+  if (!finished) throw new Error("Analysis stream ended early.");
+}
+
+async function readListStream(body: ReadableStream<Uint8Array>) {
+  let finished = false;
+  await readNdjson<ListStreamLine>(body, (event) => {
+    switch (event.stage) {
+      case "lines":
+        setWineList({ currency: event.currency, lines: event.lines, entries: [] });
+        setProgress("pricing");
+        break;
+      case "line":
+        setWineList((current) => {
+          if (!current) return current;
+          const entries = [...current.entries];
+          entries[event.entry.index] = event.entry;
+          return { ...current, entries };
+        });
+        break;
+      case "final":
+        setWineList({
+          currency: event.data.currency,
+          lines: event.data.entries.map((e) => e.line),
+          entries: event.data.entries,
+        });
+        setDiagnostics(event.data.diagnostics.filter((d) => d.level !== "info"));
+        finished = true;
+        break;
+      case "error":
+        throw new Error(describeError(event) || `HTTP ${event.status}`);
+    }
+  });
+  if (!finished) throw new Error("Analysis stream ended early.");
+}
+
 async function resizeIfNeeded(file: File, maxWidth: number): Promise<File> {
  // Quick guard: only process large images and common image types
 if (!/^image\/(jpe?g|png|webp)$/i.test(file.type)) return file;
@@ -188,7 +343,7 @@ if (!/^image\/(jpe?g|png|webp)$/i.test(file.type)) return file;
   return (
     <main className="min-h-screen bg-gray-50 text-gray-900">
       <div className="max-w-2xl mx-auto p-6 space-y-6">
-        <header className="space-y-2">
+        <header className="space-y-2 print:hidden">
           <h1 className="text-3xl font-semibold">Wine Label Analyser - WSET 2 Tasting Spec</h1>
           <p className="text-sm text-gray-600">
             Snap or upload a bottle label. We send the photo to a vision model and return structured info: price estimate,
@@ -196,48 +351,218 @@ if (!/^image\/(jpe?g|png|webp)$/i.test(file.type)) return file;
           </p>
         </header>
 
-        <form onSubmit={onSubmit} className="space-y-4">
+        <form onSubmit={onSubmit} className="space-y-4 print:hidden">
+          <div className="flex gap-1 text-sm">
+            {(["label", "list"] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => switchMode(m)}
+                className={`px-3 py-1 rounded-xl border ${mode === m ? "bg-gray-900 text-white" : "bg-white"}`}
+              >
+                {m === "label" ? "Bottle label" : "Wine list"}
+              </button>
+            ))}
+          </div>
           <input
-            ref={fileRef}
             type="file"
             accept="image/*"
             capture="environment"
+            multiple
+            disabled={photos.length >= MAX_PHOTOS}
             onChange={onPickFile}
             className="block w-full text-sm file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-gray-900 file:text-white hover:file:bg-black"
           />
+          <div className="flex flex-wrap gap-3 text-sm">
+            <label className="flex items-center gap-1">
+              Buying in
+              <select
+                value={market}
+                onChange={(e) => setMarket(e.target.value as Market)}
+                className="border rounded-lg px-1 py-0.5"
+              >
+                {MARKETS.map((m) => (
+                  <option key={m} value={m}>
+                    {MARKET_LABEL[m]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {mode === "label" ? (
+              <label className="flex items-center gap-1">
+                Prices in
+                <select
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="border rounded-lg px-1 py-0.5"
+                >
+                  <option value="">{MARKET_CURRENCY[market]} (market)</option>
+                  {CURRENCIES.filter((c) => c !== MARKET_CURRENCY[market]).map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+          </div>
+          <p className="text-xs text-gray-500">
+            {mode === "list"
+              ? `Add up to ${MAX_PHOTOS} pages of the restaurant's wine list; every wine is priced against retail.`
+              : `Add up to ${MAX_PHOTOS} photos: the back label carries ABV and grape percentages.`}
+          </p>
 
-          {preview && (
-            <img src={preview} alt="preview" className="w-full rounded-xl shadow border" />
+          {photos.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {photos.map((p) => (
+                <div key={p.id} className="space-y-1">
+                  <img
+                    src={p.url}
+                    alt={mode === "list" ? "Wine list page" : ROLE_LABEL[p.role]}
+                    className="w-full aspect-square object-cover rounded-xl shadow border"
+                  />
+                  <div className="flex items-center justify-end gap-1 text-xs">
+                    {mode === "label" ? (
+                      <select
+                        value={p.role}
+                        onChange={(e) => setRole(p.id, e.target.value as ImageRole)}
+                        className="flex-1 border rounded-lg px-1 py-0.5"
+                      >
+                        {IMAGE_ROLES.map((r) => (
+                          <option key={r} value={r}>
+                            {ROLE_LABEL[r]}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
+                    <button type="button" onClick={() => removePhoto(p.id)} aria-label="Remove photo" className="px-1">
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
           )}
 
           <button
             disabled={loading}
             className="px-4 py-2 rounded-xl bg-black text-white disabled:opacity-50"
           >
-            {loading ? "Analyzing…" : "Analyze Label"}
+            {loading ? (progress ? PROGRESS_LABEL[progress] : "Analyzing…") : mode === "list" ? "Analyze List" : "Analyze Label"}
           </button>
         </form>
 
         {error && (
-          <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-red-800">
+          <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-red-800 print:hidden">
             {error}
           </div>
         )}
 
+        {wineList ? (
+          <WineListTable
+            currency={wineList.currency}
+            lines={wineList.lines}
+            entries={wineList.entries}
+            selected={selectedLine}
+            onSelect={setSelectedLine}
+          />
+        ) : null}
+        {selectedLine != null && wineList?.entries[selectedLine]?.result ? (
+          <SafeResult result={wineList.entries[selectedLine].result} />
+        ) : null}
+
         {/* Guard so a render error in the card won't blank the whole page */}
-        {result ? <SafeResult result={result} /> : null}
+        {result && !loading ? (
+          <CompareWith
+            bottles={cellar}
+            value={compareId}
+            onOpen={() => {
+              if (cellar === null) {
+                fetch("/api/cellar")
+                  .then((res) => res.json() as Promise<{ data?: CellarBottle[] }>)
+                  .then((payload) => setCellar(payload.data ?? []))
+                  .catch(() => setCellar([]));
+              }
+            }}
+            onChange={setCompareId}
+          />
+        ) : null}
+        {result ? (
+          <SafeResult
+            result={result}
+            pending={progress === "searching" || progress === "grounding"}
+            onCorrect={loading ? undefined : reground}
+            compareWith={cellar?.find((b) => b.id === compareId)?.result}
+          />
+        ) : null}
+
+        {cache && !loading && (cache.label === "hit" || cache.grounded === "hit") ? (
+          <div className="text-xs text-gray-600 print:hidden">
+            Served from cache ({[cache.label === "hit" && "label", cache.grounded === "hit" && "prices"].filter(Boolean).join(", ")}).{" "}
+            <button type="button" onClick={() => analyze(true)} className="underline">
+              Re-analyse fresh
+            </button>
+          </div>
+        ) : null}
+
+        {result && !loading ? (
+          <ExportMenu result={result} photo={(photos.find((p) => p.role === "front") ?? photos[0])?.file} />
+        ) : null}
+
+        {result && !loading ? <PairingPanel result={result} /> : null}
+
+        {result && !loading ? <SaveToCellar key={JSON.stringify(result.recognizedLabel)} result={result} /> : null}
+
+        {result && !loading ? <TastingJournal key={JSON.stringify(result.recognizedLabel)} result={result} /> : null}
 
-        <footer className="text-xs text-gray-500">
-          Tip: Prices are indicative; verify locally (Wine-Searcher, retailer).
+        {diagnostics.length > 0 ? (
+          <ul className="text-xs text-gray-600 space-y-1 print:hidden">
+            {diagnostics.map((d, i) => (
+              <li key={i}>
+                Search ({d.provider}): {d.message}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        <footer className="text-xs text-gray-500 space-y-1 print:hidden">
+          <div>Tip: Prices are indicative; verify locally (Wine-Searcher, retailer).</div>
+          <div className="flex gap-4">
+            <Link href="/cellar" className="underline">
+              My cellar →
+            </Link>
+            <Link href="/quiz" className="underline">
+              Blind tasting quiz →
+            </Link>
+          </div>
         </footer>
       </div>
     </main>
   );
 }
 
-function SafeResult({ result }: { result: ApiResult }) {
+function SafeResult({
+  result,
+  pending,
+  compareWith,
+  onCorrect,
+}: {
+  result: AnalysisResult;
+  pending?: boolean;
+  compareWith?: AnalysisResult;
+  onCorrect?: (label: RecognizedLabel, remember: boolean) => void;
+}) {
   try {
-    return <ResultCard data={result} />;
+    return (
+      <>
+        {pending ? (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-2xl text-sm text-blue-800">
+            Label read. Checking retailers to refine price and drink window…
+          </div>
+        ) : null}
+        <ResultCard data={result} compareWith={compareWith} onCorrect={onCorrect} />
+      </>
+    );
   } catch (e) {
     return (
       <div className="p-3 bg-red-50 border border-red-200 rounded-2xl text-red-800">
@@ -247,48 +572,125 @@ function SafeResult({ result }: { result: ApiResult }) {
   }
 }
 
-function ResultCard({ data }: { data: ApiResult }) {
-  const rl = (data.recognizedLabel ?? {}) as RecognizedLabel;
-  const tn = (data.tastingNotes ?? {}) as TastingNotes;
-  const w2 = (tn.wsetLevel2 ?? {}) as WsetL2;
-  const dw = (data.drinkWindow ?? {}) as DrinkWindow;
-  const pe = (data.priceEstimate ?? {}) as PriceEstimate;
-  const af = (data.aromasAndFlavours ?? {}) as AromasAndFlavours;
-
-  // Normalise grapes (support string[] and {variety, percent}[])
-  const grapesRaw = data.grapes ?? [];
-  const grapes: GrapePart[] = Array.isArray(grapesRaw)
-    ? grapesRaw.map((g) => {
-        if (typeof g === "string") return { variety: g, percent: null };
-        const obj = g as Partial<GrapePart>;
-        return {
-          variety: String(obj?.variety ?? ""),
-          percent: typeof obj?.percent === "number" ? obj.percent : null,
-        };
-      })
-    : [];
+/** Picks a cellar bottle to show alongside the result; the cellar is only fetched once the picker is used. */
+function CompareWith({
+  bottles,
+  value,
+  onOpen,
+  onChange,
+}: {
+  bottles: CellarBottle[] | null;
+  value: string;
+  onOpen: () => void;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm print:hidden">
+      Compare with
+      <select
+        value={value}
+        onFocus={onOpen}
+        onMouseDown={onOpen}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 border rounded-lg px-2 py-1 bg-white"
+      >
+        <option value="">{bottles === null || bottles.length > 0 ? "— a bottle from my cellar —" : "(cellar is empty)"}</option>
+        {(bottles ?? []).map((b) => (
+          <option key={b.id} value={b.id}>
+            {wineTitle(b.result)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/** With `onCorrect`, the Wine Information facts can be edited and searched again. */
+function ResultCard({
+  data,
+  compareWith,
+  onCorrect,
+}: {
+  data: AnalysisResult;
+  compareWith?: AnalysisResult;
+  onCorrect?: (label: RecognizedLabel, remember: boolean) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const rl = data.recognizedLabel;
+  const tn = data.tastingNotes;
+  const w2 = tn.wsetLevel2;
+  const dw = data.drinkWindow;
+  const pe = data.priceEstimate;
+  const af = data.aromasAndFlavours;
+  const grapes = data.grapes;
+  const drink = assessDrinkWindow(dw);
+  const prov = data.provenance;
+  // Label facts fall back to the provenance of the whole recognizedLabel section
+  const provOf = (f: ProvenanceField) =>
+    prov[f] ?? (f.startsWith("recognizedLabel.") ? prov.recognizedLabel : undefined);
+  const badge = (f: ProvenanceField) => <ProvenanceBadge p={provOf(f)} sources={data.sources} />;
 
   return (
     <section className="space-y-4">
+      {compareWith ? (
+        <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
+          <h2 className="text-xl font-semibold">Side by Side</h2>
+          <CompareTable a={data} b={compareWith} />
+        </div>
+      ) : null}
+
       {/* Wine Information */}
       <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
-        <h2 className="text-xl font-semibold">Wine Information</h2>
-        <div className="grid grid-cols-2 gap-2 text-sm">
-          <Field k="Producer" v={safeStr(rl.producer)} />
-          <Field k="Wine" v={safeStr(rl.wine)} />
-          <Field k="Appellation" v={safeStr(rl.appellation)} />
-          <Field k="Region" v={safeStr(rl.region)} />
-          <Field k="Country" v={safeStr(rl.country)} />
-          <Field k="Vintage" v={rl.vintage != null ? String(rl.vintage) : "—"} />
-        </div>
+        <h2 className="text-xl font-semibold flex items-center">
+          Wine Information
+          {badge("recognizedLabel")}
+          {onCorrect && !editing ? (
+            <button type="button" onClick={() => setEditing(true)} className="ml-auto text-sm font-normal underline">
+              Correct
+            </button>
+          ) : null}
+        </h2>
+        {onCorrect && editing ? (
+          <LabelEditor
+            label={rl}
+            onCancel={() => setEditing(false)}
+            onSubmit={(label, remember) => {
+              setEditing(false);
+              onCorrect(label, remember);
+            }}
+          />
+        ) : (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <Field k="Producer" v={safeStr(rl.producer)} badge={badge("recognizedLabel.producer")} muted={isGuess(provOf("recognizedLabel.producer"))} />
+            <Field k="Wine" v={safeStr(rl.wine)} badge={badge("recognizedLabel.wine")} muted={isGuess(provOf("recognizedLabel.wine"))} />
+            <Field k="Appellation" v={safeStr(rl.appellation)} badge={badge("recognizedLabel.appellation")} muted={isGuess(provOf("recognizedLabel.appellation"))} />
+            <Field k="Region" v={safeStr(rl.region)} badge={badge("recognizedLabel.region")} muted={isGuess(provOf("recognizedLabel.region"))} />
+            <Field k="Country" v={safeStr(rl.country)} badge={badge("recognizedLabel.country")} muted={isGuess(provOf("recognizedLabel.country"))} />
+            <Field
+              k="Vintage"
+              v={rl.vintage != null ? String(rl.vintage) : "—"}
+              badge={badge("recognizedLabel.vintage")} muted={isGuess(provOf("recognizedLabel.vintage"))}
+            />
+            <Field k="ABV" v={data.abv != null ? `${data.abv}%` : "—"} badge={badge("abv")} muted={isGuess(provOf("abv"))} />
+          </div>
+        )}
+        {data.wineId && <div className="text-xs text-gray-500">Wine ID: {data.wineId}</div>}
 
         {/* Grapes with % */}
         <div className="text-sm">
-          <div className="font-medium mb-2">Grapes</div>
+          <div className="font-medium mb-2">
+            Grapes
+            {badge("grapes")}
+          </div>
           <div className="flex flex-wrap gap-2">
             {grapes.length > 0 ? (
               grapes.map((g, i) => (
-                <span key={i} className="px-2 py-1 bg-gray-100 rounded-full border text-gray-800">
+                <span
+                  key={i}
+                  className={`px-2 py-1 bg-gray-100 rounded-full border ${
+                    isGuess(provOf("grapes")) ? "border-dashed italic text-gray-500" : "text-gray-800"
+                  }`}
+                >
                   {g.variety}
                   {g.percent != null ? ` ${g.percent}%` : ""}
                 </span>
@@ -302,35 +704,42 @@ function ResultCard({ data }: { data: ApiResult }) {
 
       {/* Tasting Notes */}
       <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
-        <h2 className="text-xl font-semibold">Tasting Notes</h2>
-        <PillList label="Nose" items={(tn.nose ?? []).filter(Boolean)} />
-        <PillList label="Palate" items={(tn.palate ?? []).filter(Boolean)} />
+        <h2 className="text-xl font-semibold">
+          Tasting Notes
+          {badge("tastingNotes")}
+        </h2>
+        <PillList label="Nose" items={tn.nose} grouped />
+        <PillList label="Palate" items={tn.palate} grouped />
         {tn.finish ? (
           <div className="text-sm">
             <span className="font-medium">Finish:</span> {tn.finish}
           </div>
         ) : null}
-        <div className="text-sm grid grid-cols-2 gap-2">
-          <Field k="Sweetness" v={safeStr(w2.sweetness)} />
-          <Field k="Acidity" v={safeStr(w2.acidity)} />
-          <Field k="Tannin" v={safeStr(w2.tannin)} />
-          <Field k="Body" v={safeStr(w2.body)} />
-          <Field k="Alcohol" v={safeStr(w2.alcohol)} />
-          <Field k="Finish Length" v={safeStr(w2.finishLength)} />
-        </div>
+        <StructureChart
+          wines={[
+            { label: wineTitle(data), w2 },
+            ...(compareWith ? [{ label: wineTitle(compareWith), w2: compareWith.tastingNotes.wsetLevel2 }] : []),
+          ]}
+        />
       </div>
 
       {/* Aromas and Flavours */}
       <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
-        <h2 className="text-xl font-semibold">Aromas and Flavours</h2>
-        <PillList label="Primary" items={(af.primary ?? []).filter(Boolean)} />
-        <PillList label="Secondary" items={(af.secondary ?? []).filter(Boolean)} />
-        <PillList label="Tertiary" items={(af.tertiary ?? []).filter(Boolean)} />
+        <h2 className="text-xl font-semibold">
+          Aromas and Flavours
+          {badge("aromasAndFlavours")}
+        </h2>
+        <PillList label="Primary" items={af.primary} grouped />
+        <PillList label="Secondary" items={af.secondary} grouped />
+        <PillList label="Tertiary" items={af.tertiary} grouped />
       </div>
 
       {/* Drink Window (no Drink Now cell, per request) */}
       <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
-        <h2 className="text-xl font-semibold">Drink Window</h2>
+        <h2 className="text-xl font-semibold">
+          Drink Window
+          {badge("drinkWindow")}
+        </h2>
         <div className="text-sm grid grid-cols-2 gap-2">
           <Field k="From" v={safeStr(dw.from)} />
           <Field k="To" v={safeStr(dw.to)} />
@@ -338,11 +747,19 @@ function ResultCard({ data }: { data: ApiResult }) {
           <Field k="Peak To" v={safeStr(dw.peakTo)} />
           <Field k="Decant" v={safeStr(dw.decant)} />
         </div>
+        {drink.status !== "unknown" ? (
+          <div className="text-xs text-gray-600">
+            {DRINK_STATUS_LABEL[drink.status]} · {drink.reason}
+          </div>
+        ) : null}
       </div>
 
       {/* Price */}
       <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
-        <h2 className="text-xl font-semibold">Price (estimate)</h2>
+        <h2 className="text-xl font-semibold">
+          Price (estimate)
+          {badge("priceEstimate")}
+        </h2>
         <div className="text-sm grid grid-cols-2 gap-2">
           <Field k="Currency" v={safeStr(pe.currency)} />
           <Field
@@ -354,14 +771,49 @@ function ResultCard({ data }: { data: ApiResult }) {
             }
           />
           <Field k="Confidence" v={safeStr(pe.confidence)} />
+          {pe.median != null ? <Field k="Median" v={String(pe.median)} /> : null}
+          {pe.converted && pe.converted.currency !== pe.currency ? (
+            <Field
+              k={`In ${pe.converted.currency}`}
+              v={
+                pe.converted.low != null && pe.converted.high != null
+                  ? `${pe.converted.low} – ${pe.converted.high}`
+                  : "—"
+              }
+            />
+          ) : null}
         </div>
+        {pe.converted && pe.converted.currency !== pe.currency ? (
+          <div className="text-xs text-gray-500">
+            Converted at 1 {pe.currency} = {pe.converted.rate} {pe.converted.currency} (rates of {pe.converted.rateDate})
+          </div>
+        ) : null}
         {pe.note ? <div className="text-xs text-gray-600">{pe.note}</div> : null}
+        <PricePoints points={pe.points ?? []} currency={pe.currency} />
+        <PriceTrend label={rl} currency={pe.converted?.currency ?? pe.currency} refreshKey={data} />
+        {data.sources.length > 0 ? (
+          <div className="text-xs">
+            <div className="font-medium mb-1">Sources</div>
+            <ol className="list-decimal pl-5 space-y-1">
+              {data.sources.map((s, i) => (
+                <li key={i}>
+                  <a href={s.url} target="_blank" rel="noreferrer" className="underline text-gray-700">
+                    {s.title}
+                  </a>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : null}
       </div>
 
       {/* Caveats */}
-      {Array.isArray(data.caveats) && data.caveats.length > 0 ? (
+      {data.caveats.length > 0 ? (
         <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-2xl text-sm">
-          <div className="font-medium mb-1">Caveats</div>
+          <div className="font-medium mb-1">
+            Caveats
+            {badge("caveats")}
+          </div>
           <ul className="list-disc pl-5 space-y-1">
             {data.caveats.map((c, i) => (
               <li key={i}>{c}</li>
@@ -373,31 +825,176 @@ function ResultCard({ data }: { data: ApiResult }) {
   );
 }
 
-function Field({ k, v }: { k: string; v: string }) {
-  return (
-    <div>
-      <span className="font-medium">{k}:</span> {v || "—"}
-    </div>
-  );
+function defaultRole(index: number): ImageRole {
+  return index === 0 ? "front" : index === 1 ? "back" : index === 2 ? "capsule" : "other";
 }
 
-function PillList({ label, items }: { label: string; items: string[] }) {
-  const list = Array.isArray(items) ? items : [];
-  if (list.length === 0) return null;
+/** Feed each line of a newline-delimited JSON stream to `onEvent`; a throw from it aborts the read. */
+async function readNdjson<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as T);
+    }
+  }
+}
+
+/** What to tell the user for each error code. "" falls back to the raw response. */
+const ERROR_MESSAGE: Record<ErrorCode, (payload: ApiPayload) => string> = {
+  BAD_REQUEST: serverMessage,
+  NO_IMAGE: () => "⚠️ Please upload a wine label image before analyzing.",
+  TOO_MANY_IMAGES: () => `⚠️ Too many photos; use at most ${MAX_PHOTOS}.`,
+  UNSUPPORTED_MEDIA: () => "⚠️ That file isn’t a photo we can read. Use a JPEG, PNG, WebP or GIF image.",
+  PAYLOAD_TOO_LARGE: () => "⚠️ The image is too large for the server. Try a smaller photo.",
+  INVALID_API_KEY: () => "⚠️ The API key sent with this request isn’t recognised.",
+  NOT_FOUND: serverMessage,
+  RATE_LIMITED: (p) => `⚠️ Too many analyses in a short time. Try again ${waitFor(p.retryAfter)}.`,
+  BUDGET_EXCEEDED: (p) => `⚠️ Today’s analysis budget has been used up. Try again ${waitFor(p.retryAfter)}.`,
+  UPSTREAM_RATE_LIMIT: (p) => `⚠️ The AI provider is busy and asked us to slow down. Try again ${waitFor(p.retryAfter)}.`,
+  UPSTREAM_QUOTA: () => "⚠️ The OpenAI account has run out of credits. Please check your OpenAI billing and try again later.",
+  UPSTREAM_AUTH: () =>
+    "⚠️ The AI provider rejected the API key. Check your OPENAI_API_KEY in Vercel → Project → Settings → Environment Variables.",
+  UPSTREAM_UNAVAILABLE: () => "⚠️ The AI provider couldn’t be reached. It’s usually back within minutes; try again shortly.",
+  UPSTREAM_REJECTED: (p) =>
+    `⚠️ The AI provider refused the request${p.error ? ` (${p.error})` : ""}. Check the model names and other provider settings.`,
+  TIMEOUT: () => "⚠️ The analysis took too long and was stopped. Try again, perhaps with fewer photos.",
+  MODEL_BAD_JSON: () => "⚠️ The model’s answer came back garbled. Trying again usually fixes this.",
+  MODEL_INVALID: (p) => `⚠️ The model’s answer was missing details${fieldList(p)}. Try again, or use a sharper photo.`,
+  SEARCH_FAILED: () => "⚠️ The price search failed. Try again later.",
+  CONFIG: (p) =>
+    `⚠️ ${p.error || "Server misconfiguration"}. Check your OPENAI_API_KEY and other settings in Vercel → Project → Settings → Environment Variables.`,
+  INTERNAL: serverMessage,
+};
+
+/** The code a bare status implies, for answers from a proxy in front of the API (e.g. a 413 HTML page). */
+const STATUS_CODE: Partial<Record<number, ErrorCode>> = {
+  413: "PAYLOAD_TOO_LARGE",
+  429: "RATE_LIMITED",
+  504: "TIMEOUT",
+};
+
+/** The message for a failed request, from its error code or else its status. */
+function describeError(payload: ApiPayload | null, status?: number): string {
+  const code = payload?.code ?? (status ? STATUS_CODE[status] : undefined);
+  return code ? ERROR_MESSAGE[code](payload ?? {}) : serverMessage(payload ?? {});
+}
+
+function serverMessage(payload: ApiPayload): string {
+  if (typeof payload.error !== "string" || !payload.error) return "";
+  return `${payload.error}${fieldList(payload)}`;
+}
+
+function fieldList(payload: ApiPayload): string {
+  if (!Array.isArray(payload.issues) || payload.issues.length === 0) return "";
+  return ` (${payload.issues.map((i) => i.path || "response").join(", ")})`;
+}
+
+function waitFor(seconds?: number): string {
+  if (!seconds) return "later";
+  if (seconds < 90) return `in ${seconds} seconds`;
+  if (seconds < 90 * 60) return `in ${Math.round(seconds / 60)} minutes`;
+  return `in ${Math.round(seconds / 3600)} hours`;
+}
+
+function SaveToCellar({ result }: { result: AnalysisResult }) {
+  const [quantity, setQuantity] = useState("1");
+  const [price, setPrice] = useState("");
+  const [date, setDate] = useState("");
+  const [location, setLocation] = useState("");
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  // Prices are entered in the currency the estimate was shown in
+  const currency = result.priceEstimate.converted?.currency ?? result.priceEstimate.currency;
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    setStatus("saving");
+    try {
+      const res = await fetch("/api/cellar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          result,
+          quantity: Number(quantity) || 1,
+          purchasePrice: price ? Number(price) : null,
+          purchaseCurrency: currency,
+          purchaseDate: date || null,
+          location,
+        }),
+      });
+      setStatus(res.ok ? "saved" : "error");
+    } catch {
+      setStatus("error");
+    }
+  }
+
+  if (status === "saved") {
+    return (
+      <div className="p-3 bg-green-50 border border-green-200 rounded-2xl text-sm text-green-800">
+        Saved to your cellar.{" "}
+        <Link href="/cellar" className="underline">
+          View cellar
+        </Link>
+      </div>
+    );
+  }
+
   return (
-    <div className="text-sm">
-      <div className="font-medium mb-2">{label}</div>
-      <div className="flex flex-wrap gap-2">
-        {list.map((it, i) => (
-          <span key={i} className="px-2 py-1 bg-gray-100 rounded-full border text-gray-800">
-            {it}
-          </span>
-        ))}
+    <form onSubmit={save} className="grid gap-3 p-4 rounded-2xl bg-white shadow text-sm">
+      <h2 className="text-xl font-semibold">Save to Cellar</h2>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="grid gap-1">
+          Quantity
+          <input
+            type="number"
+            min={0}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="border rounded-lg px-2 py-1"
+          />
+        </label>
+        <label className="grid gap-1">
+          Price paid ({currency})
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className="border rounded-lg px-2 py-1"
+          />
+        </label>
+        <label className="grid gap-1">
+          Purchase date
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="border rounded-lg px-2 py-1"
+          />
+        </label>
+        <label className="grid gap-1">
+          Location
+          <input
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="Rack B, shelf 2"
+            className="border rounded-lg px-2 py-1"
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <button disabled={status === "saving"} className="px-4 py-2 rounded-xl bg-black text-white disabled:opacity-50">
+          {status === "saving" ? "Saving…" : "Save"}
+        </button>
+        {status === "error" ? <span className="text-red-700">Could not save this bottle.</span> : null}
       </div>
-    </div>
+    </form>
   );
 }
-
-function safeStr(v: unknown): string {
-  return typeof v === "string" ? v : v != null ? String(v) : "—";
-}
@@ -0,0 +1,327 @@
+// src/app/quiz/page.tsx
+"use client";
+
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+import { Field, PillList } from "@/components/fields";
+import { AromaPicker, EMPTY_AROMAS, EMPTY_STRUCTURE, StructureSelects } from "@/components/sat-form";
+import { StructureChart } from "@/components/structure-chart";
+import { TASTER_KEY } from "@/components/tasting-journal";
+import { wineTitle } from "@/lib/drink-window";
+import {
+  QUALITY_LEVELS,
+  QUALITY_LEVEL_LABEL,
+  QUIZ_MODES,
+  type BlindAnswer,
+  type QuizAttempt,
+  type QuizMode,
+  type QuizPartName,
+  type QuizQuestion,
+  type QuizStats,
+} from "@/lib/quiz/types";
+import type { AromasAndFlavours, WsetL2 } from "@/lib/schema";
+
+const MODE_LABEL: Record<QuizMode, string> = { blind: "Blind: name the wine", reverse: "Reverse: describe the wine" };
+
+const PART_LABEL: Record<QuizPartName, string> = {
+  grape: "Grape",
+  origin: "Origin",
+  quality: "Quality level",
+  structure: "Structure",
+  aromas: "Aromas",
+};
+
+const EMPTY_BLIND: BlindAnswer = { grape: "", country: "", region: "", quality: "" };
+
+export default function QuizPage() {
+  const [user, setUser] = useState("");
+  const [mode, setMode] = useState<QuizMode>("blind");
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [blind, setBlind] = useState<BlindAnswer>(EMPTY_BLIND);
+  const [structure, setStructure] = useState<WsetL2>(EMPTY_STRUCTURE);
+  const [aromas, setAromas] = useState<AromasAndFlavours>(EMPTY_AROMAS);
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [stats, setStats] = useState<QuizStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStats = useCallback(async (name: string) => {
+    if (!name.trim()) return setStats(null);
+    try {
+      const res = await fetch(`/api/quiz/stats?${new URLSearchParams({ user: name.trim() })}`);
+      const payload = (await res.json()) as { data?: QuizStats };
+      setStats(payload.data ?? null);
+    } catch {
+      setStats(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(TASTER_KEY) ?? "";
+    setUser(saved);
+    loadStats(saved);
+  }, [loadStats]);
+
+  async function next(m: QuizMode = mode) {
+    setBusy(true);
+    setError(null);
+    setAttempt(null);
+    setBlind(EMPTY_BLIND);
+    setStructure(EMPTY_STRUCTURE);
+    setAromas(EMPTY_AROMAS);
+    try {
+      const params = new URLSearchParams({ mode: m });
+      if (user.trim()) params.set("user", user.trim());
+      const res = await fetch(`/api/quiz?${params}`);
+      const payload = (await res.json()) as { data?: QuizQuestion; error?: string };
+      if (!res.ok || !payload.data) throw new Error(payload.error || `HTTP ${res.status}`);
+      setQuestion(payload.data);
+    } catch (err: unknown) {
+      setQuestion(null);
+      setError(err instanceof Error ? err.message : "Could not load a question.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!question) return;
+    if (!user.trim()) return setError("Enter your name so your score can be kept.");
+    setBusy(true);
+    setError(null);
+    try {
+      const answer =
+        question.mode === "blind"
+          ? blind
+          : { tastingNotes: { nose: [], palate: [], finish: "", wsetLevel2: structure }, aromasAndFlavours: aromas };
+      const res = await fetch("/api/quiz", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user: user.trim(), bottleId: question.bottleId, mode: question.mode, answer }),
+      });
+      const payload = (await res.json()) as { data?: { attempt: QuizAttempt; stats: QuizStats }; error?: string };
+      if (!res.ok || !payload.data) throw new Error(payload.error || `HTTP ${res.status}`);
+      localStorage.setItem(TASTER_KEY, user.trim());
+      setAttempt(payload.data.attempt);
+      setStats(payload.data.stats);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not score the answer.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 text-gray-900">
+      <div className="max-w-2xl mx-auto p-6 space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">Blind Tasting Quiz</h1>
+          <p className="text-sm text-gray-600">
+            Practise on the wines in your cellar ·{" "}
+            <Link href="/" className="underline">
+              Analyse a label
+            </Link>
+          </p>
+        </header>
+
+        <div className="grid gap-3 p-4 rounded-2xl bg-white shadow text-sm">
+          <label className="grid gap-1">
+            Your name
+            <input
+              value={user}
+              onChange={(e) => setUser(e.target.value)}
+              onBlur={() => loadStats(user)}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {QUIZ_MODES.map((m) => (
+              <button
+                key={m}
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  setMode(m);
+                  next(m);
+                }}
+                className={`px-3 py-1.5 rounded-xl border ${mode === m && question ? "bg-black text-white" : ""}`}
+              >
+                {MODE_LABEL[m]}
+              </button>
+            ))}
+          </div>
+          {error ? <div className="text-red-700">{error}</div> : null}
+        </div>
+
+        {question ? (
+          <form onSubmit={submit} className="grid gap-4 p-4 rounded-2xl bg-white shadow text-sm">
+            {question.mode === "blind" ? (
+              <>
+                <h2 className="text-xl font-semibold">What is this wine?</h2>
+                <StructureChart wines={[{ label: "This wine", w2: question.profile.tastingNotes.wsetLevel2 }]} />
+                {question.profile.abv != null ? <Field k="ABV" v={`${question.profile.abv}%`} /> : null}
+                <PillList label="Nose" items={question.profile.tastingNotes.nose} />
+                <PillList label="Palate" items={question.profile.tastingNotes.palate} />
+                <PillList
+                  label="Aromas and flavours"
+                  items={[
+                    ...question.profile.aromasAndFlavours.primary,
+                    ...question.profile.aromasAndFlavours.secondary,
+                    ...question.profile.aromasAndFlavours.tertiary,
+                  ]}
+                  grouped
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  {(["grape", "country", "region"] as const).map((k) => (
+                    <label key={k} className="grid gap-1 capitalize">
+                      {k === "grape" ? "Main grape" : k}
+                      <input
+                        value={blind[k]}
+                        disabled={!!attempt}
+                        onChange={(e) => setBlind((b) => ({ ...b, [k]: e.target.value }))}
+                        className="border rounded-lg px-2 py-1"
+                      />
+                    </label>
+                  ))}
+                  <label className="grid gap-1">
+                    Quality level
+                    <select
+                      value={blind.quality}
+                      disabled={!!attempt}
+                      onChange={(e) => setBlind((b) => ({ ...b, quality: e.target.value as BlindAnswer["quality"] }))}
+                      className="border rounded-lg px-2 py-1"
+                    >
+                      <option value="">—</option>
+                      {QUALITY_LEVELS.map((q) => (
+                        <option key={q} value={q}>
+                          {QUALITY_LEVEL_LABEL[q]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </>
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold">How does this wine taste?</h2>
+                <div>
+                  <div className="font-medium">{wineTitle({ recognizedLabel: question.label })}</div>
+                  <div className="text-gray-600">
+                    {[question.label.appellation || question.label.region, question.label.country].filter(Boolean).join(", ")}
+                    {question.grapes.length > 0 ? ` · ${question.grapes.join(", ")}` : ""}
+                  </div>
+                </div>
+                <fieldset className="grid gap-1" disabled={!!attempt}>
+                  <legend className="font-medium mb-1">Structure</legend>
+                  <StructureSelects value={structure} onChange={setStructure} />
+                </fieldset>
+                <fieldset className="grid gap-2" disabled={!!attempt}>
+                  <legend className="font-medium mb-1">Aromas and flavours</legend>
+                  <AromaPicker value={aromas} onChange={setAromas} />
+                </fieldset>
+              </>
+            )}
+
+            {attempt ? (
+              <QuizResult attempt={attempt} />
+            ) : (
+              <div>
+                <button disabled={busy} className="px-4 py-2 rounded-xl bg-black text-white disabled:opacity-50">
+                  {busy ? "Scoring…" : "Check answer"}
+                </button>
+              </div>
+            )}
+            {attempt ? (
+              <div>
+                <button type="button" disabled={busy} onClick={() => next()} className="px-4 py-2 rounded-xl border">
+                  Next wine
+                </button>
+              </div>
+            ) : null}
+          </form>
+        ) : null}
+
+        {stats && stats.attempts > 0 ? <StatsPanel stats={stats} /> : null}
+      </div>
+    </main>
+  );
+}
+
+function QuizResult({ attempt }: { attempt: QuizAttempt }) {
+  return (
+    <div className="grid gap-2 p-3 rounded-xl bg-gray-50 border">
+      <div className="flex justify-between">
+        <span className="font-medium">{wineTitle({ recognizedLabel: attempt.truth.label })}</span>
+        <span className="font-semibold">{pct(attempt.score.total)}</span>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal"></th>
+            <th className="font-normal">You</th>
+            <th className="font-normal">Answer</th>
+            <th className="font-normal text-right">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {attempt.score.parts.map((p) => (
+            <tr key={p.part} className="align-top">
+              <td className="font-medium pr-2">{PART_LABEL[p.part]}</td>
+              <td className="pr-2">{p.given || "—"}</td>
+              <td className="pr-2">{p.expected}</td>
+              <td className={`text-right ${p.score === 1 ? "text-green-700" : p.score > 0 ? "text-amber-700" : "text-red-700"}`}>
+                {pct(p.score)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function StatsPanel({ stats }: { stats: QuizStats }) {
+  return (
+    <div className="grid gap-3 p-4 rounded-2xl bg-white shadow text-sm">
+      <h2 className="text-xl font-semibold">Your Progress</h2>
+      <div className="text-gray-600">
+        {stats.attempts} answers, {pct(stats.meanScore)} on average
+        {QUIZ_MODES.filter((m) => stats.byMode[m].attempts > 0)
+          .map((m) => ` · ${m} ${pct(stats.byMode[m].meanScore)}`)
+          .join("")}
+      </div>
+      {stats.weakGrapes.length + stats.weakRegions.length > 0 ? (
+        <div className="p-2 rounded-lg bg-amber-50 border border-amber-200">
+          Work on: {[...stats.weakGrapes, ...stats.weakRegions].join(", ")}
+        </div>
+      ) : null}
+      <div className="grid grid-cols-2 gap-4 text-xs">
+        {(
+          [
+            ["Grapes", stats.grapes],
+            ["Regions", stats.regions],
+          ] as const
+        ).map(([title, tallies]) => (
+          <div key={title}>
+            <div className="font-medium mb-1">{title}</div>
+            <ul className="space-y-0.5">
+              {tallies.map((t) => (
+                <li key={t.name} className="flex justify-between gap-2">
+                  <span>{t.name}</span>
+                  <span className="text-gray-600">
+                    {pct(t.meanScore)} ({t.attempts})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function pct(x: number): string {
+  return `${Math.round(x * 100)}%`;
+}
@@ -0,0 +1,43 @@
+// src/components/compare-table.tsx
+import React from "react";
+import { wineTitle } from "@/lib/drink-window";
+import type { AnalysisResult } from "@/lib/schema";
+
+const ROWS: Array<[string, (r: AnalysisResult) => string]> = [
+  ["Region", (r) => [r.recognizedLabel.region, r.recognizedLabel.country].filter(Boolean).join(", ")],
+  ["Grapes", (r) => r.grapes.map((g) => (g.percent != null ? `${g.variety} ${g.percent}%` : g.variety)).join(", ")],
+  ["ABV", (r) => (r.abv != null ? `${r.abv}%` : "")],
+  ["Drink", (r) => [r.drinkWindow.from, r.drinkWindow.to].filter(Boolean).join(" – ")],
+  [
+    "Price",
+    (r) =>
+      r.priceEstimate.low != null && r.priceEstimate.high != null
+        ? `${r.priceEstimate.low} – ${r.priceEstimate.high} ${r.priceEstimate.currency}`
+        : "",
+  ],
+  ["Nose", (r) => r.tastingNotes.nose.join(", ")],
+];
+
+/** Two results' key facts in adjacent columns. */
+export function CompareTable({ a, b }: { a: AnalysisResult; b: AnalysisResult }) {
+  return (
+    <table className="w-full text-sm table-fixed">
+      <thead>
+        <tr className="text-left align-top">
+          <th className="w-20" />
+          <th className="pr-2 pb-1 text-rose-800">{wineTitle(a)}</th>
+          <th className="pb-1 text-sky-700">{wineTitle(b)}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ROWS.map(([label, get]) => (
+          <tr key={label} className="border-t align-top">
+            <td className="py-1 font-medium">{label}</td>
+            <td className="py-1 pr-2">{get(a) || "—"}</td>
+            <td className="py-1">{get(b) || "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
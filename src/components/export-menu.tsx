@@ -0,0 +1,67 @@
+// src/components/export-menu.tsx
+import React, { useState } from "react";
+import type { ExportFormat } from "@/lib/export/types";
+import type { AnalysisResult } from "@/lib/schema";
+
+const FORMAT_LABEL: Record<ExportFormat, string> = {
+  pdf: "PDF card",
+  png: "PNG card",
+  md: "Markdown",
+  json: "JSON",
+};
+
+/**
+ * Downloads the result as a tasting card (with `photo` as its thumbnail) or as
+ * Markdown / JSON, and prints the page with the print stylesheet.
+ */
+export function ExportMenu({ result, photo }: { result: AnalysisResult; photo?: File }) {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function download(format: ExportFormat) {
+    setBusy(format);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("result", JSON.stringify(result));
+      if (photo && (format === "pdf" || format === "png")) form.append("image", photo);
+      const res = await fetch(`/api/export?format=${format}`, { method: "POST", body: form });
+      if (!res.ok) {
+        const payload = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(payload?.error || `HTTP ${res.status}`);
+      }
+      const name = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? `tasting-card.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Export failed.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs print:hidden">
+      <span className="font-medium">Export:</span>
+      {(Object.keys(FORMAT_LABEL) as ExportFormat[]).map((f) => (
+        <button
+          key={f}
+          type="button"
+          onClick={() => download(f)}
+          disabled={busy !== null}
+          className="px-2 py-1 rounded-lg border bg-white disabled:opacity-50"
+        >
+          {busy === f ? "Exporting…" : FORMAT_LABEL[f]}
+        </button>
+      ))}
+      <button type="button" onClick={() => window.print()} className="px-2 py-1 rounded-lg border bg-white">
+        Print
+      </button>
+      {error ? <span className="text-red-700">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+// src/components/fields.tsx
+// Small display primitives shared by the analyser and cellar pages.
+
+import type { ReactNode } from "react";
+import { aromaClusterOf } from "@/lib/aromas";
+
+/** `badge` follows the value (e.g. its provenance); `muted` greys out a guessed value. */
+export function Field({ k, v, badge, muted }: { k: string; v: string; badge?: ReactNode; muted?: boolean }) {
+  return (
+    <div>
+      <span className="font-medium">{k}:</span> <span className={muted ? "italic text-gray-500" : undefined}>{v || "—"}</span>
+      {badge}
+    </div>
+  );
+}
+
+/** `grouped` sorts aroma descriptors under their lexicon cluster (Red fruit, Oak…). */
+export function PillList({ label, items, grouped }: { label: string; items: string[]; grouped?: boolean }) {
+  const list = Array.isArray(items) ? items : [];
+  if (list.length === 0) return null;
+  return (
+    <div className="text-sm">
+      <div className="font-medium mb-2">{label}</div>
+      {grouped ? (
+        <div className="grid gap-1.5">
+          {clusterGroups(list).map(([cluster, pills]) => (
+            <div key={cluster} className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-gray-500 w-28 shrink-0">{cluster}</span>
+              <Pills items={pills} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Pills items={list} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Pills({ items }: { items: string[] }) {
+  return (
+    <>
+      {items.map((it, i) => (
+        <span key={i} className="px-2 py-1 bg-gray-100 rounded-full border text-gray-800">
+          {it}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/** Clusters in first-mention order; descriptors outside the lexicon go last under "Other". */
+function clusterGroups(items: string[]): Array<[string, string[]]> {
+  const groups = new Map<string, string[]>();
+  for (const it of items) {
+    const cluster = aromaClusterOf(safeStr(it))?.label ?? "Other";
+    groups.set(cluster, [...(groups.get(cluster) ?? []), it]);
+  }
+  const other = groups.get("Other");
+  groups.delete("Other");
+  return other ? [...groups, ["Other", other]] : [...groups];
+}
+
+export function safeStr(v: unknown): string {
+  return typeof v === "string" ? v : v != null ? String(v) : "—";
+}
@@ -0,0 +1,89 @@
+// src/components/label-editor.tsx
+import React, { useState } from "react";
+import { LABEL_FIELDS, type LabelField, type RecognizedLabel } from "@/lib/schema";
+
+const FIELD_LABEL: Record<LabelField, string> = {
+  producer: "Producer",
+  wine: "Wine",
+  appellation: "Appellation",
+  region: "Region",
+  country: "Country",
+  vintage: "Vintage",
+};
+
+/**
+ * The Wine Information facts as a form, for fixing a misread label. Submitting
+ * hands back the corrected label; `remember` asks for the misread names to be
+ * kept as aliases of the corrected ones.
+ */
+export function LabelEditor({
+  label,
+  onSubmit,
+  onCancel,
+}: {
+  label: RecognizedLabel;
+  onSubmit: (label: RecognizedLabel, remember: boolean) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<Record<LabelField, string>>(() => ({
+    ...label,
+    vintage: label.vintage != null ? String(label.vintage) : "",
+  }));
+  const [remember, setRemember] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    const vintage = draft.vintage.trim() ? Number(draft.vintage) : null;
+    if (vintage != null && !(Number.isInteger(vintage) && vintage >= 1800 && vintage <= 2100)) {
+      setError("Vintage must be a year, or empty for non-vintage.");
+      return;
+    }
+    if (!draft.producer.trim() && !draft.wine.trim()) {
+      setError("Give at least the producer or the wine.");
+      return;
+    }
+    const { producer, wine, appellation, region, country } = draft;
+    onSubmit(
+      {
+        producer: producer.trim(),
+        wine: wine.trim(),
+        appellation: appellation.trim(),
+        region: region.trim(),
+        country: country.trim(),
+        vintage,
+      },
+      remember
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="grid gap-2 text-sm">
+      <div className="grid grid-cols-2 gap-2">
+        {LABEL_FIELDS.map((f) => (
+          <label key={f} className="grid gap-1">
+            <span className="font-medium">{FIELD_LABEL[f]}</span>
+            <input
+              value={draft[f]}
+              inputMode={f === "vintage" ? "numeric" : undefined}
+              placeholder={f === "vintage" ? "NV" : undefined}
+              onChange={(e) => setDraft((d) => ({ ...d, [f]: e.target.value }))}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+        Remember the corrected names as aliases of what was read
+      </label>
+      {error ? <div className="text-xs text-red-700">{error}</div> : null}
+      <div className="flex gap-2">
+        <button className="px-3 py-1.5 rounded-xl bg-black text-white">Search again</button>
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-xl border">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
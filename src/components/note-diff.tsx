@@ -0,0 +1,87 @@
+// src/components/note-diff.tsx
+import React from "react";
+import type { AromaDiff, NoteDiff } from "@/lib/notes/diff";
+import type { WsetField } from "@/lib/schema";
+
+const FIELD_LABEL: Record<WsetField, string> = {
+  sweetness: "Sweetness",
+  acidity: "Acidity",
+  tannin: "Tannin",
+  body: "Body",
+  alcohol: "Alcohol",
+  finishLength: "Finish",
+};
+
+/** Where a tasting note departs from the model's prediction, field by field. */
+export function NoteDiffView({ diff }: { diff: NoteDiff }) {
+  const aromas: [string, AromaDiff][] = [
+    ["Nose", diff.nose],
+    ["Palate", diff.palate],
+    ["Primary", diff.aromas.primary],
+    ["Secondary", diff.aromas.secondary],
+    ["Tertiary", diff.aromas.tertiary],
+  ];
+
+  return (
+    <div className="grid gap-2 text-xs">
+      {diff.agreement != null ? (
+        <div className="text-gray-600">
+          Structure agreement with the model: <b>{Math.round(diff.agreement * 100)}%</b>
+        </div>
+      ) : null}
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal"></th>
+            <th className="font-normal">You</th>
+            <th className="font-normal">Model</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diff.structure.map((s) => (
+            <tr key={s.field} className={s.steps ? "bg-amber-50" : undefined}>
+              <td className="font-medium pr-2">{FIELD_LABEL[s.field]}</td>
+              <td>{s.yours || "—"}</td>
+              <td>
+                {s.model || "—"}
+                {s.steps ? (
+                  <span className="ml-1 text-amber-700">
+                    ({s.steps > 0 ? "you +" : "you −"}
+                    {Math.abs(s.steps)})
+                  </span>
+                ) : null}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {aromas
+        .filter(([, d]) => d.shared.length + d.onlyYours.length + d.onlyModel.length > 0)
+        .map(([title, d]) => (
+          <div key={title}>
+            <span className="font-medium">{title}: </span>
+            {d.shared.map((a) => (
+              <span key={`s-${a}`} className="inline-block mr-1 mb-1 px-1.5 rounded bg-green-100 text-green-800">
+                {a}
+              </span>
+            ))}
+            {d.onlyYours.map((a) => (
+              <span key={`y-${a}`} className="inline-block mr-1 mb-1 px-1.5 rounded bg-blue-100 text-blue-800" title="Only you">
+                + {a}
+              </span>
+            ))}
+            {d.onlyModel.map((a) => (
+              <span key={`m-${a}`} className="inline-block mr-1 mb-1 px-1.5 rounded bg-gray-100 text-gray-500 line-through" title="Only the model">
+                {a}
+              </span>
+            ))}
+          </div>
+        ))}
+      <div className="text-gray-500">
+        <span className="px-1.5 rounded bg-green-100 text-green-800">both</span>{" "}
+        <span className="px-1.5 rounded bg-blue-100 text-blue-800">+ only you</span>{" "}
+        <span className="px-1.5 rounded bg-gray-100 text-gray-500 line-through">only the model</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+// src/components/pairing-panel.tsx
+import React, { useEffect, useState } from "react";
+import type { DishSuggestion, PairingReason } from "@/lib/pairing/types";
+import type { AnalysisResult } from "@/lib/schema";
+
+type PairingPayload = {
+  data?: { dishes: DishSuggestion[]; explanation: string | null; explanationError?: string };
+  error?: string;
+};
+
+/** Rule-based dish suggestions for one result, with an optional model-written explanation. */
+export function PairingPanel({ result }: { result: AnalysisResult }) {
+  const [dishes, setDishes] = useState<DishSuggestion[]>([]);
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [explaining, setExplaining] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setExplanation(null);
+    setError(null);
+    request(result, false)
+      .then((data) => !cancelled && setDishes(data.dishes))
+      .catch((err: unknown) => !cancelled && setError(err instanceof Error ? err.message : "Could not suggest pairings."));
+    return () => {
+      cancelled = true;
+    };
+  }, [result]);
+
+  async function explain() {
+    setExplaining(true);
+    setError(null);
+    try {
+      const data = await request(result, true);
+      setDishes(data.dishes);
+      if (data.explanation) setExplanation(data.explanation);
+      else setError(data.explanationError || "No explanation available.");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not explain the pairings.");
+    } finally {
+      setExplaining(false);
+    }
+  }
+
+  if (dishes.length === 0 && !error) return null;
+
+  return (
+    <div className="grid gap-3 p-4 rounded-2xl bg-white shadow text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Food Pairing</h2>
+        {explanation === null ? (
+          <button type="button" onClick={explain} disabled={explaining} className="underline text-xs disabled:opacity-50">
+            {explaining ? "Explaining…" : "Explain"}
+          </button>
+        ) : null}
+      </div>
+      <ol className="list-decimal pl-5 space-y-2">
+        {dishes.map((d) => (
+          <li key={d.dish}>
+            <span className="font-medium">{d.label}</span>
+            <ul className="text-xs space-y-0.5 mt-1">
+              {d.reasons.map((r) => (
+                <Reason key={r.rule} r={r} />
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+      {explanation ? <p className="text-gray-700">{explanation}</p> : null}
+      {error ? <div className="text-xs text-red-700">{error}</div> : null}
+    </div>
+  );
+}
+
+export function Reason({ r }: { r: PairingReason }) {
+  return (
+    <li className={r.delta > 0 ? "text-green-700" : "text-red-700"}>
+      {r.delta > 0 ? "+" : "−"} {r.text}
+    </li>
+  );
+}
+
+async function request(result: AnalysisResult, explain: boolean) {
+  const res = await fetch("/api/pairing", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ result, explain }),
+  });
+  const payload = (await res.json()) as PairingPayload;
+  if (!res.ok || !payload.data) throw new Error(payload.error || `HTTP ${res.status}`);
+  return payload.data;
+}
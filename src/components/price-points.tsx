@@ -0,0 +1,48 @@
+// src/components/price-points.tsx
+import React from "react";
+import type { PriceExclusion, PricePoint } from "@/lib/schema";
+
+const EXCLUSION_LABEL: Record<PriceExclusion, string> = {
+  outlier: "outlier",
+  "other-vintage": "other vintage",
+  "no-fx-rate": "no exchange rate",
+};
+
+/** Every price read from the evidence, as listed and per 75cl bottle; left-out points are struck through. */
+export function PricePoints({ points, currency }: { points: PricePoint[]; currency: string }) {
+  if (points.length === 0) return null;
+  return (
+    <div className="text-xs">
+      <div className="font-medium mb-1">Prices found</div>
+      <table className="w-full">
+        <tbody>
+          {points.map((p, i) => (
+            <tr key={i} className={`border-b last:border-0 align-top ${p.excluded ? "text-gray-400" : ""}`}>
+              <td className="py-0.5 pr-2">
+                <a href={p.url} target="_blank" rel="noreferrer" className="underline">
+                  {host(p.url)}
+                </a>
+              </td>
+              <td className={`py-0.5 pr-2 ${p.excluded ? "line-through" : ""}`}>{p.text}</td>
+              <td className="py-0.5 text-right whitespace-nowrap">
+                {p.excluded
+                  ? EXCLUSION_LABEL[p.excluded]
+                  : p.bottlePrice != null
+                    ? `${p.bottlePrice.toFixed(2)} ${currency} / 75cl`
+                    : ""}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function host(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
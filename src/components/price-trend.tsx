@@ -0,0 +1,86 @@
+// src/components/price-trend.tsx
+import React, { useEffect, useState } from "react";
+import type { PriceObservation } from "@/lib/price-history/types";
+import type { RecognizedLabel } from "@/lib/schema";
+
+type Point = PriceObservation & { value: { low: number | null; mid: number | null; high: number | null } };
+
+const W = 300;
+const H = 70;
+const PAD = 4;
+
+/**
+ * Every price recorded for this wine over time: the mid as a line over the
+ * low–high band, in `currency`. Renders nothing until there are two observations.
+ * Pass a new `refreshKey` (e.g. the result) to re-fetch after a fresh analysis.
+ */
+export function PriceTrend({
+  label,
+  currency,
+  refreshKey,
+}: {
+  label: RecognizedLabel;
+  currency: string;
+  refreshKey?: unknown;
+}) {
+  const [points, setPoints] = useState<Point[]>([]);
+  const { producer, wine, vintage } = label;
+
+  useEffect(() => {
+    if (!producer && !wine) return;
+    const params = new URLSearchParams({ producer, wine, currency });
+    if (vintage != null) params.set("vintage", String(vintage));
+    fetch(`/api/prices/history?${params}`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ data?: { observations: Point[] } }>) : null))
+      .then((payload) => setPoints((payload?.data?.observations ?? []).filter((o) => o.value.mid != null)))
+      .catch(() => setPoints([]));
+  }, [producer, wine, vintage, currency, refreshKey]);
+
+  if (points.length < 2) return null;
+
+  const times = points.map((p) => Date.parse(p.observedAt));
+  const values = points.flatMap((p) => [p.value.low ?? p.value.mid, p.value.high ?? p.value.mid]) as number[];
+  const [t0, t1] = [Math.min(...times), Math.max(...times)];
+  const [v0, v1] = [Math.min(...values), Math.max(...values)];
+  const x = (t: number) => PAD + ((t - t0) / (t1 - t0 || 1)) * (W - 2 * PAD);
+  const y = (v: number) => H - PAD - ((v - v0) / (v1 - v0 || 1)) * (H - 2 * PAD);
+
+  const band = [
+    ...points.map((p, i) => `${x(times[i])},${y((p.value.high ?? p.value.mid) as number)}`),
+    ...points.map((p, i) => `${x(times[i])},${y((p.value.low ?? p.value.mid) as number)}`).reverse(),
+  ].join(" ");
+  const line = points.map((p, i) => `${x(times[i])},${y(p.value.mid as number)}`).join(" ");
+
+  const first = points[0].value.mid as number;
+  const last = points[points.length - 1].value.mid as number;
+  const change = first > 0 ? ((last - first) / first) * 100 : 0;
+
+  return (
+    <div className="text-xs">
+      <div className="flex justify-between font-medium mb-1">
+        <span>Price history</span>
+        <span className={change > 0 ? "text-red-700" : change < 0 ? "text-green-700" : "text-gray-600"}>
+          {change > 0 ? "+" : ""}
+          {change.toFixed(0)}% since {new Date(t0).toLocaleDateString()}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-16" role="img" aria-label="Price history chart">
+        <polygon points={band} className="fill-rose-100" />
+        <polyline points={line} className="fill-none stroke-rose-800" strokeWidth={1.5} />
+        {points.map((p, i) => (
+          <circle key={i} cx={x(times[i])} cy={y(p.value.mid as number)} r={2} className="fill-rose-800">
+            <title>
+              {new Date(times[i]).toLocaleDateString()}: {p.value.mid} {currency}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-gray-500">
+        <span>
+          {v0.toFixed(0)}–{v1.toFixed(0)} {currency}
+        </span>
+        <span>{points.length} observations</span>
+      </div>
+    </div>
+  );
+}
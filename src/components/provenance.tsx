@@ -0,0 +1,54 @@
+// src/components/provenance.tsx
+import type { FieldProvenance, Source } from "@/lib/schema";
+
+const IMAGE_LABEL = { front: "front label", back: "back label", capsule: "capsule", other: "photo" } as const;
+
+/**
+ * Small tag saying where a value came from. Label facts are green, web-backed
+ * values blue (linked to their source), user corrections violet and model guesses amber.
+ */
+export function ProvenanceBadge({ p, sources }: { p?: FieldProvenance; sources: Source[] }) {
+  if (!p) return null;
+  const conf = p.confidence !== "high" ? ` · ${p.confidence}` : "";
+
+  if (p.origin === "label") {
+    return (
+      <span className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] bg-green-50 border border-green-200 text-green-800">
+        on {p.image ? IMAGE_LABEL[p.image] : "label"}
+        {conf}
+      </span>
+    );
+  }
+  if (p.origin === "web") {
+    const src = p.source != null ? sources[p.source] : undefined;
+    const text = `web${p.source != null ? ` [${p.source + 1}]` : ""}${conf}`;
+    return (
+      <span className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] bg-blue-50 border border-blue-200 text-blue-800">
+        {src ? (
+          <a href={src.url} target="_blank" rel="noreferrer" title={src.title} className="underline">
+            {text}
+          </a>
+        ) : (
+          text
+        )}
+      </span>
+    );
+  }
+  if (p.origin === "user") {
+    return (
+      <span className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] bg-violet-50 border border-violet-200 text-violet-800">
+        corrected
+      </span>
+    );
+  }
+  return (
+    <span className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] bg-amber-50 border border-dashed border-amber-300 text-amber-800">
+      model guess{conf}
+    </span>
+  );
+}
+
+/** Inferred values are rendered muted so they read as guesses next to label facts. */
+export function isGuess(p?: FieldProvenance) {
+  return p?.origin === "inferred";
+}
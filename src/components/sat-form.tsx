@@ -0,0 +1,88 @@
+// src/components/sat-form.tsx
+// Inputs for a structured WSET Level 2 note, shared by the tasting journal and the quiz.
+import React from "react";
+import { AROMA_CLUSTERS, AROMA_TIERS, type AromaTier } from "@/lib/aromas";
+import { STRUCTURE_LEVELS, SWEETNESS_LEVELS, type AromasAndFlavours, type WsetField, type WsetL2 } from "@/lib/schema";
+
+const STRUCTURE_ROWS: Array<{ field: WsetField; label: string; scale: readonly string[] }> = [
+  { field: "sweetness", label: "Sweetness", scale: SWEETNESS_LEVELS },
+  { field: "acidity", label: "Acidity", scale: STRUCTURE_LEVELS },
+  { field: "tannin", label: "Tannin", scale: STRUCTURE_LEVELS },
+  { field: "body", label: "Body", scale: STRUCTURE_LEVELS },
+  { field: "alcohol", label: "Alcohol", scale: STRUCTURE_LEVELS },
+  { field: "finishLength", label: "Finish", scale: STRUCTURE_LEVELS },
+];
+
+const TIER_LABEL: Record<AromaTier, string> = { primary: "Primary", secondary: "Secondary", tertiary: "Tertiary" };
+
+export const EMPTY_STRUCTURE: WsetL2 = { sweetness: "", acidity: "", tannin: "", body: "", alcohol: "", finishLength: "" };
+
+export const EMPTY_AROMAS: AromasAndFlavours = { primary: [], secondary: [], tertiary: [] };
+
+/** One select per structure field, on its SAT scale. */
+export function StructureSelects({ value, onChange }: { value: WsetL2; onChange: (value: WsetL2) => void }) {
+  return (
+    <>
+      {STRUCTURE_ROWS.map(({ field, label, scale }) => (
+        <label key={field} className="grid grid-cols-[5.5rem_1fr] items-center gap-2">
+          <span>{label}</span>
+          <select
+            value={value[field]}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            className="border rounded-lg px-2 py-1"
+          >
+            <option value="">—</option>
+            {scale.map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </>
+  );
+}
+
+/** The aroma lexicon by tier and cluster, as toggles. */
+export function AromaPicker({ value, onChange }: { value: AromasAndFlavours; onChange: (value: AromasAndFlavours) => void }) {
+  function toggle(tier: AromaTier, name: string) {
+    const list = value[tier];
+    onChange({ ...value, [tier]: list.includes(name) ? list.filter((x) => x !== name) : [...list, name] });
+  }
+
+  return (
+    <>
+      {AROMA_TIERS.map((tier) => (
+        <details key={tier}>
+          <summary className="cursor-pointer">
+            {TIER_LABEL[tier]}
+            {value[tier].length > 0 ? <span className="text-gray-500"> — {value[tier].join(", ")}</span> : null}
+          </summary>
+          <div className="grid gap-1 mt-1">
+            {AROMA_CLUSTERS.filter((c) => c.tier === tier).map((c) => (
+              <div key={c.id} className="text-xs">
+                <span className="text-gray-500 mr-1">{c.label}:</span>
+                {c.descriptors.map((d) => {
+                  const name = d.split("|")[0];
+                  const on = value[tier].includes(name);
+                  return (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => toggle(tier, name)}
+                      aria-pressed={on}
+                      className={`mr-1 mb-1 px-1.5 rounded border ${on ? "bg-rose-800 text-white border-rose-800" : ""}`}
+                    >
+                      {name}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </details>
+      ))}
+    </>
+  );
+}
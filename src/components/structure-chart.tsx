@@ -0,0 +1,74 @@
+// src/components/structure-chart.tsx
+import React from "react";
+import { STRUCTURE_LEVELS, SWEETNESS_LEVELS, type WsetField, type WsetL2 } from "@/lib/schema";
+
+export type ChartWine = { label: string; w2: WsetL2 };
+
+const ROWS: Array<{ field: WsetField; label: string; scale: readonly string[] }> = [
+  { field: "sweetness", label: "Sweetness", scale: SWEETNESS_LEVELS },
+  { field: "acidity", label: "Acidity", scale: STRUCTURE_LEVELS },
+  { field: "tannin", label: "Tannin", scale: STRUCTURE_LEVELS },
+  { field: "body", label: "Body", scale: STRUCTURE_LEVELS },
+  { field: "alcohol", label: "Alcohol", scale: STRUCTURE_LEVELS },
+  { field: "finishLength", label: "Finish", scale: STRUCTURE_LEVELS },
+];
+
+/** First wine, second wine. */
+const COLOURS = ["bg-rose-800", "bg-sky-600"];
+
+/**
+ * WSET structure as horizontal bars on the SAT scales, one bar per wine so two
+ * wines can be read side by side. Off-scale wording is shown as written.
+ */
+export function StructureChart({ wines }: { wines: ChartWine[] }) {
+  return (
+    <div className="grid gap-2 text-sm">
+      {wines.length > 1 ? (
+        <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+          {wines.map((w, i) => (
+            <span key={i} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${COLOURS[i]}`} />
+              {w.label}
+            </span>
+          ))}
+        </div>
+      ) : null}
+      {ROWS.map(({ field, label, scale }) => (
+        <div key={field} className="grid grid-cols-[5.5rem_1fr] items-center gap-2">
+          <span className="font-medium">{label}</span>
+          <div className="grid gap-1">
+            {wines.map((w, i) => (
+              <Bar key={i} value={w.w2[field]} original={w.w2.unmapped?.[field]} scale={scale} colour={COLOURS[i]} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Bar({
+  value,
+  original,
+  scale,
+  colour,
+}: {
+  value: string;
+  original?: string;
+  scale: readonly string[];
+  colour: string;
+}) {
+  const step = scale.indexOf(value);
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex flex-1 gap-0.5" aria-hidden>
+        {scale.map((s, i) => (
+          <span key={s} className={`h-2.5 flex-1 first:rounded-l last:rounded-r ${i <= step ? colour : "bg-gray-200"}`} />
+        ))}
+      </div>
+      <span className="w-24 text-xs text-gray-600 truncate" title={original ? "Not on the SAT scale" : undefined}>
+        {step >= 0 ? value : original ? <i>“{original}”</i> : "—"}
+      </span>
+    </div>
+  );
+}
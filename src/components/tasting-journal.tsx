@@ -0,0 +1,189 @@
+// src/components/tasting-journal.tsx
+import React, { useEffect, useState } from "react";
+import type { NoteDiff } from "@/lib/notes/diff";
+import type { TastingNote } from "@/lib/notes/types";
+import type { AnalysisResult, AromasAndFlavours, WsetL2 } from "@/lib/schema";
+import { NoteDiffView } from "@/components/note-diff";
+import { AromaPicker, EMPTY_AROMAS, EMPTY_STRUCTURE, StructureSelects } from "@/components/sat-form";
+
+export type JournalNote = TastingNote & { diff: NoteDiff | null };
+
+/** The last taster name used, so the journal and quiz remember who you are. */
+export const TASTER_KEY = "journal.taster";
+
+/**
+ * Your own note on the analysed wine, entered step by step on the WSET Level 2
+ * SAT: structure on the scales, aromas picked from the lexicon by tier, then
+ * nose, palate and finish in your words. Lists earlier notes on the same wine,
+ * each with how it differs from the model's prediction.
+ */
+export function TastingJournal({ result }: { result: AnalysisResult }) {
+  const [taster, setTaster] = useState("");
+  const [tastedAt, setTastedAt] = useState(() => new Date().toISOString().slice(0, 10));
+  const [structure, setStructure] = useState<WsetL2>(EMPTY_STRUCTURE);
+  const [aromas, setAromas] = useState<AromasAndFlavours>(EMPTY_AROMAS);
+  const [nose, setNose] = useState("");
+  const [palate, setPalate] = useState("");
+  const [finish, setFinish] = useState("");
+  const [comments, setComments] = useState("");
+  const [status, setStatus] = useState<"idle" | "saving" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<JournalNote[]>([]);
+  const { wineId } = result;
+
+  useEffect(() => {
+    setTaster(localStorage.getItem(TASTER_KEY) ?? "");
+  }, []);
+
+  useEffect(() => {
+    if (!wineId) return;
+    fetch(`/api/notes?${new URLSearchParams({ wineId })}`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ data?: JournalNote[] }>) : null))
+      .then((payload) => setNotes(payload?.data ?? []))
+      .catch(() => setNotes([]));
+  }, [wineId]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    if (!taster.trim()) {
+      setError("Who tasted it?");
+      return;
+    }
+    setStatus("saving");
+    setError(null);
+    try {
+      const res = await fetch("/api/notes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          result,
+          taster: taster.trim(),
+          tastedAt,
+          tastingNotes: { nose: splitList(nose), palate: splitList(palate), finish: finish.trim(), wsetLevel2: structure },
+          aromasAndFlavours: aromas,
+          comments,
+        }),
+      });
+      const payload = (await res.json()) as { data?: JournalNote; error?: string };
+      if (!res.ok || !payload.data) throw new Error(payload.error || `HTTP ${res.status}`);
+      localStorage.setItem(TASTER_KEY, taster.trim());
+      setNotes((n) => [payload.data as JournalNote, ...n]);
+      setStructure(EMPTY_STRUCTURE);
+      setAromas(EMPTY_AROMAS);
+      setNose("");
+      setPalate("");
+      setFinish("");
+      setComments("");
+      setStatus("idle");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save this note.");
+      setStatus("error");
+    }
+  }
+
+  async function remove(id: string) {
+    const res = await fetch(`/api/notes?${new URLSearchParams({ id })}`, { method: "DELETE" });
+    if (res.ok) setNotes((n) => n.filter((x) => x.id !== id));
+  }
+
+  return (
+    <section className="grid gap-3 p-4 rounded-2xl bg-white shadow text-sm print:hidden">
+      <h2 className="text-xl font-semibold">Tasting Journal</h2>
+      <form onSubmit={save} className="grid gap-3">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="grid gap-1">
+            Taster
+            <input value={taster} onChange={(e) => setTaster(e.target.value)} className="border rounded-lg px-2 py-1" />
+          </label>
+          <label className="grid gap-1">
+            Tasted on
+            <input
+              type="date"
+              value={tastedAt}
+              onChange={(e) => setTastedAt(e.target.value)}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+        </div>
+
+        <fieldset className="grid gap-1">
+          <legend className="font-medium mb-1">1. Structure</legend>
+          <StructureSelects value={structure} onChange={setStructure} />
+        </fieldset>
+
+        <fieldset className="grid gap-2">
+          <legend className="font-medium mb-1">2. Aromas and flavours</legend>
+          <AromaPicker value={aromas} onChange={setAromas} />
+        </fieldset>
+
+        <fieldset className="grid gap-2">
+          <legend className="font-medium mb-1">3. In your words</legend>
+          <label className="grid gap-1">
+            Nose (comma-separated)
+            <input value={nose} onChange={(e) => setNose(e.target.value)} className="border rounded-lg px-2 py-1" />
+          </label>
+          <label className="grid gap-1">
+            Palate (comma-separated)
+            <input value={palate} onChange={(e) => setPalate(e.target.value)} className="border rounded-lg px-2 py-1" />
+          </label>
+          <label className="grid gap-1">
+            Finish
+            <input value={finish} onChange={(e) => setFinish(e.target.value)} className="border rounded-lg px-2 py-1" />
+          </label>
+          <label className="grid gap-1">
+            Comments
+            <textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={2}
+              className="border rounded-lg px-2 py-1"
+            />
+          </label>
+        </fieldset>
+
+        <div className="flex items-center gap-3">
+          <button disabled={status === "saving"} className="px-4 py-2 rounded-xl bg-black text-white disabled:opacity-50">
+            {status === "saving" ? "Saving…" : "Save note"}
+          </button>
+          {error ? <span className="text-red-700">{error}</span> : null}
+        </div>
+      </form>
+
+      {notes.length > 0 ? (
+        <div className="grid gap-3">
+          <h3 className="font-medium">Your notes on this wine</h3>
+          {notes.map((n) => (
+            <NoteCard key={n.id} note={n} onDelete={() => remove(n.id)} />
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+export function NoteCard({ note, onDelete }: { note: JournalNote; onDelete?: () => void }) {
+  return (
+    <div className="grid gap-2 p-3 rounded-xl border">
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>
+          {note.taster} · {note.tastedAt}
+        </span>
+        {onDelete ? (
+          <button type="button" onClick={onDelete} className="underline">
+            Delete
+          </button>
+        ) : null}
+      </div>
+      {note.tastingNotes.finish ? <div className="text-xs">Finish: {note.tastingNotes.finish}</div> : null}
+      {note.comments ? <div className="text-xs italic">{note.comments}</div> : null}
+      {note.diff ? <NoteDiffView diff={note.diff} /> : null}
+    </div>
+  );
+}
+
+function splitList(s: string): string[] {
+  return s
+    .split(",")
+    .map((x) => x.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,125 @@
+// src/components/wine-list-table.tsx
+import React, { useState } from "react";
+import type { WineListLine } from "@/lib/schema";
+import type { WineListEntry } from "@/lib/wine-list";
+
+type Sort = "list" | "value";
+
+/**
+ * One row per wine-list line. `entries[i]` is filled in as line i is priced;
+ * until then the row shows the listed price only.
+ */
+export function WineListTable({
+  currency,
+  lines,
+  entries,
+  selected,
+  onSelect,
+}: {
+  currency: string;
+  lines: WineListLine[];
+  entries: Array<WineListEntry | undefined>;
+  selected: number | null;
+  onSelect: (index: number) => void;
+}) {
+  const [sort, setSort] = useState<Sort>("list");
+
+  const rows = lines.map((line, index) => ({ line, index, entry: entries[index] }));
+  if (sort === "value") {
+    const rank = (r: (typeof rows)[number]) => r.entry?.valueRank ?? Number.POSITIVE_INFINITY;
+    rows.sort((a, b) => rank(a) - rank(b) || a.index - b.index);
+  }
+
+  return (
+    <div className="grid gap-3 p-4 rounded-2xl bg-white shadow">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Wine List</h2>
+        <div className="flex gap-1 text-xs">
+          {(["list", "value"] as const).map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setSort(s)}
+              className={`px-2 py-1 rounded-lg border ${sort === s ? "bg-gray-900 text-white" : ""}`}
+            >
+              {s === "list" ? "List order" : "Best value"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">Wine</th>
+              <th className="py-1 pr-2 text-right">Listed</th>
+              <th className="py-1 pr-2 text-right">Retail est.</th>
+              <th className="py-1 text-right">Markup</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ line, index, entry }) => (
+              <tr
+                key={index}
+                onClick={() => entry?.result && onSelect(index)}
+                className={`border-b last:border-0 align-top ${entry?.result ? "cursor-pointer hover:bg-gray-50" : ""} ${
+                  selected === index ? "bg-gray-100" : ""
+                }`}
+              >
+                <td className="py-1 pr-2 text-gray-500">{entry?.valueRank ?? ""}</td>
+                <td className="py-1 pr-2">
+                  <div className="font-medium">
+                    {[line.producer, line.wine].filter(Boolean).join(" — ")}
+                    {line.vintage != null ? ` ${line.vintage}` : " NV"}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {[line.section, line.serving === "glass" ? `by the glass${line.volumeMl ? ` (${line.volumeMl}ml)` : ""}` : null]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    {entry?.note ? ` · ${entry.note}` : ""}
+                  </div>
+                </td>
+                <td className="py-1 pr-2 text-right whitespace-nowrap">
+                  {line.price != null ? money(line.price, currency) : "—"}
+                  {line.serving === "glass" && entry?.bottlePrice != null ? (
+                    <div className="text-xs text-gray-500">≈ {money(entry.bottlePrice, currency)} / btl</div>
+                  ) : null}
+                </td>
+                <td className="py-1 pr-2 text-right whitespace-nowrap">
+                  {entry === undefined ? (
+                    <span className="text-gray-400">…</span>
+                  ) : entry.retail ? (
+                    money(entry.retail.mid, entry.retail.currency)
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                <td className={`py-1 text-right whitespace-nowrap ${markupColour(entry?.markup)}`}>
+                  {entry?.markup != null ? `×${entry.markup.toFixed(1)}` : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        Markup is the listed price per 750ml bottle divided by the estimated retail price. Tap a priced row for the full
+        analysis.
+      </p>
+    </div>
+  );
+}
+
+function money(amount: number, currency: string) {
+  return `${amount.toFixed(amount % 1 === 0 ? 0 : 2)} ${currency}`;
+}
+
+/** Restaurant lists commonly run 2.5–3.5× retail. */
+function markupColour(markup: number | null | undefined) {
+  if (markup == null) return "";
+  if (markup <= 2.5) return "text-green-700 font-medium";
+  if (markup >= 4) return "text-red-700";
+  return "";
+}
@@ -0,0 +1,280 @@
+// src/lib/aromas.ts
+// Aroma lexicon after the WSET Level 2 wine lexicon: clusters (red fruit, oak,
+// bottle age…) within the primary / secondary / tertiary tiers, each holding
+// canonical descriptors and the spellings the model uses for them.
+import type { AromasAndFlavours } from "@/lib/schema";
+
+export const AROMA_TIERS = ["primary", "secondary", "tertiary"] as const;
+export type AromaTier = (typeof AROMA_TIERS)[number];
+
+export type AromaCluster = {
+  id: string;
+  label: string;
+  tier: AromaTier;
+  /** Canonical name first, then synonyms: "blackcurrant|black currant|cassis". */
+  descriptors: string[];
+};
+
+export const AROMA_CLUSTERS: AromaCluster[] = [
+  // Primary: the grape and fermentation
+  {
+    id: "floral",
+    label: "Floral",
+    tier: "primary",
+    descriptors: ["blossom|acacia|orange blossom|white flower|flowers|floral", "elderflower", "honeysuckle", "rose|rose petal", "violet", "lavender"],
+  },
+  { id: "green-fruit", label: "Green fruit", tier: "primary", descriptors: ["apple|green apple|red apple", "pear", "gooseberry", "grape"] },
+  {
+    id: "citrus",
+    label: "Citrus fruit",
+    tier: "primary",
+    descriptors: ["lemon", "lime", "grapefruit|pink grapefruit", "orange", "citrus peel|lemon peel|lemon zest|orange peel|orange zest|zest"],
+  },
+  { id: "stone-fruit", label: "Stone fruit", tier: "primary", descriptors: ["peach|white peach|yellow peach", "apricot", "nectarine"] },
+  {
+    id: "tropical-fruit",
+    label: "Tropical fruit",
+    tier: "primary",
+    descriptors: ["banana", "lychee|litchi", "mango", "melon", "passion fruit|passionfruit", "pineapple", "guava"],
+  },
+  {
+    id: "red-fruit",
+    label: "Red fruit",
+    tier: "primary",
+    descriptors: ["redcurrant|red currant", "cranberry", "raspberry", "strawberry", "red cherry|cherry|sour cherry", "red plum|plum", "pomegranate"],
+  },
+  {
+    id: "black-fruit",
+    label: "Black fruit",
+    tier: "primary",
+    descriptors: ["blackcurrant|black currant|cassis", "blackberry|bramble", "blueberry", "black cherry", "black plum|damson"],
+  },
+  {
+    id: "dried-fruit",
+    label: "Dried / cooked fruit",
+    tier: "primary",
+    descriptors: ["fig", "prune", "raisin", "sultana", "kirsch", "jam|jammy|stewed fruit|baked fruit|cooked fruit"],
+  },
+  {
+    id: "herbaceous",
+    label: "Herbaceous",
+    tier: "primary",
+    descriptors: ["green bell pepper|bell pepper|green pepper|capsicum", "grass|cut grass|grassy", "tomato leaf", "asparagus", "blackcurrant leaf"],
+  },
+  {
+    id: "herbal",
+    label: "Herbal",
+    tier: "primary",
+    descriptors: ["eucalyptus", "mint", "fennel", "dill", "dried herbs|herbs|herbal|thyme|rosemary|oregano|garrigue"],
+  },
+  {
+    id: "pungent-spice",
+    label: "Pungent spice",
+    tier: "primary",
+    descriptors: ["black pepper|pepper|peppery|white pepper", "liquorice|licorice|anise|aniseed"],
+  },
+  {
+    id: "mineral",
+    label: "Mineral",
+    tier: "primary",
+    descriptors: ["flint|flinty|gunflint", "wet stones|stony|mineral|minerality|chalk|slate", "wet wool"],
+  },
+  // Secondary: winemaking
+  { id: "yeast", label: "Yeast (lees, autolysis)", tier: "secondary", descriptors: ["biscuit", "bread|bread dough|dough", "brioche", "pastry", "yeast|yeasty|lees"] },
+  { id: "malolactic", label: "Malolactic conversion", tier: "secondary", descriptors: ["butter|buttery", "cream|creamy", "cheese"] },
+  {
+    id: "oak",
+    label: "Oak",
+    tier: "secondary",
+    descriptors: [
+      "oak|oaky|new oak",
+      "vanilla",
+      "clove",
+      "nutmeg",
+      "cinnamon",
+      "sweet spice|baking spice",
+      "coconut",
+      "butterscotch",
+      "toast|toasty|toasted oak",
+      "cedar|cedarwood|cigar box",
+      "charred wood|char|charred oak",
+      "smoke|smoky|smoked",
+      "chocolate|dark chocolate|cocoa|mocha",
+      "coffee|espresso",
+      "resin|resinous",
+    ],
+  },
+  // Tertiary: maturation
+  {
+    id: "oxidative",
+    label: "Deliberate oxidation",
+    tier: "tertiary",
+    descriptors: ["almond", "marzipan", "hazelnut", "walnut", "toffee", "caramel", "nutty|nuts"],
+  },
+  {
+    id: "fruit-development",
+    label: "Fruit development",
+    tier: "tertiary",
+    descriptors: ["dried fruit", "dried apricot", "marmalade", "dried apple", "dried banana", "dried cherry", "dried blackberry", "dried cranberry", "cooked blackberry", "cooked plum", "tar"],
+  },
+  {
+    id: "bottle-age",
+    label: "Bottle age",
+    tier: "tertiary",
+    descriptors: [
+      "petrol|kerosene",
+      "ginger",
+      "honey",
+      "hay",
+      "mushroom",
+      "truffle",
+      "leather",
+      "forest floor|undergrowth|sous bois",
+      "earth|earthy|soil",
+      "game|gamey|gamy",
+      "tobacco",
+      "wet leaves",
+      "savoury|savory|meaty",
+      "farmyard",
+    ],
+  },
+];
+
+export type CanonicalAroma = { name: string; cluster: AromaCluster | null };
+
+/** Leading words that don't change which descriptor is meant. Only stripped from the text being looked up. */
+const QUALIFIERS =
+  /^(?:a |an )?(?:hints? of|notes? of|touch of|suggestion of|lots of|plenty of|some|subtle|fresh|ripe|bright|juicy|sweet|vibrant|intense|delicate|crushed|zesty|lifted|light)\s+/;
+
+// Lookup key → [canonical name, cluster]
+const INDEX = new Map<string, [string, AromaCluster]>();
+for (const cluster of AROMA_CLUSTERS) {
+  for (const entry of cluster.descriptors) {
+    const [name, ...synonyms] = entry.split("|");
+    // Keep the lexicon's own qualifiers: "sweet spice" is oak, plain "spice" is not
+    for (const form of [name, ...synonyms]) INDEX.set(key(form, false), [name, cluster]);
+  }
+}
+// Longest first, so "black cherry" wins over "cherry"
+const KEYS = [...INDEX.keys()].sort((a, b) => b.length - a.length);
+
+/**
+ * Map one free-form descriptor onto the lexicon. An exact synonym wins, with or
+ * without leading qualifiers ("ripe black cherries" → black cherry); otherwise
+ * a descriptor that leaves at most one other word ("cassis notes" → blackcurrant).
+ * Anything else, such as palate prose, comes back trimmed, lower-cased and
+ * without a cluster rather than shrunk to a word it happens to contain.
+ */
+export function canonicalAroma(text: string): CanonicalAroma {
+  const unknown = { name: text.trim().toLowerCase(), cluster: null };
+  const k = key(text);
+  const exact = INDEX.get(key(text, false)) ?? INDEX.get(k);
+  if (exact) return { name: exact[0], cluster: exact[1] };
+
+  const words = k.split(" ").length;
+  const padded = ` ${k} `;
+  const inside = KEYS.find((x) => padded.includes(` ${x} `));
+  if (!inside || words - inside.split(" ").length > 1) return unknown;
+  const [name, cluster] = INDEX.get(inside)!;
+  return { name, cluster };
+}
+
+/**
+ * A list item split into its descriptors ("blackberry, vanilla and cedar"), each
+ * canonicalised. An item none of whose parts the lexicon knows is kept whole.
+ */
+function canonicalParts(item: string): CanonicalAroma[] {
+  const parts = item
+    .split(/,|&|\band\b/i)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (parts.length <= 1) return [canonicalAroma(item)];
+  const canonical = parts.map(canonicalAroma);
+  return canonical.some((c) => c.cluster) ? canonical : [canonicalAroma(item)];
+}
+
+export function aromaClusterOf(text: string): AromaCluster | null {
+  return canonicalAroma(text).cluster;
+}
+
+/** Canonical names, compound items split, duplicates dropped, order kept. */
+export function canonicalAromaList(items: string[]): string[] {
+  return [...new Set(items.flatMap((i) => canonicalParts(i).map((c) => c.name)).filter(Boolean))];
+}
+
+/**
+ * Canonicalise all three tiers and move lexicon descriptors into the tier their
+ * cluster belongs to (e.g. "vanilla" listed as primary becomes secondary).
+ * Descriptors the lexicon doesn't know stay where the model put them.
+ */
+export function canonicalizeAromas(af: AromasAndFlavours): AromasAndFlavours {
+  const out: AromasAndFlavours = { primary: [], secondary: [], tertiary: [] };
+  const seen = new Set<string>();
+  for (const tier of AROMA_TIERS) {
+    for (const { name, cluster } of af[tier].flatMap(canonicalParts)) {
+      if (!name || seen.has(name)) continue;
+      seen.add(name);
+      out[cluster?.tier ?? tier].push(name);
+    }
+  }
+  return out;
+}
+
+/** True when the result mentions the descriptor (any spelling) or anything in the named cluster. */
+export function mentionsAroma(descriptors: string[], query: string): boolean {
+  const q = query.trim().toLowerCase();
+  const cluster = AROMA_CLUSTERS.find((c) => c.id === q || c.label.toLowerCase() === q);
+  const wanted = canonicalAroma(q).name;
+  return descriptors.some((d) =>
+    canonicalParts(d).some((c) => (cluster ? c.cluster?.id === cluster.id : c.name === wanted))
+  );
+}
+
+export type AromaCount = { name: string; cluster: string | null; tier: AromaTier | null; count: number };
+
+/** How many of the given descriptor lists mention each canonical descriptor, most common first. */
+export function countAromas(lists: string[][]): AromaCount[] {
+  const counts = new Map<string, AromaCount>();
+  for (const list of lists) {
+    for (const name of canonicalAromaList(list)) {
+      const cluster = canonicalAroma(name).cluster;
+      const entry = counts.get(name) ?? { name, cluster: cluster?.id ?? null, tier: cluster?.tier ?? null, count: 0 };
+      entry.count++;
+      counts.set(name, entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/** Every descriptor in a result: nose, palate and the three aroma tiers. */
+export function resultDescriptors(r: {
+  tastingNotes: { nose: string[]; palate: string[] };
+  aromasAndFlavours: AromasAndFlavours;
+}): string[] {
+  const af = r.aromasAndFlavours;
+  return [...r.tastingNotes.nose, ...r.tastingNotes.palate, ...af.primary, ...af.secondary, ...af.tertiary];
+}
+
+/** Lower-case, accents folded, plurals and (unless `stripQualifiers` is false) leading qualifiers dropped. */
+function key(text: string, stripQualifiers = true): string {
+  let s = text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  for (let prev = ""; stripQualifiers && prev !== s; ) {
+    prev = s;
+    s = s.replace(QUALIFIERS, "");
+  }
+  return s.split(" ").map(singular).join(" ");
+}
+
+function singular(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(ch|sh|x)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
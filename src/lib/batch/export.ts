@@ -0,0 +1,46 @@
+// src/lib/batch/export.ts
+import type { BatchItem, BatchJob } from "./types";
+
+const CSV_COLUMNS: Array<[string, (item: BatchItem) => string | number | null | undefined]> = [
+  ["file", (i) => i.name],
+  ["status", (i) => i.status],
+  ["error", (i) => i.error?.message],
+  ["wine_id", (i) => i.data?.wineId],
+  ["producer", (i) => i.data?.recognizedLabel.producer],
+  ["wine", (i) => i.data?.recognizedLabel.wine],
+  ["vintage", (i) => i.data?.recognizedLabel.vintage],
+  ["appellation", (i) => i.data?.recognizedLabel.appellation],
+  ["region", (i) => i.data?.recognizedLabel.region],
+  ["country", (i) => i.data?.recognizedLabel.country],
+  ["grapes", (i) => i.data?.grapes.map((g) => (g.percent != null ? `${g.variety} ${g.percent}%` : g.variety)).join("; ")],
+  ["abv", (i) => i.data?.abv],
+  ["drink_from", (i) => i.data?.drinkWindow.from],
+  ["drink_to", (i) => i.data?.drinkWindow.to],
+  ["peak_from", (i) => i.data?.drinkWindow.peakFrom],
+  ["peak_to", (i) => i.data?.drinkWindow.peakTo],
+  ["currency", (i) => i.data?.priceEstimate.currency],
+  ["price_low", (i) => i.data?.priceEstimate.low],
+  ["price_high", (i) => i.data?.priceEstimate.high],
+  ["price_median", (i) => i.data?.priceEstimate.median],
+  ["price_points", (i) => i.data?.priceEstimate.points?.filter((p) => !p.excluded).length],
+  ["converted_currency", (i) => i.data?.priceEstimate.converted?.currency],
+  ["converted_low", (i) => i.data?.priceEstimate.converted?.low],
+  ["converted_high", (i) => i.data?.priceEstimate.converted?.high],
+  ["fx_rate_date", (i) => i.data?.priceEstimate.converted?.rateDate],
+  ["price_confidence", (i) => i.data?.priceEstimate.confidence],
+  ["sources", (i) => i.data?.sources.map((s) => s.url).join(" ")],
+];
+
+/** One row per uploaded image (RFC 4180 quoting, CRLF line ends). */
+export function batchToCsv(job: BatchJob): string {
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...job.items.map((item) => CSV_COLUMNS.map(([, get]) => get(item))),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const s = value == null ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,38 @@
+// src/lib/batch/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonBatchStore } from "./json-store";
+import { isActive } from "./runner";
+import type { BatchJob, BatchStore } from "./types";
+
+export * from "./types";
+export { createJsonBatchStore } from "./json-store";
+export { batchToCsv } from "./export";
+export { startBatch } from "./runner";
+export { collectUploads } from "./uploads";
+
+let store: BatchStore | null = null;
+
+/** Batch jobs live one file each in BATCH_DIR (default <DATA_DIR>/batches). */
+export function getBatchStore(): BatchStore {
+  store ??= createJsonBatchStore(process.env.BATCH_DIR || dataPath("batches"));
+  return store;
+}
+
+/** Parallel analyses per job (BATCH_CONCURRENCY, default 2). */
+export function batchConcurrency(env: NodeJS.ProcessEnv = process.env): number {
+  const n = Number(env.BATCH_CONCURRENCY);
+  return Number.isInteger(n) && n > 0 ? n : 2;
+}
+
+/** Images per job (BATCH_MAX_ITEMS, default 100). */
+export function batchMaxItems(env: NodeJS.ProcessEnv = process.env): number {
+  const n = Number(env.BATCH_MAX_ITEMS);
+  return Number.isInteger(n) && n > 0 ? n : 100;
+}
+
+/** Load a job, reporting ones orphaned by a server restart as interrupted. */
+export async function getBatchJob(id: string): Promise<BatchJob | null> {
+  const job = await getBatchStore().get(id);
+  if (job && job.status === "running" && !isActive(id)) return { ...job, status: "interrupted" };
+  return job;
+}
@@ -0,0 +1,52 @@
+// src/lib/batch/json-store.ts
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { jsonFile, type JsonFile } from "@/lib/store/json-file";
+import type { BatchJob, BatchStore } from "./types";
+
+type JobFile = { job: BatchJob | null };
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/** One file per job under `dir`, so a busy job doesn't rewrite everyone else's results. */
+export function createJsonBatchStore(dir: string): BatchStore {
+  const fileOf = (id: string): JsonFile<JobFile> => jsonFile(path.join(dir, `${id}.json`), () => ({ job: null }));
+
+  return {
+    async create(names) {
+      const now = new Date().toISOString();
+      const job: BatchJob = {
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        status: "running",
+        total: names.length,
+        completed: 0,
+        failed: 0,
+        items: names.map((name, index) => ({ index, name, status: "pending" })),
+      };
+      await fileOf(job.id).update((data) => {
+        data.job = job;
+      });
+      return job;
+    },
+
+    async get(id) {
+      // ids end up in a file path
+      if (!ID_PATTERN.test(id)) return null;
+      return (await fileOf(id).read()).job;
+    },
+
+    async updateItem(id, index, patch) {
+      await fileOf(id).update(({ job }) => {
+        const item = job?.items[index];
+        if (!job || !item) return;
+        Object.assign(item, patch, { index });
+        job.completed = job.items.filter((i) => i.status === "done" || i.status === "error").length;
+        job.failed = job.items.filter((i) => i.status === "error").length;
+        if (job.completed === job.total) job.status = "done";
+        job.updatedAt = new Date().toISOString();
+      });
+    },
+  };
+}
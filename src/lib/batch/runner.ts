@@ -0,0 +1,76 @@
+// src/lib/batch/runner.ts
+import { forEachLimit } from "@/lib/concurrency";
+import { ERROR_STATUS, toApiError } from "@/lib/errors";
+import { analyzeLabel, type PriceContext } from "@/lib/pipeline";
+import type { BatchItemError, BatchJob, BatchStore, BatchUpload } from "./types";
+
+// Jobs this process is working on; anything else still marked "running" was cut off by a restart.
+// Kept on globalThis because each route is bundled separately and would otherwise get its own copy.
+const globalForBatch = globalThis as typeof globalThis & { batchJobsActive?: Set<string> };
+const active = (globalForBatch.batchJobsActive ??= new Set<string>());
+
+/** Record the job and start working through it in the background. Resolves once the job exists. */
+export async function startBatch(
+  store: BatchStore,
+  uploads: BatchUpload[],
+  opts: { concurrency: number; refresh?: boolean } & PriceContext
+): Promise<BatchJob> {
+  const job = await store.create(uploads.map((u) => u.name));
+  active.add(job.id);
+  void runBatch(store, job.id, uploads, opts)
+    .catch((err: unknown) => failRemaining(store, job.id, err))
+    .finally(() => active.delete(job.id));
+  return job;
+}
+
+export function isActive(id: string): boolean {
+  return active.has(id);
+}
+
+async function runBatch(
+  store: BatchStore,
+  id: string,
+  uploads: BatchUpload[],
+  opts: { concurrency: number; refresh?: boolean } & PriceContext
+) {
+  await forEachLimit(uploads, opts.concurrency, async (upload, index) => {
+    if ("error" in upload) {
+      await store.updateItem(id, index, { status: "error", error: { message: upload.error, code: upload.code, status: ERROR_STATUS[upload.code] } });
+      return;
+    }
+    await store.updateItem(id, index, { status: "running" });
+    try {
+      const { data, diagnostics, cache } = await analyzeLabel([upload.image], {
+        refresh: opts.refresh,
+        market: opts.market,
+        currency: opts.currency,
+      });
+      await store.updateItem(id, index, { status: "done", data, diagnostics, cache });
+    } catch (err) {
+      // One bad bottle must not sink the rest of the shelf
+      await store.updateItem(id, index, { status: "error", error: itemError(err) });
+    }
+  });
+}
+
+/**
+ * The run itself broke (usually the store failing to write), so close out the
+ * items it never finished rather than leaving them pending forever. Best effort:
+ * if the store is still failing the job is reported as interrupted instead.
+ */
+async function failRemaining(store: BatchStore, id: string, err: unknown) {
+  try {
+    const job = await store.get(id);
+    const error = itemError(err);
+    for (const item of job?.items ?? []) {
+      if (item.status === "pending" || item.status === "running") await store.updateItem(id, item.index, { status: "error", error });
+    }
+  } catch {
+    // Nothing left to record it in
+  }
+}
+
+function itemError(err: unknown): BatchItemError {
+  const e = toApiError(err);
+  return { message: e.message, code: e.code, status: e.status, stage: e.details.stage, issues: e.details.issues };
+}
@@ -0,0 +1,51 @@
+// src/lib/batch/types.ts
+import type { CacheReport } from "@/lib/cache";
+import type { ErrorCode } from "@/lib/errors";
+import type { LabelImage } from "@/lib/pipeline";
+import type { AnalysisResult, FieldIssue } from "@/lib/schema";
+import type { SearchDiagnostic } from "@/lib/search";
+
+export type BatchItemStatus = "pending" | "running" | "done" | "error";
+
+/** "interrupted" is reported for jobs that were still running when the server stopped. */
+export type BatchJobStatus = "running" | "done" | "interrupted";
+
+export type BatchItemError = {
+  message: string;
+  code: ErrorCode;
+  status: number;
+  stage?: string;
+  issues?: FieldIssue[];
+};
+
+export type BatchItem = {
+  index: number;
+  /** Original file name (or path inside the zip). */
+  name: string;
+  status: BatchItemStatus;
+  data?: AnalysisResult;
+  diagnostics?: SearchDiagnostic[];
+  cache?: CacheReport;
+  error?: BatchItemError;
+};
+
+export type BatchJob = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: BatchJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  items: BatchItem[];
+};
+
+/** One bottle to analyse. Items that were rejected on upload carry an error instead of an image. */
+export type BatchUpload = { name: string; image: LabelImage } | { name: string; code: ErrorCode; error: string };
+
+export interface BatchStore {
+  create(names: string[]): Promise<BatchJob>;
+  get(id: string): Promise<BatchJob | null>;
+  /** Apply a change to one item and recount the job totals. */
+  updateItem(id: string, index: number, patch: Partial<BatchItem>): Promise<void>;
+}
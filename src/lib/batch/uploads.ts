@@ -0,0 +1,59 @@
+// src/lib/batch/uploads.ts
+// Turns the multipart upload (loose images and/or zip archives) into one entry per bottle.
+import { Buffer } from "node:buffer";
+import path from "node:path";
+import { downscaleImage, formatBytes, sniffImage } from "@/lib/guard/image";
+import { isZip, readZip } from "@/lib/zip";
+import type { BatchUpload } from "./types";
+
+const MIME_BY_EXT: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+};
+
+/** Limits each image is held to; see GuardConfig. */
+export type UploadLimits = { maxImageBytes: number; maxImageEdge: number };
+
+/**
+ * Expand zips and tag each image as a front label. Non-images inside a zip are
+ * skipped silently; images that are too large or whose bytes aren't an image
+ * become error entries. Large photos are downscaled.
+ */
+export async function collectUploads(files: File[], limits: UploadLimits): Promise<BatchUpload[]> {
+  const uploads: BatchUpload[] = [];
+  for (const file of files) {
+    const buf = Buffer.from(await file.arrayBuffer());
+    if (isZip(buf)) {
+      for (const entry of readZip(buf)) {
+        const base = path.posix.basename(entry.name);
+        // macOS archives carry __MACOSX/._foo.jpg resource forks
+        if (base.startsWith(".") || entry.name.startsWith("__MACOSX/")) continue;
+        const mimeType = MIME_BY_EXT[path.posix.extname(base).toLowerCase()];
+        if (mimeType) uploads.push(await imageUpload(entry.name, entry.data, limits));
+      }
+    } else if (file.type.startsWith("image/") || MIME_BY_EXT[path.extname(file.name).toLowerCase()]) {
+      uploads.push(await imageUpload(file.name, buf, limits));
+    } else {
+      uploads.push({ name: file.name, code: "UNSUPPORTED_MEDIA", error: `Not an image or zip (${file.type || "unknown type"})` });
+    }
+  }
+  return uploads;
+}
+
+/** The type comes from the bytes; the name or declared type only picked the file out. */
+async function imageUpload(name: string, data: Buffer, limits: UploadLimits): Promise<BatchUpload> {
+  if (data.length > limits.maxImageBytes) {
+    return { name, code: "PAYLOAD_TOO_LARGE", error: `Larger than ${formatBytes(limits.maxImageBytes)}` };
+  }
+  const mimeType = sniffImage(data);
+  if (!mimeType) return { name, code: "UNSUPPORTED_MEDIA", error: "Not a JPEG, PNG, WebP or GIF image" };
+  try {
+    const image = await downscaleImage({ mimeType, data }, limits.maxImageEdge);
+    return { name, image: { role: "front", mimeType: image.mimeType, base64: image.data.toString("base64") } };
+  } catch (err) {
+    return { name, code: "UNSUPPORTED_MEDIA", error: err instanceof Error ? err.message : "Unreadable image" };
+  }
+}
@@ -0,0 +1,33 @@
+// src/lib/cache/file-cache.ts
+import { jsonFile } from "@/lib/store/json-file";
+import type { CacheEntry, ResultCache } from "./types";
+
+type CacheFile = Record<string, Record<string, CacheEntry<unknown>>>;
+
+/** Whole cache in one JSON document; expired entries are dropped on every write. */
+export function createFileCache(file: string): ResultCache {
+  const store = jsonFile<CacheFile>(file, () => ({}));
+
+  return {
+    async get<T>(namespace: string, key: string) {
+      const entry = (await store.read())[namespace]?.[key];
+      if (!entry || Date.parse(entry.expiresAt) <= Date.now()) return null;
+      return entry as CacheEntry<T>;
+    },
+
+    async set<T>(namespace: string, key: string, value: T, ttlMs: number) {
+      await store.update((data) => {
+        const now = Date.now();
+        for (const ns of Object.values(data)) {
+          for (const [k, e] of Object.entries(ns)) if (Date.parse(e.expiresAt) <= now) delete ns[k];
+        }
+        data[namespace] ??= {};
+        data[namespace][key] = {
+          value,
+          storedAt: new Date(now).toISOString(),
+          expiresAt: new Date(now + ttlMs).toISOString(),
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// src/lib/cache/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createFileCache } from "./file-cache";
+import type { ResultCache } from "./types";
+
+export * from "./types";
+export { createFileCache } from "./file-cache";
+export { imageKey, wineKey } from "./keys";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * TTLs in hours from env. Label reads (tasting notes, grapes…) barely change, so
+ * they are kept much longer than grounded results, whose prices go stale.
+ *
+ *   CACHE_LABEL_TTL_HOURS     image hash → stage-1 result   (default 720 = 30 days)
+ *   CACHE_GROUNDED_TTL_HOURS  wine key → grounded result    (default 24)
+ */
+export function cacheTtls(env: NodeJS.ProcessEnv = process.env) {
+  const hours = (v: string | undefined, fallback: number) => {
+    const n = Number(v);
+    return v && Number.isFinite(n) && n >= 0 ? n * 60 * 60 * 1000 : fallback;
+  };
+  return {
+    label: hours(env.CACHE_LABEL_TTL_HOURS, 30 * DAY_MS),
+    grounded: hours(env.CACHE_GROUNDED_TTL_HOURS, DAY_MS),
+  };
+}
+
+let cache: ResultCache | null | undefined;
+
+/** The app-wide cache in CACHE_FILE (default <DATA_DIR>/cache.json), or null when CACHE=off. */
+export function getResultCache(): ResultCache | null {
+  if (cache === undefined) {
+    cache = process.env.CACHE === "off" ? null : createFileCache(process.env.CACHE_FILE || dataPath("cache.json"));
+  }
+  return cache;
+}
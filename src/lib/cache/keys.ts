@@ -0,0 +1,34 @@
+// src/lib/cache/keys.ts
+import { createHash } from "node:crypto";
+import type { LlmImage } from "@/lib/llm";
+import type { RecognizedLabel } from "@/lib/schema";
+
+/** Content hash of the uploaded image(s); identical bytes share a stage-1 result. */
+export function imageKey(images: LlmImage[]): string {
+  const h = createHash("sha256");
+  for (const img of images) {
+    h.update(img.caption ?? "").update("\0").update(img.mimeType).update("\0").update(img.base64).update("\0");
+  }
+  return h.digest("hex");
+}
+
+/**
+ * producer|wine|vintage, lower-cased with accents and punctuation stripped, so
+ * "Château Musar" and "chateau musar" share a grounded result. Null when the
+ * label names neither producer nor wine.
+ */
+export function wineKey(label: RecognizedLabel): string | null {
+  const producer = normalize(label.producer);
+  const wine = normalize(label.wine);
+  if (!producer && !wine) return null;
+  return `${producer}|${wine}|${label.vintage ?? "nv"}`;
+}
+
+function normalize(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
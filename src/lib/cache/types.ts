@@ -0,0 +1,14 @@
+// src/lib/cache/types.ts
+
+export type CacheEntry<T> = { value: T; storedAt: string; expiresAt: string };
+
+export interface ResultCache {
+  /** Resolves to null when the key is missing or expired. */
+  get<T>(namespace: string, key: string): Promise<CacheEntry<T> | null>;
+  set<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+/** How a cached stage was served: `bypass` means `?refresh=1` skipped the read. */
+export type CacheStatus = "hit" | "miss" | "bypass" | "skipped";
+
+export type CacheReport = { label: CacheStatus; grounded: CacheStatus };
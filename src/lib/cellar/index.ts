@@ -0,0 +1,16 @@
+// src/lib/cellar/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonCellarRepository } from "./json-store";
+import type { CellarRepository } from "./types";
+
+export * from "./types";
+export { createJsonCellarRepository } from "./json-store";
+export { parseCellarInput, parseCellarPatch } from "./validate";
+
+let repo: CellarRepository | null = null;
+
+/** The app-wide cellar, stored in CELLAR_FILE (default <DATA_DIR>/cellar.json). */
+export function getCellarRepository(): CellarRepository {
+  repo ??= createJsonCellarRepository(process.env.CELLAR_FILE || dataPath("cellar.json"));
+  return repo;
+}
@@ -0,0 +1,61 @@
+// src/lib/cellar/json-store.ts
+import { randomUUID } from "node:crypto";
+import { mentionsAroma, resultDescriptors } from "@/lib/aromas";
+import { jsonFile } from "@/lib/store/json-file";
+import type { CellarBottle, CellarFilter, CellarRepository } from "./types";
+
+type CellarFile = { bottles: CellarBottle[] };
+
+export function createJsonCellarRepository(file: string): CellarRepository {
+  const store = jsonFile<CellarFile>(file, () => ({ bottles: [] }));
+
+  return {
+    async list(filter = {}) {
+      const { bottles } = await store.read();
+      return bottles.filter((b) => matches(b, filter));
+    },
+
+    async get(id) {
+      const { bottles } = await store.read();
+      return bottles.find((b) => b.id === id) ?? null;
+    },
+
+    create(input) {
+      return store.update((data) => {
+        const now = new Date().toISOString();
+        const bottle: CellarBottle = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+        data.bottles.push(bottle);
+        return bottle;
+      });
+    },
+
+    update(id, patch) {
+      return store.update((data) => {
+        const i = data.bottles.findIndex((b) => b.id === id);
+        if (i < 0) return null;
+        data.bottles[i] = { ...data.bottles[i], ...patch, id, updatedAt: new Date().toISOString() };
+        return data.bottles[i];
+      });
+    },
+
+    remove(id) {
+      return store.update((data) => {
+        const before = data.bottles.length;
+        data.bottles = data.bottles.filter((b) => b.id !== id);
+        return data.bottles.length < before;
+      });
+    },
+  };
+}
+
+function matches(b: CellarBottle, f: CellarFilter): boolean {
+  const rl = b.result.recognizedLabel;
+  const has = (value: string, q?: string) => !q || value.toLowerCase().includes(q.toLowerCase());
+  return (
+    has(rl.country, f.country) &&
+    has(rl.region, f.region) &&
+    (!f.grape || b.result.grapes.some((g) => has(g.variety, f.grape))) &&
+    (!f.aroma || mentionsAroma(resultDescriptors(b.result), f.aroma)) &&
+    (f.vintage == null || rl.vintage === f.vintage)
+  );
+}
@@ -0,0 +1,42 @@
+// src/lib/cellar/types.ts
+import type { AnalysisResult } from "@/lib/schema";
+
+export type CellarBottle = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The analysis the bottle was saved from. */
+  result: AnalysisResult;
+  quantity: number;
+  purchasePrice: number | null;
+  purchaseCurrency: string;
+  /** ISO date (YYYY-MM-DD) */
+  purchaseDate: string | null;
+  location: string;
+};
+
+export type CellarInput = Omit<CellarBottle, "id" | "createdAt" | "updatedAt">;
+
+export type CellarPatch = Partial<CellarInput>;
+
+/**
+ * All filters are optional; text filters are case-insensitive substring matches,
+ * except `aroma`, which matches a lexicon descriptor in any spelling or a whole
+ * cluster by id or label ("black-fruit", "Oak").
+ */
+export type CellarFilter = Partial<{
+  country: string;
+  region: string;
+  grape: string;
+  aroma: string;
+  vintage: number;
+}>;
+
+export interface CellarRepository {
+  list(filter?: CellarFilter): Promise<CellarBottle[]>;
+  get(id: string): Promise<CellarBottle | null>;
+  create(input: CellarInput): Promise<CellarBottle>;
+  /** Resolves to null when no bottle has that id. */
+  update(id: string, patch: CellarPatch): Promise<CellarBottle | null>;
+  remove(id: string): Promise<boolean>;
+}
@@ -0,0 +1,76 @@
+// src/lib/cellar/validate.ts
+import { parseAnalysis, type FieldIssue, type ParseResult } from "@/lib/schema";
+import type { CellarInput, CellarPatch } from "./types";
+
+/** Validate a POST body. `result` is required; the purchase fields default to empty. */
+export function parseCellarInput(body: unknown): ParseResult<CellarInput> {
+  const parsed = parseCellarPatch(body);
+  if (!parsed.ok) return parsed;
+  const { result, ...rest } = parsed.value;
+  if (!result) return { ok: false, issues: [{ path: "result", message: "result is required" }] };
+  return {
+    ok: true,
+    value: {
+      quantity: 1,
+      purchasePrice: null,
+      purchaseCurrency: result.priceEstimate.currency,
+      purchaseDate: null,
+      location: "",
+      ...rest,
+      result,
+    },
+  };
+}
+
+/** Validate a PATCH body: only the fields present are checked and returned. */
+export function parseCellarPatch(body: unknown): ParseResult<CellarPatch> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+  const b = body as Record<string, unknown>;
+  const issues: FieldIssue[] = [];
+  const out: CellarPatch = {};
+
+  if (b.result !== undefined) {
+    const r = parseAnalysis(b.result);
+    if (r.ok) out.result = r.value;
+    else issues.push(...r.issues.map((i) => ({ ...i, path: i.path ? `result.${i.path}` : "result" })));
+  }
+  if (b.quantity !== undefined) {
+    if (typeof b.quantity === "number" && Number.isInteger(b.quantity) && b.quantity >= 0) out.quantity = b.quantity;
+    else issues.push({ path: "quantity", message: "expected a non-negative integer" });
+  }
+  if (b.purchasePrice !== undefined) {
+    if (b.purchasePrice === null || (typeof b.purchasePrice === "number" && b.purchasePrice >= 0)) {
+      out.purchasePrice = b.purchasePrice;
+    } else {
+      issues.push({ path: "purchasePrice", message: "expected a non-negative number or null" });
+    }
+  }
+  if (b.purchaseCurrency !== undefined) {
+    if (typeof b.purchaseCurrency === "string" && /^[A-Za-z]{3}$/.test(b.purchaseCurrency)) {
+      out.purchaseCurrency = b.purchaseCurrency.toUpperCase();
+    } else {
+      issues.push({ path: "purchaseCurrency", message: "expected an ISO 4217 code" });
+    }
+  }
+  if (b.purchaseDate !== undefined) {
+    if (b.purchaseDate === null || b.purchaseDate === "") {
+      out.purchaseDate = null;
+    } else if (typeof b.purchaseDate === "string" && isIsoDate(b.purchaseDate)) {
+      out.purchaseDate = b.purchaseDate;
+    } else {
+      issues.push({ path: "purchaseDate", message: "expected a YYYY-MM-DD date or null" });
+    }
+  }
+  if (b.location !== undefined) {
+    if (typeof b.location === "string") out.location = b.location.trim();
+    else issues.push({ path: "location", message: "expected a string" });
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: out };
+}
+
+function isIsoDate(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(Date.parse(s));
+}
@@ -0,0 +1,13 @@
+// src/lib/concurrency.ts
+
+/** Run `fn` over `items` with at most `limit` calls in flight. */
+export async function forEachLimit<T>(items: T[], limit: number, fn: (item: T, index: number) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
@@ -0,0 +1,26 @@
+// src/lib/corrections/diff.ts
+import type { AliasEntry } from "@/lib/identity/types";
+import { normalizeName } from "@/lib/identity/normalize";
+import { LABEL_FIELDS, type LabelField, type RecognizedLabel } from "@/lib/schema";
+
+const ALIAS_FIELD = { producer: "producers", wine: "wines", appellation: "appellations" } as const;
+
+/** The label facts that differ, ignoring surrounding whitespace. */
+export function changedFields(before: RecognizedLabel, after: RecognizedLabel): LabelField[] {
+  const norm = (v: string | number | null) => (typeof v === "string" ? v.trim() : v);
+  return LABEL_FIELDS.filter((f) => norm(before[f]) !== norm(after[f]));
+}
+
+/**
+ * Aliases that would have turned the misread names into the corrected ones. Only
+ * names the normalizer can't already reconcile are suggested, and never a blank one.
+ */
+export function aliasesFrom(before: RecognizedLabel, after: RecognizedLabel): AliasEntry[] {
+  const out: AliasEntry[] = [];
+  for (const f of ["producer", "wine", "appellation"] as const) {
+    const from = before[f].trim();
+    const to = after[f].trim();
+    if (from && to && normalizeName(from) !== normalizeName(to)) out.push({ field: ALIAS_FIELD[f], from, to });
+  }
+  return out;
+}
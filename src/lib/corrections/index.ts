@@ -0,0 +1,16 @@
+// src/lib/corrections/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonCorrectionLog } from "./json-store";
+import type { CorrectionLog } from "./types";
+
+export * from "./types";
+export { createJsonCorrectionLog } from "./json-store";
+export { aliasesFrom, changedFields } from "./diff";
+
+let log: CorrectionLog | null = null;
+
+/** Every label correction made through re-grounding, in CORRECTIONS_FILE (default <DATA_DIR>/corrections.json). */
+export function getCorrectionLog(): CorrectionLog {
+  log ??= createJsonCorrectionLog(process.env.CORRECTIONS_FILE || dataPath("corrections.json"));
+  return log;
+}
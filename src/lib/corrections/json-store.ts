@@ -0,0 +1,24 @@
+// src/lib/corrections/json-store.ts
+import { randomUUID } from "node:crypto";
+import { jsonFile } from "@/lib/store/json-file";
+import type { CorrectionLog, LabelCorrection } from "./types";
+
+type CorrectionsFile = { corrections: LabelCorrection[] };
+
+export function createJsonCorrectionLog(file: string): CorrectionLog {
+  const store = jsonFile<CorrectionsFile>(file, () => ({ corrections: [] }));
+
+  return {
+    async list() {
+      return (await store.read()).corrections;
+    },
+
+    record(input) {
+      return store.update((data) => {
+        const correction: LabelCorrection = { id: randomUUID(), correctedAt: new Date().toISOString(), ...input };
+        data.corrections.push(correction);
+        return correction;
+      });
+    },
+  };
+}
@@ -0,0 +1,27 @@
+// src/lib/corrections/types.ts
+import type { AliasEntry } from "@/lib/identity/types";
+import type { LabelField, RecognizedLabel } from "@/lib/schema";
+
+/** A user's fix to a misread label, kept so it can feed the alias table and test fixtures. */
+export type LabelCorrection = {
+  id: string;
+  /** ISO timestamp */
+  correctedAt: string;
+  /** What the misread label resolved to, and what the corrected one resolved to. */
+  wineIdBefore: string | null;
+  wineIdAfter: string | null;
+  before: RecognizedLabel;
+  after: RecognizedLabel;
+  /** The label facts the user changed. */
+  fields: LabelField[];
+  /** Spellings added to the alias table because of this correction. */
+  aliases: AliasEntry[];
+};
+
+export type CorrectionInput = Omit<LabelCorrection, "id" | "correctedAt">;
+
+export interface CorrectionLog {
+  /** Oldest first. */
+  list(): Promise<LabelCorrection[]>;
+  record(input: CorrectionInput): Promise<LabelCorrection>;
+}
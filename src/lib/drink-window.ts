@@ -0,0 +1,153 @@
+// src/lib/drink-window.ts
+// Turns the model's free-form drink window strings ("now", "2026–2030", "2035+",
+// "within 5 years") into year ranges, and ranks bottles by how soon to open them.
+import type { CalendarEvent } from "@/lib/ics";
+import type { AnalysisResult, DrinkWindow } from "@/lib/schema";
+
+export type DrinkWindowYears = {
+  from: number | null;
+  to: number | null;
+  peakFrom: number | null;
+  peakTo: number | null;
+};
+
+/** Ordered from most to least urgent. */
+export const DRINK_STATUSES = [
+  "past-window",
+  "past-peak",
+  "closing",
+  "in-peak",
+  "ready",
+  "too-young",
+  "unknown",
+] as const;
+
+export type DrinkStatus = (typeof DRINK_STATUSES)[number];
+
+export const DRINK_STATUS_LABEL: Record<DrinkStatus, string> = {
+  "past-window": "Past its window",
+  "past-peak": "Past peak",
+  closing: "Window closing",
+  "in-peak": "In peak",
+  ready: "Ready",
+  "too-young": "Too young",
+  unknown: "Unknown",
+};
+
+export type DrinkAssessment = {
+  status: DrinkStatus;
+  window: DrinkWindowYears;
+  /** Years until the window closes (negative once past it), when known. */
+  yearsLeft: number | null;
+  reason: string;
+};
+
+/** A window closing within this many years counts as "closing". */
+const CLOSING_YEARS = 2;
+
+/**
+ * Parse one drink-window field. `edge` picks which year to keep when the text
+ * holds a range: the start for from/peakFrom, the end for to/peakTo.
+ */
+export function parseWindowYear(text: string, edge: "start" | "end", year: number): number | null {
+  const s = text.trim().toLowerCase();
+  if (!s) return null;
+
+  const years = [...s.matchAll(/\b(19\d\d|20\d\d)\b/g)].map((m) => Number(m[1]));
+  if (years.length > 0) return edge === "start" ? Math.min(...years) : Math.max(...years);
+
+  // "drink within 5 years", "over the next 3 years": from now until then
+  const within = s.match(/\b(?:within|next|up to)\s+(\d+)\s*(?:years?|yrs?)\b/);
+  if (within) return edge === "start" ? year : year + Number(within[1]);
+
+  // "3-5 years", "+10 yrs", "10+ years" (relative to now)
+  const rel = s.match(/(\d+)\s*\+?\s*(?:(?:-|–|to)\s*(\d+)\s*\+?\s*)?(?:years?|yrs?)\b/);
+  if (rel) {
+    const a = Number(rel[1]);
+    const b = rel[2] ? Number(rel[2]) : a;
+    return year + (edge === "start" ? Math.min(a, b) : Math.max(a, b));
+  }
+
+  if (/\b(now|ready|immediately|today)\b/.test(s)) return year;
+  return null;
+}
+
+export function parseDrinkWindow(dw: DrinkWindow, year = new Date().getFullYear()): DrinkWindowYears {
+  let from = parseWindowYear(dw.from, "start", year);
+  let to = parseWindowYear(dw.to, "end", year);
+  let peakFrom = parseWindowYear(dw.peakFrom, "start", year);
+  let peakTo = parseWindowYear(dw.peakTo, "end", year);
+
+  if (from == null && dw.drinkNow) from = year;
+  if (from != null && to != null && from > to) [from, to] = [to, from];
+  if (peakFrom != null && peakTo != null && peakFrom > peakTo) [peakFrom, peakTo] = [peakTo, peakFrom];
+  return { from, to, peakFrom, peakTo };
+}
+
+export function assessDrinkWindow(dw: DrinkWindow, year = new Date().getFullYear()): DrinkAssessment {
+  const window = parseDrinkWindow(dw, year);
+  const { from, to, peakFrom, peakTo } = window;
+  const yearsLeft = to != null ? to - year : null;
+  const result = (status: DrinkStatus, reason: string): DrinkAssessment => ({ status, window, yearsLeft, reason });
+
+  const open = from == null || year >= from;
+  if (to != null && year > to) return result("past-window", `Window closed in ${to}`);
+  if (peakTo != null && year > peakTo) return result("past-peak", `Peak ended in ${peakTo}`);
+  if (to != null && to - year <= CLOSING_YEARS && open) {
+    return result("closing", to === year ? "Last year of the window" : `Window closes in ${to}`);
+  }
+  if (peakFrom != null && year >= peakFrom && (peakTo == null || year <= peakTo) && open) {
+    return result("in-peak", peakTo != null ? `At peak until ${peakTo}` : `At peak since ${peakFrom}`);
+  }
+  if (from != null && year < from) return result("too-young", `Not ready until ${from}`);
+  if (from != null || to != null) return result("ready", to != null ? `Drinkable until ${to}` : `Drinkable since ${from}`);
+  return result("unknown", "No usable drink window");
+}
+
+export type Ranked<T> = { item: T; assessment: DrinkAssessment };
+
+/** Most urgent first; ties go to the window that closes soonest. Stable otherwise. */
+export function rankByUrgency<T>(
+  items: T[],
+  resultOf: (item: T) => AnalysisResult,
+  year = new Date().getFullYear()
+): Ranked<T>[] {
+  return items
+    .map((item, i) => ({ item, i, assessment: assessDrinkWindow(resultOf(item).drinkWindow, year) }))
+    .sort((a, b) => {
+      const byStatus = DRINK_STATUSES.indexOf(a.assessment.status) - DRINK_STATUSES.indexOf(b.assessment.status);
+      if (byStatus !== 0) return byStatus;
+      const left = (r: DrinkAssessment) => r.yearsLeft ?? Number.POSITIVE_INFINITY;
+      return left(a.assessment) - left(b.assessment) || a.i - b.i;
+    })
+    .map(({ item, assessment }) => ({ item, assessment }));
+}
+
+export function wineTitle(result: Pick<AnalysisResult, "recognizedLabel">): string {
+  const rl = result.recognizedLabel;
+  const name = [rl.producer, rl.wine].filter(Boolean).join(" — ") || "Unknown wine";
+  return rl.vintage != null ? `${name} ${rl.vintage}` : name;
+}
+
+/** Calendar reminders for one bottle: when its peak starts and the year its window closes. */
+export function drinkWindowEvents(key: string, result: AnalysisResult, year = new Date().getFullYear()): CalendarEvent[] {
+  const { peakFrom, to } = parseDrinkWindow(result.drinkWindow, year);
+  const title = wineTitle(result);
+  const events: CalendarEvent[] = [];
+  if (peakFrom != null) {
+    events.push({
+      uid: `${key}-peak@wine-vision`,
+      date: `${peakFrom}-01-01`,
+      summary: `Entering peak: ${title}`,
+      description: result.drinkWindow.decant ? `Decant: ${result.drinkWindow.decant}` : undefined,
+    });
+  }
+  if (to != null) {
+    events.push({
+      uid: `${key}-end@wine-vision`,
+      date: `${to}-01-01`,
+      summary: `Drink window closes this year: ${title}`,
+    });
+  }
+  return events;
+}
@@ -0,0 +1,108 @@
+// src/lib/errors.ts
+// Stable error codes the API returns alongside `error`, so clients can tell
+// failures apart without reading the message. Client-safe.
+import type { FieldIssue } from "@/lib/schema";
+
+export const ERROR_CODES = [
+  // The request
+  "BAD_REQUEST",
+  "NO_IMAGE",
+  "TOO_MANY_IMAGES",
+  "UNSUPPORTED_MEDIA",
+  "PAYLOAD_TOO_LARGE",
+  "INVALID_API_KEY",
+  "NOT_FOUND",
+  "RATE_LIMITED",
+  "BUDGET_EXCEEDED",
+  // The providers behind the API
+  "UPSTREAM_RATE_LIMIT",
+  "UPSTREAM_QUOTA",
+  "UPSTREAM_AUTH",
+  "UPSTREAM_UNAVAILABLE",
+  "UPSTREAM_REJECTED",
+  "TIMEOUT",
+  "MODEL_BAD_JSON",
+  "MODEL_INVALID",
+  "SEARCH_FAILED",
+  // This server
+  "CONFIG",
+  "INTERNAL",
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * The HTTP status each code is sent with. Provider failures are 502 (bad
+ * gateway) or 504 (timed out); provider limits are 503, as trying again later
+ * helps but the caller did nothing wrong.
+ */
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  BAD_REQUEST: 400,
+  NO_IMAGE: 400,
+  TOO_MANY_IMAGES: 400,
+  UNSUPPORTED_MEDIA: 415,
+  PAYLOAD_TOO_LARGE: 413,
+  INVALID_API_KEY: 401,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  BUDGET_EXCEEDED: 429,
+  UPSTREAM_RATE_LIMIT: 503,
+  UPSTREAM_QUOTA: 503,
+  UPSTREAM_AUTH: 502,
+  UPSTREAM_UNAVAILABLE: 502,
+  UPSTREAM_REJECTED: 502,
+  TIMEOUT: 504,
+  MODEL_BAD_JSON: 502,
+  MODEL_INVALID: 502,
+  SEARCH_FAILED: 502,
+  CONFIG: 500,
+  INTERNAL: 500,
+};
+
+/** Provider failures that may go away if the same call is made again shortly. */
+export const TRANSIENT_CODES: ReadonlySet<ErrorCode> = new Set(["UPSTREAM_RATE_LIMIT", "UPSTREAM_UNAVAILABLE", "TIMEOUT"]);
+
+export type ErrorDetails = {
+  /** Seconds until trying again may help. */
+  retryAfter?: number;
+  /** Pipeline stage that failed, e.g. "vision". */
+  stage?: string;
+  issues?: FieldIssue[];
+};
+
+/** The error envelope: `{ error, code }` plus whichever details apply. */
+export type ApiErrorBody = { error: string; code: ErrorCode } & ErrorDetails;
+
+/** A failure with a stable code; the route sends it with the code's status. */
+export class ApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: ErrorDetails = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_CODES.has(this.code);
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: this.message, code: this.code, ...this.details };
+  }
+
+  /** `Retry-After` when there is a `retryAfter`. */
+  headers(): Record<string, string> {
+    return this.details.retryAfter != null ? { "Retry-After": String(this.details.retryAfter) } : {};
+  }
+}
+
+/** Any thrown value as an ApiError; anything not already one is INTERNAL. */
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  return new ApiError("INTERNAL", err instanceof Error ? err.message : "Unexpected error");
+}
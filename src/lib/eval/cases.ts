@@ -0,0 +1,129 @@
+// src/lib/eval/cases.ts
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { LabelImage } from "@/lib/pipeline";
+import { IMAGE_ROLES, type FieldIssue, type ImageRole, type ParseResult } from "@/lib/schema";
+import { MARKETS } from "@/lib/search/types";
+import { EvalError, type EvalCase, type Expected, type Recording } from "./types";
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+const EXPECTED_FILE = "expected.json";
+const RECORDING_FILE = "recording.json";
+
+/**
+ * Every case under `dir`: each subdirectory holding an `expected.json` and at least
+ * one image. An image named after a role (`front.jpg`, `back-label.png`) gets that
+ * role; otherwise the first is the front and the rest are `other`, as in /api/analyze.
+ */
+export async function loadCases(dir: string, only?: string[]): Promise<EvalCase[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const names = entries
+    .filter((e) => e.isDirectory() && (!only || only.includes(e.name)))
+    .map((e) => e.name)
+    .sort();
+  const cases: EvalCase[] = [];
+  for (const name of names) {
+    const caseDir = path.join(dir, name);
+    const files = await readdir(caseDir);
+    if (!files.includes(EXPECTED_FILE)) continue;
+    cases.push({
+      name,
+      dir: caseDir,
+      images: await loadImages(caseDir, files),
+      expected: await loadExpected(path.join(caseDir, EXPECTED_FILE)),
+      recording: files.includes(RECORDING_FILE)
+        ? (JSON.parse(await readFile(path.join(caseDir, RECORDING_FILE), "utf8")) as Recording)
+        : null,
+    });
+  }
+  return cases;
+}
+
+export async function saveRecording(c: EvalCase, recording: Recording) {
+  await writeFile(path.join(c.dir, RECORDING_FILE), JSON.stringify(recording, null, 2));
+}
+
+async function loadImages(dir: string, files: string[]): Promise<LabelImage[]> {
+  const images = files.filter((f) => path.extname(f).toLowerCase() in MIME_TYPES).sort();
+  if (images.length === 0) throw new EvalError(`${dir}: no label image`);
+  return Promise.all(
+    images.map(async (file, i) => ({
+      role: roleOf(file) ?? (i === 0 ? "front" : "other"),
+      mimeType: MIME_TYPES[path.extname(file).toLowerCase()],
+      base64: (await readFile(path.join(dir, file))).toString("base64"),
+    }))
+  );
+}
+
+function roleOf(file: string): ImageRole | null {
+  const base = path.basename(file, path.extname(file)).toLowerCase();
+  return IMAGE_ROLES.find((r) => base === r || base.startsWith(`${r}-`) || base.startsWith(`${r}_`)) ?? null;
+}
+
+async function loadExpected(file: string): Promise<Expected> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(file, "utf8"));
+  } catch {
+    throw new EvalError(`${file}: not valid JSON`);
+  }
+  const parsed = parseExpected(json);
+  if (!parsed.ok) {
+    throw new EvalError(`${file}: ${parsed.issues.map((i) => `${i.path || "(root)"} ${i.message}`).join("; ")}`);
+  }
+  return parsed.value;
+}
+
+export function parseExpected(json: unknown): ParseResult<Expected> {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+  const e = json as Record<string, unknown>;
+  const issues: FieldIssue[] = [];
+  const out: Expected = {};
+
+  for (const key of ["producer", "wine"] as const) {
+    if (e[key] === undefined) continue;
+    if (typeof e[key] === "string") out[key] = e[key];
+    else issues.push({ path: key, message: "expected a string" });
+  }
+  if (e.vintage !== undefined) {
+    if (e.vintage === null || (typeof e.vintage === "number" && Number.isInteger(e.vintage))) out.vintage = e.vintage;
+    else issues.push({ path: "vintage", message: "expected a year or null" });
+  }
+  if (e.grapes !== undefined) {
+    if (Array.isArray(e.grapes) && e.grapes.every((g) => typeof g === "string")) out.grapes = e.grapes;
+    else issues.push({ path: "grapes", message: "expected an array of strings" });
+  }
+  if (e.abv !== undefined) {
+    if (typeof e.abv === "number" && e.abv > 0) out.abv = e.abv;
+    else issues.push({ path: "abv", message: "expected a positive number" });
+  }
+  if (e.price !== undefined) {
+    const p = e.price as Record<string, unknown> | null;
+    if (
+      p &&
+      typeof p.currency === "string" &&
+      /^[A-Z]{3}$/.test(p.currency) &&
+      typeof p.low === "number" &&
+      typeof p.high === "number" &&
+      p.low <= p.high
+    ) {
+      out.price = { currency: p.currency, low: p.low, high: p.high };
+    } else {
+      issues.push({ path: "price", message: "expected { currency, low, high } with low <= high" });
+    }
+  }
+  if (e.market !== undefined) {
+    const market = MARKETS.find((m) => m === e.market);
+    if (market) out.market = market;
+    else issues.push({ path: "market", message: `expected one of ${MARKETS.join(", ")}` });
+  }
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: out };
+}
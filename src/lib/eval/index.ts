@@ -0,0 +1,7 @@
+// src/lib/eval/index.ts
+export * from "./types";
+export { loadCases, parseExpected, saveRecording } from "./cases";
+export { emptyRecording, recordingProvider, recordingSearch, replayProvider, replaySearch } from "./recording";
+export { compareRuns, renderComparison, renderRun } from "./report";
+export { runEval, type RunOptions } from "./runner";
+export { scoreResult, summarize } from "./score";
@@ -0,0 +1,74 @@
+// src/lib/eval/recording.ts
+// Provider wrappers for the eval harness: record live model and search traffic
+// per case, then replay it offline in the same order.
+import type { LlmProvider } from "@/lib/llm";
+import type { SearchProvider } from "@/lib/search";
+import { EvalError, type Recording } from "./types";
+
+export function emptyRecording(): Recording {
+  return { llm: [], search: [] };
+}
+
+export function recordingProvider(inner: LlmProvider, recording: Recording): LlmProvider {
+  return {
+    name: inner.name,
+    async vision(req) {
+      const response = await inner.vision(req);
+      recording.llm.push({ kind: "vision", task: req.task ?? null, response });
+      return response;
+    },
+    async complete(req) {
+      const response = await inner.complete(req);
+      recording.llm.push({ kind: "complete", task: req.task ?? null, response });
+      return response;
+    },
+  };
+}
+
+/** Answers each call with the next recorded response of the same kind and task; prompts are not compared. */
+export function replayProvider(recording: Recording): LlmProvider {
+  const used = new Set<number>();
+  const next = (kind: "vision" | "complete", task: string | null) => {
+    const i = recording.llm.findIndex((r, j) => !used.has(j) && r.kind === kind && r.task === task);
+    if (i < 0) throw new EvalError(`No recorded ${kind} response${task ? ` for task "${task}"` : ""}; record the case again`);
+    used.add(i);
+    return recording.llm[i].response;
+  };
+  return {
+    name: "replay",
+    vision: async (req) => next("vision", req.task ?? null),
+    complete: async (req) => next("complete", req.task ?? null),
+  };
+}
+
+export function recordingSearch(inner: SearchProvider, recording: Recording): SearchProvider {
+  return {
+    name: inner.name,
+    retailers: inner.retailers,
+    async search(query) {
+      const results = await inner.search(query);
+      recording.search.push({ terms: query.terms, market: query.market, results });
+      return results;
+    },
+  };
+}
+
+/**
+ * Replays the results recorded for the same terms and market. When a prompt change
+ * alters the recognized label, and so the terms, the next unused recording stands in.
+ */
+export function replaySearch(recording: Recording, retailers: SearchProvider["retailers"]): SearchProvider {
+  const used = new Set<number>();
+  return {
+    name: "replay",
+    retailers,
+    async search(query) {
+      const unused = (j: number) => !used.has(j);
+      let i = recording.search.findIndex((r, j) => unused(j) && r.terms === query.terms && r.market === query.market);
+      if (i < 0) i = recording.search.findIndex((_, j) => unused(j));
+      if (i < 0) return [];
+      used.add(i);
+      return recording.search[i].results;
+    },
+  };
+}
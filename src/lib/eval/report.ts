@@ -0,0 +1,103 @@
+// src/lib/eval/report.ts
+import { SCORED_FIELDS, type Comparison, type EvalRun, type FieldChange } from "./types";
+
+/** Per-field accuracy and score deltas between two runs, and every field that flipped. */
+export function compareRuns(base: EvalRun, next: EvalRun): Comparison {
+  const accuracy = (run: EvalRun, field: string) => run.summary.fields.find((f) => f.field === field)?.accuracy ?? 0;
+  const fields = SCORED_FIELDS.map((field) => {
+    const a = accuracy(base, field);
+    const b = accuracy(next, field);
+    return { field, base: a, next: b, delta: b - a };
+  });
+
+  const changes: FieldChange[] = [];
+  for (const after of next.cases) {
+    const before = base.cases.find((c) => c.name === after.name);
+    if (!before) continue;
+    for (const field of SCORED_FIELDS) {
+      const a = before.fields.find((f) => f.field === field);
+      const b = after.fields.find((f) => f.field === field);
+      const passedBefore = a?.pass ?? false;
+      const passedAfter = b?.pass ?? false;
+      if (passedBefore === passedAfter || !(a ?? b)) continue;
+      changes.push({
+        case: after.name,
+        field,
+        change: passedAfter ? "fixed" : "broken",
+        before: before.error ? `error: ${before.error}` : (a?.actual ?? "—"),
+        after: after.error ? `error: ${after.error}` : (b?.actual ?? "—"),
+        expected: (a ?? b)!.expected,
+      });
+    }
+  }
+
+  return {
+    base: base.name,
+    next: next.name,
+    meanScore: {
+      base: base.summary.meanScore,
+      next: next.summary.meanScore,
+      delta: next.summary.meanScore - base.summary.meanScore,
+    },
+    errors: { base: base.summary.errors, next: next.summary.errors },
+    fields,
+    changes,
+  };
+}
+
+/** One run as Markdown: the per-field accuracy table, then each failing field. */
+export function renderRun(run: EvalRun): string {
+  const lines = [
+    `# Eval run ${run.name}`,
+    "",
+    `${run.startedAt} · ${run.mode} · vision ${run.models.vision} · grounding ${run.models.grounding}`,
+    "",
+    `Cases: ${run.summary.cases}, errors: ${run.summary.errors}, mean score: ${pct(run.summary.meanScore)}`,
+    "",
+    "| Field | Passed | Accuracy |",
+    "| --- | --- | --- |",
+    ...run.summary.fields.filter((f) => f.scored > 0).map((f) => `| ${f.field} | ${f.passed}/${f.scored} | ${pct(f.accuracy)} |`),
+  ];
+  const failures = run.cases.flatMap((c) =>
+    c.error
+      ? [`- **${c.name}**: error: ${c.error}`]
+      : c.fields.filter((f) => !f.pass).map((f) => `- **${c.name}** ${f.field}: expected ${f.expected}, got ${f.actual || "—"}`)
+  );
+  if (failures.length > 0) lines.push("", "## Failures", "", ...failures);
+  return `${lines.join("\n")}\n`;
+}
+
+/** A comparison as Markdown, with regressions listed before fixes. */
+export function renderComparison(cmp: Comparison): string {
+  const lines = [
+    `# ${cmp.base} → ${cmp.next}`,
+    "",
+    `Mean score: ${pct(cmp.meanScore.base)} → ${pct(cmp.meanScore.next)} (${signed(cmp.meanScore.delta)})`,
+    `Errors: ${cmp.errors.base} → ${cmp.errors.next}`,
+    "",
+    "| Field | Before | After | Change |",
+    "| --- | --- | --- | --- |",
+    ...cmp.fields.map((f) => `| ${f.field} | ${pct(f.base)} | ${pct(f.next)} | ${signed(f.delta)} |`),
+  ];
+  for (const [title, kind] of [
+    ["Regressions", "broken"],
+    ["Fixes", "fixed"],
+  ] as const) {
+    const rows = cmp.changes.filter((c) => c.change === kind);
+    if (rows.length === 0) continue;
+    lines.push("", `## ${title}`, "");
+    for (const c of rows) {
+      lines.push(`- **${c.case}** ${c.field}: ${c.before} → ${c.after} (expected ${c.expected})`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function pct(n: number) {
+  return `${(n * 100).toFixed(1)}%`;
+}
+
+function signed(n: number) {
+  const points = (n * 100).toFixed(1);
+  return n > 0 ? `+${points} pts` : `${points} pts`;
+}
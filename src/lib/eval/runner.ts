@@ -0,0 +1,77 @@
+// src/lib/eval/runner.ts
+import { getFxTable } from "@/lib/fx";
+import { resolveStage } from "@/lib/llm";
+import { analyzeLabel, type PipelineProviders } from "@/lib/pipeline";
+import { DEFAULT_RETAILERS, resolveSearch } from "@/lib/search";
+import { saveRecording } from "./cases";
+import { emptyRecording, recordingProvider, recordingSearch, replayProvider, replaySearch } from "./recording";
+import { scoreResult, summarize } from "./score";
+import type { CaseResult, EvalCase, EvalRun, Recording } from "./types";
+
+export type RunOptions = {
+  /** `record` calls the configured providers and saves their responses; `replay` only uses saved ones. */
+  mode: "record" | "replay";
+  name: string;
+  /** Called after each case, e.g. to print progress. */
+  onCase?: (result: CaseResult) => void;
+};
+
+/**
+ * Run every case through the analyze pipeline, one at a time, and score the
+ * results. Caches should be off (CACHE=off) so each case really runs.
+ */
+export async function runEval(cases: EvalCase[], opts: RunOptions): Promise<EvalRun> {
+  const fx = await getFxTable();
+  const live = opts.mode === "record" ? { vision: resolveStage("vision"), grounding: resolveStage("grounding") } : null;
+  const search = opts.mode === "record" ? resolveSearch().provider : null;
+  const startedAt = new Date().toISOString();
+
+  const results: CaseResult[] = [];
+  let models = live ? { vision: live.vision.model, grounding: live.grounding.model } : { vision: "", grounding: "" };
+  for (const c of cases) {
+    const started = Date.now();
+    let result: CaseResult;
+    try {
+      let recording: Recording;
+      let providers: PipelineProviders;
+      if (live) {
+        recording = { ...emptyRecording(), models };
+        providers = {
+          vision: { ...live.vision, provider: recordingProvider(live.vision.provider, recording) },
+          grounding: { ...live.grounding, provider: recordingProvider(live.grounding.provider, recording) },
+          search: search && recordingSearch(search, recording),
+        };
+      } else {
+        if (!c.recording) throw new Error("No recording.json; run with --record first");
+        recording = c.recording;
+        if (recording.models && !models.vision) models = recording.models;
+        const provider = replayProvider(recording);
+        providers = {
+          vision: { provider, model: recording.models?.vision ?? "replay" },
+          grounding: { provider, model: recording.models?.grounding ?? "replay" },
+          search: replaySearch(recording, search?.retailers ?? DEFAULT_RETAILERS),
+        };
+      }
+
+      const { data } = await analyzeLabel(c.images, { market: c.expected.market, refresh: true, providers });
+      if (live) await saveRecording(c, recording);
+      const fields = scoreResult(c.expected, data, fx);
+      const score = fields.length > 0 ? fields.reduce((sum, f) => sum + f.score, 0) / fields.length : 0;
+      result = { name: c.name, error: null, fields, score, durationMs: Date.now() - started };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unexpected error";
+      result = { name: c.name, error, fields: [], score: 0, durationMs: Date.now() - started };
+    }
+    results.push(result);
+    opts.onCase?.(result);
+  }
+
+  return {
+    name: opts.name,
+    startedAt,
+    mode: opts.mode,
+    models: { vision: models.vision || "replay", grounding: models.grounding || "replay" },
+    cases: results,
+    summary: summarize(results),
+  };
+}
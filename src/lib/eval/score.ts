@@ -0,0 +1,85 @@
+// src/lib/eval/score.ts
+import { fxRate, type FxTable } from "@/lib/fx";
+import { normalizeName, producerCore, similarity, wineCore } from "@/lib/identity/normalize";
+import type { AnalysisResult } from "@/lib/schema";
+import { SCORED_FIELDS, type CaseResult, type EvalRun, type Expected, type FieldScore, type FieldSummary } from "./types";
+
+/** ABV may be off by this many points and still count. */
+const ABV_TOLERANCE = 0.5;
+/** Names this similar (after normalization) count as right: typos, not different wines. */
+const NAME_PASS = 0.9;
+
+/** Score every field `expected` names against the pipeline's result. */
+export function scoreResult(expected: Expected, result: AnalysisResult, fx: FxTable): FieldScore[] {
+  const rl = result.recognizedLabel;
+  const out: FieldScore[] = [];
+
+  if (expected.producer !== undefined) {
+    const score = similarity(producerCore(expected.producer), producerCore(rl.producer));
+    out.push({ field: "producer", expected: expected.producer, actual: rl.producer, score, pass: score >= NAME_PASS });
+  }
+  if (expected.wine !== undefined) {
+    const producer = expected.producer ?? rl.producer;
+    const score = similarity(wineCore(expected.wine, producer, ""), wineCore(rl.wine, rl.producer, rl.appellation));
+    out.push({ field: "wine", expected: expected.wine, actual: rl.wine, score, pass: score >= NAME_PASS });
+  }
+  if (expected.vintage !== undefined) {
+    const pass = expected.vintage === rl.vintage;
+    out.push({ field: "vintage", expected: String(expected.vintage ?? "NV"), actual: String(rl.vintage ?? "NV"), score: pass ? 1 : 0, pass });
+  }
+  if (expected.grapes !== undefined) {
+    const want = new Set(expected.grapes.map(normalizeName));
+    const got = new Set(result.grapes.map((g) => normalizeName(g.variety)));
+    const hits = [...got].filter((g) => want.has(g)).length;
+    // F1 of the two sets: extra and missing varieties both cost
+    const score = want.size + got.size === 0 ? 1 : (2 * hits) / (want.size + got.size);
+    out.push({
+      field: "grapes",
+      expected: expected.grapes.join(", "),
+      actual: result.grapes.map((g) => g.variety).join(", "),
+      score,
+      pass: score === 1,
+    });
+  }
+  if (expected.abv !== undefined) {
+    const pass = result.abv != null && Math.abs(result.abv - expected.abv) <= ABV_TOLERANCE;
+    out.push({ field: "abv", expected: `${expected.abv}%`, actual: result.abv != null ? `${result.abv}%` : "—", score: pass ? 1 : 0, pass });
+  }
+  if (expected.price !== undefined) {
+    const { currency, low, high } = expected.price;
+    const value = estimateIn(result, currency, fx);
+    const pass = value != null && value >= low && value <= high;
+    out.push({
+      field: "price",
+      expected: `${low}–${high} ${currency}`,
+      actual: value != null ? `${value} ${currency}` : "—",
+      score: pass ? 1 : 0,
+      pass,
+    });
+  }
+  return out;
+}
+
+/** The estimate's median (else the midpoint of its range) in `currency`. */
+function estimateIn(result: AnalysisResult, currency: string, fx: FxTable): number | null {
+  const pe = result.priceEstimate;
+  const mid = pe.median ?? (pe.low != null && pe.high != null ? (pe.low + pe.high) / 2 : (pe.low ?? pe.high));
+  const rate = fxRate(fx, pe.currency, currency);
+  return mid == null || rate == null ? null : Math.round(mid * rate * 100) / 100;
+}
+
+export function summarize(cases: CaseResult[]): EvalRun["summary"] {
+  const fields: FieldSummary[] = SCORED_FIELDS.map((field) => {
+    const scores = cases.flatMap((c) => c.fields.filter((f) => f.field === field));
+    const passed = scores.filter((s) => s.pass).length;
+    return { field, scored: scores.length, passed, accuracy: scores.length > 0 ? passed / scores.length : 0 };
+  });
+  const ok = cases.filter((c) => !c.error);
+  return {
+    cases: cases.length,
+    errors: cases.length - ok.length,
+    // A failed case counts as zero, so a prompt that breaks parsing doesn't look better
+    meanScore: cases.length > 0 ? cases.reduce((sum, c) => sum + (c.error ? 0 : c.score), 0) / cases.length : 0,
+    fields,
+  };
+}
@@ -0,0 +1,94 @@
+// src/lib/eval/types.ts
+import type { LabelImage } from "@/lib/pipeline";
+import type { Evidence, Market } from "@/lib/search/types";
+
+/** What a golden case's label should come out as; only the fields given are scored. */
+export type Expected = {
+  producer?: string;
+  wine?: string;
+  /** null for a non-vintage wine. */
+  vintage?: number | null;
+  grapes?: string[];
+  abv?: number;
+  /** The retail range the estimate should land in, per 75cl bottle. */
+  price?: { currency: string; low: number; high: number };
+  /** Market to price in (default uk). */
+  market?: Market;
+};
+
+/** One directory of the eval set: label photos, the expected answer, and the recorded responses. */
+export type EvalCase = {
+  name: string;
+  dir: string;
+  images: LabelImage[];
+  expected: Expected;
+  recording: Recording | null;
+};
+
+export const SCORED_FIELDS = ["producer", "wine", "vintage", "grapes", "abv", "price"] as const;
+export type ScoredField = (typeof SCORED_FIELDS)[number];
+
+/** Model and search traffic of one case, in call order, so it can be replayed offline. */
+export type Recording = {
+  /** The models that produced the responses. */
+  models?: { vision: string; grounding: string };
+  llm: Array<{ kind: "vision" | "complete"; task: string | null; response: string }>;
+  search: Array<{ terms: string; market: Market; results: Evidence[] }>;
+};
+
+export type FieldScore = {
+  field: ScoredField;
+  expected: string;
+  actual: string;
+  /** 0–1; partial for fuzzy names and overlapping grape lists. */
+  score: number;
+  pass: boolean;
+};
+
+export type CaseResult = {
+  name: string;
+  /** Set when the pipeline failed; the case then has no field scores. */
+  error: string | null;
+  fields: FieldScore[];
+  /** Mean of the field scores. */
+  score: number;
+  durationMs: number;
+};
+
+export type FieldSummary = { field: ScoredField; scored: number; passed: number; accuracy: number };
+
+export type EvalRun = {
+  name: string;
+  startedAt: string;
+  mode: "record" | "replay";
+  models: { vision: string; grounding: string };
+  cases: CaseResult[];
+  summary: { cases: number; errors: number; meanScore: number; fields: FieldSummary[] };
+};
+
+/** One field of one case that passed in one run and failed in the other. */
+export type FieldChange = {
+  case: string;
+  field: ScoredField;
+  change: "fixed" | "broken";
+  before: string;
+  after: string;
+  expected: string;
+};
+
+export type Comparison = {
+  base: string;
+  next: string;
+  meanScore: { base: number; next: number; delta: number };
+  errors: { base: number; next: number };
+  fields: Array<{ field: ScoredField; base: number; next: number; delta: number }>;
+  changes: FieldChange[];
+};
+
+/** Thrown when a case can't be loaded or replayed. */
+export class EvalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EvalError";
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/export/index.ts
+import sharp from "sharp";
+import { wineTitle } from "@/lib/drink-window";
+import type { AnalysisResult } from "@/lib/schema";
+import { layoutCard } from "./layout";
+import { resultToMarkdown } from "./markdown";
+import { cardToPdf } from "./pdf";
+import { cardToPng } from "./svg";
+import { EXPORT_CONTENT_TYPE, type CardImage, type ExportFormat } from "./types";
+
+export * from "./types";
+export { cardSummary, type CardSummary, type StructureRow } from "./summary";
+export { layoutCard } from "./layout";
+export { resultToMarkdown } from "./markdown";
+export { cardToPdf } from "./pdf";
+export { cardToPng, cardToSvg } from "./svg";
+
+/** Twice the card's photo box, so the thumbnail stays sharp in print and in the 2× PNG. */
+const THUMB_PIXELS = { width: 192, height: 256 };
+
+export type ExportFile = { body: Buffer | string; contentType: string; filename: string };
+
+/** Shrink a label photo to the card's thumbnail: upright, on white, as JPEG (the PDF embeds it as is). */
+export async function cardImage(data: Buffer): Promise<CardImage> {
+  const { data: jpeg, info } = await sharp(data)
+    .rotate()
+    .resize({ ...THUMB_PIXELS, fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .toColourspace("srgb")
+    .jpeg({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+  return { data: jpeg, width: info.width, height: info.height };
+}
+
+/** One result as a download. The photo only appears on the drawn card (pdf, png). */
+export async function exportResult(
+  result: AnalysisResult,
+  format: ExportFormat,
+  image: CardImage | null = null,
+  now = new Date()
+): Promise<ExportFile> {
+  const filename = `${slug(wineTitle(result)) || "tasting-card"}.${format}`;
+  const contentType = EXPORT_CONTENT_TYPE[format];
+  switch (format) {
+    case "json":
+      return { body: JSON.stringify(result, null, 2), contentType, filename };
+    case "md":
+      return { body: resultToMarkdown(result, now), contentType, filename };
+    case "pdf":
+      return { body: cardToPdf(layoutCard(result, image, now)), contentType, filename };
+    case "png":
+      return { body: await cardToPng(layoutCard(result, image, now)), contentType, filename };
+  }
+}
+
+function slug(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
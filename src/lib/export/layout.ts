@@ -0,0 +1,135 @@
+// src/lib/export/layout.ts
+// Lays the tasting card out as shapes on an A5-wide page that grows with the content.
+import type { AnalysisResult } from "@/lib/schema";
+import { textWidth, wrapText } from "./metrics";
+import { cardSummary } from "./summary";
+import type { CardImage, CardLayout, CardShape, Rgb } from "./types";
+
+/** A5 portrait, in points. */
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 595;
+const MARGIN = 28;
+const INNER = PAGE_WIDTH - 2 * MARGIN;
+/** Largest thumbnail box; the photo keeps its aspect ratio inside it. */
+const THUMB = { width: 96, height: 128 };
+/** Width of the label column for "Nose", "Primary"… */
+const KEY_WIDTH = 64;
+const BAR_WIDTH = 170;
+
+const INK: Rgb = [23, 23, 23];
+const MUTED: Rgb = [107, 114, 128];
+const ACCENT: Rgb = [159, 18, 57];
+const TRACK: Rgb = [229, 231, 235];
+
+type TextStyle = { size: number; bold?: boolean; colour?: Rgb; href?: string };
+
+export function layoutCard(result: AnalysisResult, image: CardImage | null, now = new Date()): CardLayout {
+  const s = cardSummary(result, now.getFullYear());
+  const shapes: CardShape[] = [{ kind: "rect", x: 0, y: 0, width: PAGE_WIDTH, height: 6, fill: ACCENT }];
+  let y = MARGIN;
+
+  /** Wrapped text from `y`; returns the y below it. */
+  function paragraph(text: string, x: number, top: number, width: number, style: TextStyle): number {
+    const lineHeight = style.size * 1.3;
+    let cursor = top;
+    for (const line of wrapText(text, width, style.size, style.bold)) {
+      shapes.push({ kind: "text", x, y: cursor + style.size * 0.8, text: line, colour: INK, ...style });
+      cursor += lineHeight;
+    }
+    return cursor;
+  }
+
+  function heading(text: string) {
+    y += 12;
+    y = paragraph(text.toUpperCase(), MARGIN, y, INNER, { size: 9, bold: true, colour: ACCENT });
+    shapes.push({ kind: "rect", x: MARGIN, y: y + 1, width: INNER, height: 0.75, fill: ACCENT });
+    y += 6;
+  }
+
+  /** A key in the left column with its text wrapped beside it. */
+  function keyed(key: string, text: string) {
+    paragraph(key, MARGIN, y, KEY_WIDTH, { size: 9, bold: true });
+    y = paragraph(text, MARGIN + KEY_WIDTH, y, INNER - KEY_WIDTH, { size: 9 }) + 2;
+  }
+
+  // Title block, beside the label photo when there is one
+  let textColumn = INNER;
+  let imageBottom = y;
+  if (image) {
+    const scale = Math.min(THUMB.width / image.width, THUMB.height / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    shapes.push({ kind: "image", x: PAGE_WIDTH - MARGIN - width, y, width, height });
+    textColumn = INNER - width - 14;
+    imageBottom = y + height;
+  }
+  y = paragraph(s.title, MARGIN, y, textColumn, { size: 17, bold: true });
+  if (s.origin) y = paragraph(s.origin, MARGIN, y + 2, textColumn, { size: 10, colour: MUTED });
+  y += 4;
+  for (const fact of s.facts) y = paragraph(fact, MARGIN, y, textColumn, { size: 9 });
+  y = Math.max(y, imageBottom);
+
+  heading("Structure (WSET Level 2)");
+  for (const row of s.structure) {
+    const barX = MARGIN + KEY_WIDTH;
+    const segment = (BAR_WIDTH - 3 * (row.steps - 1)) / row.steps;
+    shapes.push({ kind: "text", x: MARGIN, y: y + 8, text: row.label, size: 9, bold: true, colour: INK });
+    for (let i = 0; i < row.steps; i++) {
+      const fill = row.step != null && i < row.step ? ACCENT : TRACK;
+      shapes.push({ kind: "rect", x: barX + i * (segment + 3), y: y + 2, width: segment, height: 7, fill });
+    }
+    const value = row.value || "—";
+    const valueWidth = INNER - KEY_WIDTH - BAR_WIDTH - 10;
+    const shown = textWidth(value, 9) > valueWidth ? wrapText(value, valueWidth, 9)[0] + "…" : value;
+    shapes.push({ kind: "text", x: barX + BAR_WIDTH + 10, y: y + 8, text: shown, size: 9, colour: row.step ? INK : MUTED });
+    y += 14;
+  }
+
+  if (s.nose || s.palate || s.finish) {
+    heading("Tasting notes");
+    if (s.nose) keyed("Nose", s.nose);
+    if (s.palate) keyed("Palate", s.palate);
+    if (s.finish) keyed("Finish", s.finish);
+  }
+
+  if (s.aromas.length > 0) {
+    heading("Aromas and flavours");
+    for (const a of s.aromas) keyed(a.label, a.items.join(", "));
+  }
+
+  if (s.drinkWindow.length > 0) {
+    heading("Drink window");
+    for (const line of s.drinkWindow) y = paragraph(line, MARGIN, y, INNER, { size: 9 }) + 1;
+  }
+
+  heading("Price");
+  s.price.forEach((line, i) => {
+    // The first line is the estimate itself; the rest is small print
+    y = paragraph(line, MARGIN, y, INNER, i === 0 ? { size: 10, bold: true } : { size: 8, colour: MUTED }) + 1;
+  });
+
+  if (s.sources.length > 0) {
+    heading("Sources");
+    s.sources.forEach((src, i) => {
+      y = paragraph(`${i + 1}. ${src.title} (${hostOf(src.url)})`, MARGIN, y, INNER, { size: 8, href: src.url }) + 1;
+    });
+  }
+
+  if (s.caveats.length > 0) {
+    heading("Caveats");
+    for (const c of s.caveats) y = paragraph(`• ${c}`, MARGIN, y, INNER, { size: 8, colour: MUTED }) + 1;
+  }
+
+  y += 14;
+  y = paragraph(`Exported ${now.toISOString().slice(0, 10)} · Prices are indicative`, MARGIN, y, INNER, { size: 7, colour: MUTED });
+
+  return { width: PAGE_WIDTH, height: Math.max(PAGE_HEIGHT, Math.ceil(y + MARGIN)), shapes, image };
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
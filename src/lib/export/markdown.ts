@@ -0,0 +1,44 @@
+// src/lib/export/markdown.ts
+import type { AnalysisResult } from "@/lib/schema";
+import { cardSummary } from "./summary";
+
+/** The tasting card as Markdown, for pasting into notes or a study group chat. */
+export function resultToMarkdown(result: AnalysisResult, now = new Date()): string {
+  const s = cardSummary(result, now.getFullYear());
+  const out: string[] = [`# ${escape(s.title)}`, ""];
+  if (s.origin) out.push(escape(s.origin), "");
+  if (s.facts.length > 0) out.push(...s.facts.map((f) => `- ${escape(f)}`), "");
+
+  out.push("## Structure (WSET Level 2)", "", "| | |", "| --- | --- |");
+  for (const row of s.structure) out.push(`| ${row.label} | ${cell(row.value || "—")} |`);
+  out.push("");
+
+  const notes = [
+    s.nose ? `**Nose:** ${escape(s.nose)}` : "",
+    s.palate ? `**Palate:** ${escape(s.palate)}` : "",
+    s.finish ? `**Finish:** ${escape(s.finish)}` : "",
+  ].filter(Boolean);
+  if (notes.length > 0) out.push("## Tasting notes", "", notes.join("  \n"), "");
+
+  if (s.aromas.length > 0) {
+    out.push("## Aromas and flavours", "", ...s.aromas.map((a) => `- **${a.label}:** ${escape(a.items.join(", "))}`), "");
+  }
+  if (s.drinkWindow.length > 0) out.push("## Drink window", "", ...s.drinkWindow.map((l) => `- ${escape(l)}`), "");
+  out.push("## Price", "", ...s.price.map((l) => `- ${escape(l)}`), "");
+  if (s.sources.length > 0) {
+    out.push("## Sources", "", ...s.sources.map((src, i) => `${i + 1}. [${escape(src.title)}](${src.url.replace(/[()]/g, encodeURIComponent)})`), "");
+  }
+  if (s.caveats.length > 0) out.push("## Caveats", "", ...s.caveats.map((c) => `- ${escape(c)}`), "");
+
+  out.push(`_Exported ${now.toISOString().slice(0, 10)}. Prices are indicative._`, "");
+  return out.join("\n");
+}
+
+/** Keep model text from turning into links, emphasis or headings. */
+function escape(s: string): string {
+  return s.replace(/([\\`*_[\]<>#])/g, "\\$1");
+}
+
+function cell(s: string): string {
+  return escape(s).replace(/\|/g, "\\|");
+}
@@ -0,0 +1,56 @@
+// src/lib/export/metrics.ts
+// Helvetica advance widths (1/1000 em, from the standard AFM files) for laying
+// out card text. Arial and Liberation Sans share them, so SVG text measures the same.
+
+// Printable ASCII, space (32) to tilde (126)
+const REGULAR = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Punctuation outside ASCII that the card uses. */
+const EXTRA: Record<string, number> = { "–": 556, "—": 1000, "·": 278, "…": 1000, "‘": 222, "’": 222, "“": 333, "”": 333, "•": 350, "€": 556, "£": 556 };
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const table = bold ? BOLD : REGULAR;
+  let units = 0;
+  for (const ch of text) {
+    // Accented letters are as wide as their base letter
+    const base = ch.normalize("NFD")[0];
+    const code = base.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? table[code - 32] : (EXTRA[ch] ?? 556);
+  }
+  return (units * size) / 1000;
+}
+
+/** Greedy word wrap to `width` points; a word longer than a line is cut. */
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (textWidth(next, size, bold) <= width) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (textWidth(line, size, bold) > width && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > width) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
@@ -0,0 +1,120 @@
+// src/lib/export/pdf.ts
+// Minimal single-page PDF 1.4 writer for the card: the standard Helvetica fonts
+// (so text stays selectable and nothing is embedded), filled rectangles, one
+// JPEG and link annotations for the sources.
+import { textWidth } from "./metrics";
+import type { CardLayout, CardShape, Rgb } from "./types";
+
+/** cp1252 bytes for the characters outside Latin-1 that the card may hold. */
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "Š": 0x8a, "Œ": 0x8c, "Ž": 0x8e, "š": 0x9a, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+export function cardToPdf(layout: CardLayout): Buffer {
+  const { width, height } = layout;
+  const content: string[] = [];
+  const links: string[] = [];
+
+  for (const shape of layout.shapes) {
+    content.push(...shapeOps(shape, height, layout.image != null));
+    if (shape.kind === "text" && shape.href) {
+      const bottom = height - shape.y - shape.size * 0.25;
+      const right = shape.x + textWidth(shape.text, shape.size, shape.bold);
+      links.push(
+        `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${n(shape.x)} ${n(bottom)} ${n(right)} ${n(bottom + shape.size)}] ` +
+          `/A << /S /URI /URI ${literal(shape.href)} >> >>`
+      );
+    }
+  }
+
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+    return objects.length;
+  };
+  const stream = (dict: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, "latin1"), data, Buffer.from("\nendstream", "latin1")]);
+
+  const pages = add(""); // filled in once the page's number is known
+  const catalog = add(`<< /Type /Catalog /Pages ${pages} 0 R >>`);
+  const regular = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const bold = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const image = layout.image
+    ? add(
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${layout.image.width} /Height ${layout.image.height} ` +
+            "/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode",
+          layout.image.data
+        )
+      )
+    : null;
+  const contents = add(stream("", Buffer.from(content.join("\n"), "latin1")));
+  const annots = links.map((link) => add(link));
+  const page = add(
+    `<< /Type /Page /Parent ${pages} 0 R /MediaBox [0 0 ${n(width)} ${n(height)}] /Contents ${contents} 0 R ` +
+      `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >>${image ? ` /XObject << /Im1 ${image} 0 R >>` : ""} >>` +
+      `${annots.length > 0 ? ` /Annots [${annots.map((a) => `${a} 0 R`).join(" ")}]` : ""} >>`
+  );
+  objects[pages - 1] = Buffer.from(`<< /Type /Pages /Kids [${page} 0 R] /Count 1 >>`, "latin1");
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ];
+  chunks.push(Buffer.from(xref.join("\n") + "\n", "latin1"));
+  return Buffer.concat(chunks);
+}
+
+/** Content-stream operators; PDF's origin is the bottom-left, so y is flipped. */
+function shapeOps(shape: CardShape, height: number, hasImage: boolean): string[] {
+  switch (shape.kind) {
+    case "rect":
+      return [`${rgb(shape.fill)} rg ${n(shape.x)} ${n(height - shape.y - shape.height)} ${n(shape.width)} ${n(shape.height)} re f`];
+    case "image":
+      if (!hasImage) return [];
+      return [`q ${n(shape.width)} 0 0 ${n(shape.height)} ${n(shape.x)} ${n(height - shape.y - shape.height)} cm /Im1 Do Q`];
+    case "text":
+      return [
+        `BT /${shape.bold ? "F2" : "F1"} ${n(shape.size)} Tf ${rgb(shape.colour)} rg ` +
+          `${n(shape.x)} ${n(height - shape.y)} Td ${literal(shape.text)} Tj ET`,
+      ];
+  }
+}
+
+/** A PDF string literal in WinAnsi; characters it lacks become "?". */
+function literal(s: string): string {
+  let out = "(";
+  for (const ch of s) {
+    const code = ch.charCodeAt(0);
+    const byte = WIN_ANSI[ch] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) out += `\\${ch}`;
+    else if (byte < 0x20) out += " ";
+    else out += String.fromCharCode(byte);
+  }
+  return `${out})`;
+}
+
+function rgb(colour: Rgb): string {
+  return colour.map((c) => n(c / 255)).join(" ");
+}
+
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
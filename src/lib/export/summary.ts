@@ -0,0 +1,110 @@
+// src/lib/export/summary.ts
+// The card's content as plain strings, shared by the drawn card and Markdown.
+import { AROMA_TIERS, type AromaTier } from "@/lib/aromas";
+import { DRINK_STATUS_LABEL, assessDrinkWindow, wineTitle } from "@/lib/drink-window";
+import { STRUCTURE_LEVELS, SWEETNESS_LEVELS, type AnalysisResult, type Source, type WsetField } from "@/lib/schema";
+
+export type StructureRow = {
+  field: WsetField;
+  label: string;
+  /** The SAT level, or the model's own wording when it was off the scale; "" when unknown. */
+  value: string;
+  /** Position on the scale, 1-based; null when not on it. */
+  step: number | null;
+  steps: number;
+};
+
+export type CardSummary = {
+  title: string;
+  /** Appellation, region and country, without repeats. */
+  origin: string;
+  /** Vintage, ABV and grapes, each as "Label: value". */
+  facts: string[];
+  structure: StructureRow[];
+  nose: string;
+  palate: string;
+  finish: string;
+  aromas: Array<{ tier: AromaTier; label: string; items: string[] }>;
+  drinkWindow: string[];
+  price: string[];
+  sources: Source[];
+  caveats: string[];
+};
+
+const STRUCTURE_ROWS: Array<{ field: WsetField; label: string; scale: readonly string[] }> = [
+  { field: "sweetness", label: "Sweetness", scale: SWEETNESS_LEVELS },
+  { field: "acidity", label: "Acidity", scale: STRUCTURE_LEVELS },
+  { field: "tannin", label: "Tannin", scale: STRUCTURE_LEVELS },
+  { field: "body", label: "Body", scale: STRUCTURE_LEVELS },
+  { field: "alcohol", label: "Alcohol", scale: STRUCTURE_LEVELS },
+  { field: "finishLength", label: "Finish", scale: STRUCTURE_LEVELS },
+];
+
+const TIER_LABEL: Record<AromaTier, string> = { primary: "Primary", secondary: "Secondary", tertiary: "Tertiary" };
+
+export function cardSummary(result: AnalysisResult, year = new Date().getFullYear()): CardSummary {
+  const rl = result.recognizedLabel;
+  const w2 = result.tastingNotes.wsetLevel2;
+  const origin = [...new Set([rl.appellation, rl.region, rl.country].map((s) => s.trim()).filter(Boolean))].join(" · ");
+  const grapes = result.grapes.map((g) => (g.percent != null ? `${g.variety} ${g.percent}%` : g.variety)).join(", ");
+  const facts = [
+    rl.vintage != null ? `Vintage: ${rl.vintage}` : "",
+    result.abv != null ? `ABV: ${result.abv}%` : "",
+    grapes ? `Grapes: ${grapes}` : "",
+  ].filter(Boolean);
+
+  return {
+    title: wineTitle(result),
+    origin,
+    facts,
+    structure: STRUCTURE_ROWS.map(({ field, label, scale }) => {
+      const level = w2[field];
+      const index = level ? scale.indexOf(level) : -1;
+      return {
+        field,
+        label,
+        value: level || w2.unmapped?.[field] || "",
+        step: index >= 0 ? index + 1 : null,
+        steps: scale.length,
+      };
+    }),
+    nose: result.tastingNotes.nose.join(", "),
+    palate: result.tastingNotes.palate.join(", "),
+    finish: result.tastingNotes.finish,
+    aromas: AROMA_TIERS.map((tier) => ({ tier, label: TIER_LABEL[tier], items: result.aromasAndFlavours[tier] })).filter(
+      (a) => a.items.length > 0
+    ),
+    drinkWindow: drinkWindowLines(result, year),
+    price: priceLines(result),
+    sources: result.sources,
+    caveats: result.caveats,
+  };
+}
+
+function drinkWindowLines(result: AnalysisResult, year: number): string[] {
+  const dw = result.drinkWindow;
+  const span = (from: string, to: string) => [from, to].filter(Boolean).join(" – ");
+  const drink = assessDrinkWindow(dw, year);
+  return [
+    span(dw.from, dw.to) ? `Drink: ${span(dw.from, dw.to)}` : "",
+    span(dw.peakFrom, dw.peakTo) ? `Peak: ${span(dw.peakFrom, dw.peakTo)}` : "",
+    dw.decant ? `Decant: ${dw.decant}` : "",
+    drink.status !== "unknown" ? `${DRINK_STATUS_LABEL[drink.status]} · ${drink.reason}` : "",
+  ].filter(Boolean);
+}
+
+function priceLines(result: AnalysisResult): string[] {
+  const pe = result.priceEstimate;
+  const range = (currency: string, low: number | null, high: number | null) =>
+    low != null && high != null ? `${currency} ${low} – ${high}` : null;
+  const main = range(pe.currency, pe.low, pe.high);
+  const c = pe.converted;
+  const converted = c && c.currency !== pe.currency ? range(c.currency, c.low, c.high) : null;
+  return [
+    main
+      ? [main, pe.median != null ? `median ${pe.median}` : "", `${pe.confidence} confidence`].filter(Boolean).join(" · ")
+      : "No estimate",
+    converted && c ? `${converted} (1 ${pe.currency} = ${c.rate} ${c.currency}, rates of ${c.rateDate})` : "",
+    pe.note,
+  ].filter(Boolean);
+}
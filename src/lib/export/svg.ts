@@ -0,0 +1,50 @@
+// src/lib/export/svg.ts
+import sharp from "sharp";
+import type { CardLayout, CardShape, Rgb } from "./types";
+
+const FONT = "Helvetica, Arial, 'Liberation Sans', sans-serif";
+
+export function cardToSvg(layout: CardLayout): string {
+  const body = layout.shapes.map((shape) => shapeToSvg(shape, layout)).join("\n");
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}">\n` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>\n${body}\n</svg>\n`
+  );
+}
+
+/** The card as a PNG at `scale`× its size in points (2× is ~144 dpi). */
+export async function cardToPng(layout: CardLayout, scale = 2): Promise<Buffer> {
+  return sharp(Buffer.from(cardToSvg(layout)), { density: 72 * scale }).png().toBuffer();
+}
+
+function shapeToSvg(shape: CardShape, layout: CardLayout): string {
+  switch (shape.kind) {
+    case "rect":
+      return `<rect x="${n(shape.x)}" y="${n(shape.y)}" width="${n(shape.width)}" height="${n(shape.height)}" fill="${hex(shape.fill)}"/>`;
+    case "image":
+      if (!layout.image) return "";
+      return (
+        `<image x="${n(shape.x)}" y="${n(shape.y)}" width="${n(shape.width)}" height="${n(shape.height)}" ` +
+        `xlink:href="data:image/jpeg;base64,${layout.image.data.toString("base64")}"/>`
+      );
+    case "text": {
+      const text =
+        `<text x="${n(shape.x)}" y="${n(shape.y)}" font-family="${FONT}" font-size="${shape.size}"` +
+        `${shape.bold ? ` font-weight="bold"` : ""} fill="${hex(shape.colour)}">${escapeXml(shape.text)}</text>`;
+      return shape.href ? `<a xlink:href="${escapeXml(shape.href)}">${text}</a>` : text;
+    }
+  }
+}
+
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function hex(rgb: Rgb): string {
+  return `#${rgb.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
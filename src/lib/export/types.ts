@@ -0,0 +1,27 @@
+// src/lib/export/types.ts
+
+export const EXPORT_FORMATS = ["pdf", "png", "md", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPE: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+/** The label photo on the card: a small upright JPEG, sized in pixels. */
+export type CardImage = { data: Buffer; width: number; height: number };
+
+export type Rgb = readonly [number, number, number];
+
+/**
+ * What the card is drawn from, in points (1/72 in) from the top-left corner.
+ * Text `y` is the baseline. The SVG and PDF writers both draw these.
+ */
+export type CardShape =
+  | { kind: "text"; x: number; y: number; text: string; size: number; bold?: boolean; colour: Rgb; href?: string }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; fill: Rgb }
+  | { kind: "image"; x: number; y: number; width: number; height: number };
+
+export type CardLayout = { width: number; height: number; shapes: CardShape[]; image: CardImage | null };
@@ -0,0 +1,86 @@
+// src/lib/fx/index.ts
+// Offline exchange rates: one dated table of rates against a base currency. The
+// bundled rates.json is a sample; point FX_RATES_FILE at your own copy to keep it current.
+import { readFile } from "node:fs/promises";
+import type { ConvertedPrice, PriceEstimate } from "@/lib/schema";
+import bundledRates from "./rates.json";
+
+/** `rates[X]` is how many X one unit of `base` buys. */
+export type FxTable = { base: string; date: string; rates: Record<string, number> };
+
+/** Thrown when FX_RATES_FILE is unreadable or malformed. */
+export class FxConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FxConfigError";
+  }
+}
+
+let table: Promise<FxTable> | undefined;
+
+/** The app-wide rate table from FX_RATES_FILE, else the bundled rates. Loaded once. */
+export function getFxTable(): Promise<FxTable> {
+  table ??= loadFxTable(process.env.FX_RATES_FILE).catch((err) => {
+    // Let a fixed file be picked up on the next request
+    table = undefined;
+    throw err;
+  });
+  return table;
+}
+
+export async function loadFxTable(file?: string): Promise<FxTable> {
+  if (!file) return parseFxTable(bundledRates, "bundled rates");
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf8");
+  } catch (err) {
+    throw new FxConfigError(`FX_RATES_FILE ${file}: ${err instanceof Error ? err.message : "unreadable"}`);
+  }
+  try {
+    return parseFxTable(JSON.parse(raw), file);
+  } catch (err) {
+    if (err instanceof FxConfigError) throw err;
+    throw new FxConfigError(`FX_RATES_FILE ${file}: not valid JSON`);
+  }
+}
+
+/** `{ base, date, rates }` with ISO 4217 codes, a YYYY-MM-DD date and positive rates. */
+export function parseFxTable(json: unknown, label: string): FxTable {
+  const fail = (message: string): never => {
+    throw new FxConfigError(`${label}: ${message}`);
+  };
+  if (typeof json !== "object" || json === null) return fail("expected an object");
+  const { base, date, rates } = json as Record<string, unknown>;
+  if (typeof base !== "string" || !/^[A-Z]{3}$/.test(base)) fail("base must be an ISO 4217 code");
+  if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) fail("date must be YYYY-MM-DD");
+  if (typeof rates !== "object" || rates === null) return fail("rates must be an object");
+
+  const out: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(rates)) {
+    if (!/^[A-Z]{3}$/.test(code)) fail(`"${code}" is not an ISO 4217 code`);
+    if (typeof rate !== "number" || !(rate > 0)) fail(`rate for ${code} must be a positive number`);
+    out[code] = rate as number;
+  }
+  out[base as string] = 1;
+  return { base: base as string, date: date as string, rates: out };
+}
+
+/** Units of `to` per unit of `from`, or null when either currency is missing from the table. */
+export function fxRate(fx: FxTable, from: string, to: string): number | null {
+  if (from === to) return 1;
+  const a = fx.rates[from];
+  const b = fx.rates[to];
+  return a && b ? b / a : null;
+}
+
+export function hasCurrency(fx: FxTable, currency: string): boolean {
+  return currency in fx.rates;
+}
+
+/** The estimate's low/high in `to`; null when there is no rate for the pair. */
+export function convertPrice(pe: PriceEstimate, to: string, fx: FxTable): ConvertedPrice | null {
+  const rate = fxRate(fx, pe.currency, to);
+  if (rate == null) return null;
+  const convert = (n: number | null) => (n == null ? null : Math.round(n * rate * 100) / 100);
+  return { currency: to, low: convert(pe.low), high: convert(pe.high), rate: Number(rate.toPrecision(6)), rateDate: fx.date };
+}
@@ -0,0 +1,48 @@
+// src/lib/guard/budget.ts
+// A daily cap on estimated provider spend. Each request is charged a fixed
+// estimate up front; the total resets at midnight UTC.
+import { jsonFile } from "@/lib/store/json-file";
+
+/** `retryAfter` is seconds until the budget resets (0 when `ok`). */
+export type ChargeResult = { ok: boolean; spentUsd: number; limitUsd: number; retryAfter: number };
+
+export interface SpendBudget {
+  /** Add `usd` to today's spend unless that would go over the limit. */
+  charge(usd: number): Promise<ChargeResult>;
+  status(): Promise<{ day: string; spentUsd: number; limitUsd: number }>;
+}
+
+type BudgetFile = { day: string; spentUsd: number };
+
+export function createJsonSpendBudget(file: string, limitUsd: number, now: () => Date = () => new Date()): SpendBudget {
+  const store = jsonFile<BudgetFile>(file, () => ({ day: "", spentUsd: 0 }));
+
+  return {
+    charge(usd) {
+      return store.update((data) => {
+        const t = now();
+        const day = t.toISOString().slice(0, 10);
+        if (data.day !== day) {
+          data.day = day;
+          data.spentUsd = 0;
+        }
+        if (data.spentUsd + usd > limitUsd) {
+          return { ok: false, spentUsd: data.spentUsd, limitUsd, retryAfter: secondsToMidnight(t) };
+        }
+        data.spentUsd = Math.round((data.spentUsd + usd) * 1e6) / 1e6;
+        return { ok: true, spentUsd: data.spentUsd, limitUsd, retryAfter: 0 };
+      });
+    },
+
+    async status() {
+      const data = await store.read();
+      const day = now().toISOString().slice(0, 10);
+      return { day, spentUsd: data.day === day ? data.spentUsd : 0, limitUsd };
+    },
+  };
+}
+
+function secondsToMidnight(t: Date): number {
+  const midnight = Date.UTC(t.getUTCFullYear(), t.getUTCMonth(), t.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((midnight - t.getTime()) / 1000));
+}
@@ -0,0 +1,86 @@
+// src/lib/guard/image.ts
+// Server-side checks on uploaded photos: the declared type, the bytes actually
+// sent, the size, and a downscale so oversized photos don't cost vision tokens.
+import { Buffer } from "node:buffer";
+import sharp from "sharp";
+import { ApiError } from "@/lib/errors";
+
+/** What the vision models accept. */
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+export type ImageType = (typeof IMAGE_TYPES)[number];
+
+/** Declared types browsers and phones send for the same formats. */
+const TYPE_ALIASES: Record<string, ImageType> = { "image/jpg": "image/jpeg", "image/pjpeg": "image/jpeg" };
+
+export type CheckedImage = { mimeType: ImageType; data: Buffer };
+
+/** The format the bytes are in, from their signature; null for anything else. */
+export function sniffImage(buf: Buffer): ImageType | null {
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return "image/jpeg";
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buf.length >= 12 && buf.toString("latin1", 0, 4) === "RIFF" && buf.toString("latin1", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (buf.length >= 6 && /^GIF8[79]a$/.test(buf.toString("latin1", 0, 6))) return "image/gif";
+  return null;
+}
+
+/**
+ * Read an uploaded file and check it is a supported image of at most
+ * `maxBytes`. A declared type must agree with the bytes; a missing or generic
+ * one (application/octet-stream) is taken from the bytes.
+ */
+export async function checkImage(file: File, maxBytes: number): Promise<CheckedImage> {
+  const name = file.name || "image";
+  if (file.size > maxBytes) {
+    throw new ApiError("PAYLOAD_TOO_LARGE", `${name} is ${formatBytes(file.size)}; the limit is ${formatBytes(maxBytes)} per image`);
+  }
+  const type = file.type.toLowerCase();
+  // Nothing, or nothing useful, declared: go by the bytes alone
+  const declared: string = type === "application/octet-stream" ? "" : (TYPE_ALIASES[type] ?? type);
+  if (declared && !IMAGE_TYPES.some((t) => t === declared)) {
+    throw new ApiError("UNSUPPORTED_MEDIA", `${name} is ${declared}; expected one of ${IMAGE_TYPES.join(", ")}`);
+  }
+  const data = Buffer.from(await file.arrayBuffer());
+  const actual = sniffImage(data);
+  if (!actual) {
+    throw new ApiError("UNSUPPORTED_MEDIA", `${name} is not a JPEG, PNG, WebP or GIF image`);
+  }
+  if (declared && declared !== actual) {
+    throw new ApiError("UNSUPPORTED_MEDIA", `${name} is declared as ${declared} but contains ${actual}`);
+  }
+  return { mimeType: actual, data };
+}
+
+/**
+ * Shrink a photo whose longer edge is over `maxEdge` pixels, re-encoded as JPEG
+ * and turned upright from its EXIF orientation. Photos already small enough
+ * (and GIFs, which may be animated) come back as they are, so their cache keys
+ * don't change. Unreadable images are rejected.
+ */
+export async function downscaleImage(image: CheckedImage, maxEdge: number): Promise<CheckedImage> {
+  if (image.mimeType === "image/gif") return image;
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(image.data).metadata();
+  } catch {
+    throw new ApiError("UNSUPPORTED_MEDIA", "The image could not be decoded");
+  }
+  // EXIF orientations 5–8 swap width and height
+  const [w, h] = (meta.orientation ?? 1) >= 5 ? [meta.height, meta.width] : [meta.width, meta.height];
+  if (!w || !h || Math.max(w, h) <= maxEdge) return image;
+
+  const data = await sharp(image.data)
+    .rotate()
+    .resize({ width: maxEdge, height: maxEdge, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+  return { mimeType: "image/jpeg", data };
+}
+
+/** "3.2 MB", or KB below a megabyte. */
+export function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
@@ -0,0 +1,184 @@
+// src/lib/guard/index.ts
+// Abuse protection for the routes that spend provider credit: upload limits,
+// per-caller rate limits and a daily spend budget. Each check throws an
+// ApiError with a code for the route to return.
+import { createHash } from "node:crypto";
+import { ApiError } from "@/lib/errors";
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonSpendBudget, type SpendBudget } from "./budget";
+import { checkImage, downscaleImage, formatBytes, type CheckedImage } from "./image";
+import { createJsonRateLimitStore, createMemoryRateLimitStore, type BucketLimit, type RateLimitStore } from "./rate-limit";
+
+export * from "./budget";
+export * from "./image";
+export * from "./rate-limit";
+
+const MB = 1024 * 1024;
+
+export type GuardConfig = {
+  /** Per image (MAX_IMAGE_BYTES, default 10 MB). */
+  maxImageBytes: number;
+  /** Whole request body (MAX_UPLOAD_BYTES, default 40 MB). */
+  maxUploadBytes: number;
+  /** Longer edge photos are shrunk to (IMAGE_MAX_EDGE, default 1600 px). */
+  maxImageEdge: number;
+  /**
+   * Proxies in front of the app that append to `X-Forwarded-For` (TRUSTED_PROXIES).
+   * Null when unset, which production refuses while the IP limit is on.
+   */
+  trustedProxies: number | null;
+  /** Per client IP; null when RATE_LIMIT_PER_MINUTE=0. */
+  ipLimit: BucketLimit | null;
+  /** Per API key; null when API_KEY_RATE_LIMIT_PER_MINUTE=0. */
+  keyLimit: BucketLimit | null;
+  /** API_KEYS, comma-separated. Only these keys get their own bucket. */
+  apiKeys: string[];
+  /** DAILY_BUDGET_USD; null for no budget. */
+  dailyBudgetUsd: number | null;
+  /** Estimated spend charged per request (COST_PER_LABEL_USD, COST_PER_LIST_USD, COST_PER_PAIRING_USD). */
+  costUsd: { label: number; list: number; pairing: number };
+};
+
+export function guardConfig(env: NodeJS.ProcessEnv = process.env): GuardConfig {
+  return {
+    maxImageBytes: num(env.MAX_IMAGE_BYTES, 10 * MB),
+    maxUploadBytes: num(env.MAX_UPLOAD_BYTES, 40 * MB),
+    maxImageEdge: num(env.IMAGE_MAX_EDGE, 1600),
+    trustedProxies: env.TRUSTED_PROXIES?.trim() ? Math.floor(num(env.TRUSTED_PROXIES, 0)) : null,
+    ipLimit: bucketLimit(env.RATE_LIMIT_PER_MINUTE, env.RATE_LIMIT_BURST, 6, 10),
+    keyLimit: bucketLimit(env.API_KEY_RATE_LIMIT_PER_MINUTE, env.API_KEY_RATE_LIMIT_BURST, 60, 30),
+    apiKeys: (env.API_KEYS ?? "")
+      .split(",")
+      .map((k) => k.trim())
+      .filter(Boolean),
+    dailyBudgetUsd: num(env.DAILY_BUDGET_USD, 0) || null,
+    costUsd: {
+      label: num(env.COST_PER_LABEL_USD, 0.02),
+      list: num(env.COST_PER_LIST_USD, 0.1),
+      pairing: num(env.COST_PER_PAIRING_USD, 0.01),
+    },
+  };
+}
+
+let limits: RateLimitStore | null = null;
+let budget: SpendBudget | null = null;
+
+/** RATE_LIMIT_STORE=file shares buckets across processes in RATE_LIMIT_FILE (default <DATA_DIR>/rate-limits.json). */
+export function getRateLimitStore(): RateLimitStore {
+  limits ??=
+    process.env.RATE_LIMIT_STORE === "file"
+      ? createJsonRateLimitStore(process.env.RATE_LIMIT_FILE || dataPath("rate-limits.json"))
+      : createMemoryRateLimitStore();
+  return limits;
+}
+
+/** Today's spend, in BUDGET_FILE (default <DATA_DIR>/budget.json); null when there is no budget. */
+export function getSpendBudget(config: GuardConfig = guardConfig()): SpendBudget | null {
+  if (config.dailyBudgetUsd == null) return null;
+  budget ??= createJsonSpendBudget(process.env.BUDGET_FILE || dataPath("budget.json"), config.dailyBudgetUsd);
+  return budget;
+}
+
+/**
+ * Checks that don't need the body: its declared size, the API key if one was
+ * sent, and the caller's rate limit. A key from API_KEYS is limited on its own;
+ * everyone else by IP, so made-up keys can't dodge the IP limit. Read the body
+ * with `readBody`, which holds it to the same cap when no size was declared.
+ */
+export async function limitRequest(req: Request, config: GuardConfig = guardConfig()): Promise<void> {
+  const length = Number(req.headers.get("content-length"));
+  if (length > config.maxUploadBytes) {
+    throw new ApiError("PAYLOAD_TOO_LARGE", `Request is ${formatBytes(length)}; the limit is ${formatBytes(config.maxUploadBytes)}`);
+  }
+
+  const key = apiKeyOf(req);
+  if (key && !config.apiKeys.includes(key)) {
+    throw new ApiError("INVALID_API_KEY", "Unknown API key");
+  }
+  const [bucket, limit] = key
+    ? [`key:${createHash("sha256").update(key).digest("hex").slice(0, 16)}`, config.keyLimit]
+    : [`ip:${clientIp(req, config.trustedProxies ?? 0)}`, config.ipLimit];
+  if (!limit) return;
+  // Guessing would either trust a spoofable header or put every caller in one bucket
+  if (!key && config.trustedProxies == null && process.env.NODE_ENV === "production") {
+    throw new ApiError("CONFIG", "TRUSTED_PROXIES is not set; set it to the number of proxies in front of the app (0 for none)");
+  }
+
+  const taken = await getRateLimitStore().take(bucket, limit);
+  if (!taken.ok) {
+    throw new ApiError("RATE_LIMITED", `Too many requests; try again in ${taken.retryAfter}s`, { retryAfter: taken.retryAfter });
+  }
+}
+
+/**
+ * The request body, buffered up to MAX_UPLOAD_BYTES. A chunked upload declares
+ * no length for `limitRequest` to check, so the cap is enforced while reading.
+ * The result parses like the request would (`formData()`, `json()`).
+ */
+export async function readBody(req: Request, config: GuardConfig = guardConfig()): Promise<Response> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (req.body) {
+    const reader = req.body.getReader();
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      size += r.value.byteLength;
+      if (size > config.maxUploadBytes) {
+        await reader.cancel();
+        throw new ApiError("PAYLOAD_TOO_LARGE", `Request is over the limit of ${formatBytes(config.maxUploadBytes)}`);
+      }
+      chunks.push(r.value);
+    }
+  }
+  const type = req.headers.get("content-type");
+  return new Response(Buffer.concat(chunks), { headers: type ? { "content-type": type } : {} });
+}
+
+/** Charge the daily budget, refusing once it is spent. */
+export async function chargeBudget(usd: number, config: GuardConfig = guardConfig()): Promise<void> {
+  const charged = await getSpendBudget(config)?.charge(usd);
+  if (charged && !charged.ok) {
+    throw new ApiError("BUDGET_EXCEEDED", "Today's analysis budget is used up; try again tomorrow", { retryAfter: charged.retryAfter });
+  }
+}
+
+/** Check every uploaded photo and shrink the large ones. */
+export async function readImages(files: File[], config: GuardConfig = guardConfig()): Promise<CheckedImage[]> {
+  const checked = await Promise.all(files.map((f) => checkImage(f, config.maxImageBytes)));
+  return Promise.all(checked.map((image) => downscaleImage(image, config.maxImageEdge)));
+}
+
+/** `x-api-key`, or an `Authorization: Bearer` token. */
+function apiKeyOf(req: Request): string | null {
+  const header = req.headers.get("x-api-key")?.trim();
+  if (header) return header;
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  return bearer ? bearer[1].trim() : null;
+}
+
+/**
+ * The caller's address as seen by the outermost of `trustedProxies` proxies:
+ * each appends the address it was reached from, so that is the hop that many
+ * from the end of `x-forwarded-for`. Earlier hops come from the client and are
+ * ignored. With no trusted proxies the headers can't be believed at all, so
+ * every caller shares one bucket.
+ */
+export function clientIp(req: Request, trustedProxies: number): string {
+  if (trustedProxies < 1) return "unknown";
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedProxies] || req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+function num(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/** `perMinute` 0 turns the limit off. */
+function bucketLimit(perMinute: string | undefined, burst: string | undefined, defaultRate: number, defaultBurst: number): BucketLimit | null {
+  const rate = num(perMinute, defaultRate);
+  if (rate === 0) return null;
+  return { capacity: Math.max(1, num(burst, defaultBurst)), refillPerSecond: rate / 60 };
+}
@@ -0,0 +1,70 @@
+// src/lib/guard/rate-limit.ts
+// Token buckets: each caller holds up to `capacity` tokens, refilled at a steady
+// rate; a request takes one and is refused while the bucket is empty.
+import { jsonFile } from "@/lib/store/json-file";
+
+export type BucketLimit = { capacity: number; refillPerSecond: number };
+
+/** `retryAfter` is whole seconds until a token is free again (0 when `ok`). */
+export type TakeResult = { ok: boolean; remaining: number; retryAfter: number };
+
+export interface RateLimitStore {
+  take(key: string, limit: BucketLimit): Promise<TakeResult>;
+}
+
+type Bucket = { tokens: number; updatedAt: number };
+
+/** Buckets kept in memory before full (idle) ones are dropped. */
+const MAX_BUCKETS = 10_000;
+
+/** Refill `bucket` up to `now` and take a token if there is one. A missing bucket starts full. */
+export function takeToken(bucket: Bucket | undefined, limit: BucketLimit, now: number): { bucket: Bucket; result: TakeResult } {
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  const tokens = Math.min(limit.capacity, bucket ? bucket.tokens + elapsed * limit.refillPerSecond : limit.capacity);
+  if (tokens >= 1) {
+    return { bucket: { tokens: tokens - 1, updatedAt: now }, result: { ok: true, remaining: Math.floor(tokens - 1), retryAfter: 0 } };
+  }
+  const retryAfter = Math.ceil((1 - tokens) / limit.refillPerSecond);
+  return { bucket: { tokens, updatedAt: now }, result: { ok: false, remaining: 0, retryAfter } };
+}
+
+/** Per process; fine for one server, forgets on restart. */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  return {
+    async take(key, limit) {
+      const t = now();
+      const { bucket, result } = takeToken(buckets.get(key), limit, t);
+      buckets.set(key, bucket);
+      if (buckets.size > MAX_BUCKETS) prune(buckets, limit, t);
+      return result;
+    },
+  };
+}
+
+/** Shared by every process using the file, and kept across restarts. */
+export function createJsonRateLimitStore(file: string, now: () => number = Date.now): RateLimitStore {
+  const store = jsonFile<{ buckets: Record<string, Bucket> }>(file, () => ({ buckets: {} }));
+  return {
+    take(key, limit) {
+      return store.update((data) => {
+        const t = now();
+        const { bucket, result } = takeToken(data.buckets[key], limit, t);
+        data.buckets[key] = bucket;
+        const map = new Map(Object.entries(data.buckets));
+        if (map.size > MAX_BUCKETS) {
+          prune(map, limit, t);
+          data.buckets = Object.fromEntries(map);
+        }
+        return result;
+      });
+    },
+  };
+}
+
+/** Drop buckets that have refilled completely: they are the same as no bucket. */
+function prune(buckets: Map<string, Bucket>, limit: BucketLimit, now: number) {
+  for (const [key, b] of buckets) {
+    if (b.tokens + ((now - b.updatedAt) / 1000) * limit.refillPerSecond >= limit.capacity) buckets.delete(key);
+  }
+}
@@ -0,0 +1,53 @@
+// src/lib/identity/index.ts
+import type { FieldIssue, ParseResult } from "@/lib/schema";
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonIdentityStore } from "./json-store";
+import { normalizeName } from "./normalize";
+import type { AliasTable, IdentityStore } from "./types";
+
+export * from "./types";
+export { createJsonIdentityStore } from "./json-store";
+export { normalizeName, producerCore, similarity, wineCore } from "./normalize";
+export { applyAliases, matchIdentity } from "./resolver";
+
+let store: IdentityStore | null = null;
+
+/** Every wine seen and the alias table, in IDENTITY_FILE (default <DATA_DIR>/identity.json). */
+export function getIdentityStore(): IdentityStore {
+  store ??= createJsonIdentityStore(process.env.IDENTITY_FILE || dataPath("identity.json"));
+  return store;
+}
+
+const ALIAS_FIELDS = ["producers", "wines", "appellations"] as const;
+
+/** Validate a PUT body: `{ producers?, wines?, appellations? }`, each a map of spelling → canonical name. */
+export function parseAliasTable(body: unknown): ParseResult<AliasTable> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+  const b = body as Record<string, unknown>;
+  const issues: FieldIssue[] = [];
+  const out: AliasTable = { producers: {}, wines: {}, appellations: {} };
+
+  for (const field of ALIAS_FIELDS) {
+    const table = b[field];
+    if (table === undefined) continue;
+    if (typeof table !== "object" || table === null || Array.isArray(table)) {
+      issues.push({ path: field, message: "expected an object of spelling → canonical name" });
+      continue;
+    }
+    for (const [from, to] of Object.entries(table)) {
+      if (typeof to !== "string" || !to.trim()) {
+        issues.push({ path: `${field}.${from}`, message: "expected a non-empty string" });
+      } else if (!normalizeName(from)) {
+        issues.push({ path: `${field}.${from}`, message: "alias has no letters or digits" });
+      } else {
+        out[field][from] = to.trim();
+      }
+    }
+  }
+  for (const key of Object.keys(b)) {
+    if (!(ALIAS_FIELDS as readonly string[]).includes(key)) issues.push({ path: key, message: "unknown field" });
+  }
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: out };
+}
@@ -0,0 +1,59 @@
+// src/lib/identity/json-store.ts
+import { jsonFile } from "@/lib/store/json-file";
+import { EMPTY_ALIASES, matchIdentity, variantOf } from "./resolver";
+import type { AliasTable, IdentityStore, WineIdentity } from "./types";
+
+type IdentityFile = { aliases: AliasTable; wines: WineIdentity[] };
+
+/** Spellings kept per wine; enough to see how a name drifts without growing forever. */
+const MAX_VARIANTS = 50;
+
+export function createJsonIdentityStore(file: string): IdentityStore {
+  const store = jsonFile<IdentityFile>(file, () => ({ aliases: EMPTY_ALIASES, wines: [] }));
+
+  return {
+    async list() {
+      return (await store.read()).wines;
+    },
+
+    async get(wineId) {
+      return (await store.read()).wines.find((w) => w.wineId === wineId) ?? null;
+    },
+
+    async aliases() {
+      return { ...EMPTY_ALIASES, ...(await store.read()).aliases };
+    },
+
+    setAliases(aliases) {
+      return store.update((data) => {
+        data.aliases = aliases;
+      });
+    },
+
+    addAliases(entries) {
+      return store.update((data) => {
+        const aliases = { ...EMPTY_ALIASES, ...data.aliases };
+        for (const { field, from, to } of entries) aliases[field] = { ...aliases[field], [from]: to };
+        data.aliases = aliases;
+        return aliases;
+      });
+    },
+
+    async resolve(label, opts = {}) {
+      const settle = (data: IdentityFile) => {
+        const found = matchIdentity(label, data.wines, { ...EMPTY_ALIASES, ...data.aliases });
+        const { identity } = found;
+        if (opts.record && identity) {
+          if (found.match === "new") {
+            data.wines.push(identity);
+          } else if (!identity.variants.includes(variantOf(label)) && identity.variants.length < MAX_VARIANTS) {
+            identity.variants.push(variantOf(label));
+          }
+        }
+        return { wineId: identity?.wineId ?? null, match: found.match, score: found.score, label: found.label };
+      };
+      // Read-modify-write in one step so two labels of a new wine don't register it twice
+      return opts.record ? store.update(settle) : settle(await store.read());
+    },
+  };
+}
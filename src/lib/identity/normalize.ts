@@ -0,0 +1,120 @@
+// src/lib/identity/normalize.ts
+// Name normalization for matching wines across label spellings: accents folded,
+// punctuation dropped, common abbreviations expanded ("Ch." → chateau, "Dom." → domaine).
+
+const ABBREVIATIONS: Record<string, string> = {
+  ch: "chateau",
+  chat: "chateau",
+  chx: "chateaux",
+  dom: "domaine",
+  dne: "domaine",
+  st: "saint",
+  ste: "sainte",
+  bod: "bodega",
+  bgas: "bodegas",
+  wg: "weingut",
+  wgt: "weingut",
+  az: "azienda",
+  agr: "agricola",
+  cant: "cantina",
+  fatt: "fattoria",
+  ten: "tenuta",
+  vv: "vieilles vignes",
+  "1er": "premier",
+  gc: "grand cru",
+  ht: "haut",
+  mtn: "mountain",
+};
+
+/** Words that say what kind of producer it is, not which one. */
+const PRODUCER_NOISE = new Set([
+  "chateau",
+  "chateaux",
+  "domaine",
+  "domaines",
+  "bodega",
+  "bodegas",
+  "weingut",
+  "azienda",
+  "agricola",
+  "cantina",
+  "cantine",
+  "fattoria",
+  "tenuta",
+  "quinta",
+  "clos",
+  "maison",
+  "estate",
+  "estates",
+  "winery",
+  "wines",
+  "vineyards",
+  "cellars",
+  "the",
+  "de",
+  "du",
+  "des",
+  "la",
+  "le",
+  "les",
+  "di",
+  "del",
+]);
+
+/** Classifications often printed after the cuvée ("La Tâche Grand Cru"); they don't tell two wines apart. */
+const CLASSIFICATIONS = /(?:^| )(?:grand cru classe|grand cru|premier cru classe|premier cru|cru classe|appellation(?: [a-z]+)* (?:controlee|protegee)|aoc|aop|docg|doc)(?= |$)/g;
+
+/** Lower-case, accents folded, punctuation dropped, abbreviations expanded. */
+export function normalizeName(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .map((w) => ABBREVIATIONS[w] ?? w)
+    .join(" ");
+}
+
+/** The distinctive part of a producer name: "Château Musar" and "Musar" both give "musar". */
+export function producerCore(producer: string): string {
+  const words = normalizeName(producer).split(" ").filter(Boolean);
+  const core = words.filter((w) => !PRODUCER_NOISE.has(w));
+  return (core.length > 0 ? core : words).join(" ");
+}
+
+/**
+ * The cuvée on its own: the wine name without the producer or appellation the
+ * model often repeats in it ("Château Musar Bekaa Valley Red" → "red"), and
+ * without classifications ("La Tâche Grand Cru" → "la tache"). Empty
+ * when the wine is just the producer's name, as for most grands vins.
+ */
+export function wineCore(wine: string, producer: string, appellation: string): string {
+  let w = ` ${normalizeName(wine).replace(CLASSIFICATIONS, " ")} `;
+  for (const part of [normalizeName(producer), producerCore(producer), normalizeName(appellation)]) {
+    if (part) w = w.replace(` ${part} `, " ");
+  }
+  return w.trim().replace(/\s+/g, " ");
+}
+
+/** Dice coefficient over character bigrams: 1 for equal strings, 0 for nothing in common. */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const grams = (s: string) => {
+    const out = new Map<string, number>();
+    for (let i = 0; i < s.length - 1; i++) out.set(s.slice(i, i + 2), (out.get(s.slice(i, i + 2)) ?? 0) + 1);
+    return out;
+  };
+  const ga = grams(a);
+  const gb = grams(b);
+  let shared = 0;
+  for (const [g, n] of ga) shared += Math.min(n, gb.get(g) ?? 0);
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+}
+
+export function slug(s: string): string {
+  return s.replace(/\s+/g, "-");
+}
@@ -0,0 +1,112 @@
+// src/lib/identity/resolver.ts
+// Ties a recognized label to a wine seen before: aliases first, then an exact
+// match on the normalized names, then the closest fuzzy match above the thresholds.
+import type { RecognizedLabel } from "@/lib/schema";
+import { normalizeName, producerCore, similarity, slug, wineCore } from "./normalize";
+import type { AliasTable, IdentityMatch, WineIdentity } from "./types";
+
+/** Minimum bigram similarity of the producer and of the cuvée for a fuzzy match. */
+const PRODUCER_THRESHOLD = 0.85;
+const WINE_THRESHOLD = 0.8;
+
+export type IdentityCandidate = {
+  match: IdentityMatch;
+  score: number;
+  /** The matched wine, or the one to register when `match` is "new". */
+  identity: WineIdentity | null;
+  label: RecognizedLabel;
+};
+
+export const EMPTY_ALIASES: AliasTable = { producers: {}, wines: {}, appellations: {} };
+
+/** Replace each field with its alias target when the table lists its spelling. */
+export function applyAliases(label: RecognizedLabel, aliases: AliasTable): RecognizedLabel {
+  const lookup = (table: Record<string, string>, value: string) => {
+    const key = normalizeName(value);
+    if (!key) return value;
+    for (const [from, to] of Object.entries(table)) if (normalizeName(from) === key) return to;
+    return value;
+  };
+  return {
+    ...label,
+    producer: lookup(aliases.producers, label.producer),
+    wine: lookup(aliases.wines, label.wine),
+    appellation: lookup(aliases.appellations, label.appellation),
+  };
+}
+
+export function identityKeys(label: RecognizedLabel): WineIdentity["keys"] {
+  return {
+    producer: producerCore(label.producer),
+    wine: wineCore(label.wine, label.producer, label.appellation),
+  };
+}
+
+/** Find `label` among `wines`, or describe the new identity it would get. Pure: nothing is stored. */
+export function matchIdentity(
+  label: RecognizedLabel,
+  wines: WineIdentity[],
+  aliases: AliasTable,
+  now = new Date(),
+): IdentityCandidate {
+  const aliased = applyAliases(label, aliases);
+  if (!aliased.producer.trim() && !aliased.wine.trim()) {
+    return { match: "none", score: 0, identity: null, label: aliased };
+  }
+  const keys = identityKeys(aliased);
+
+  let best: { identity: WineIdentity; score: number } | null = null;
+  for (const w of wines) {
+    if (w.keys.producer === keys.producer && w.keys.wine === keys.wine) {
+      best = { identity: w, score: 1 };
+      break;
+    }
+    const p = similarity(w.keys.producer, keys.producer);
+    const c = similarity(w.keys.wine, keys.wine);
+    if (p < PRODUCER_THRESHOLD || c < WINE_THRESHOLD) continue;
+    const score = (p + c) / 2;
+    if (!best || score > best.score) best = { identity: w, score };
+  }
+
+  if (best) {
+    const { identity, score } = best;
+    return {
+      match: score === 1 ? "exact" : "fuzzy",
+      score,
+      identity,
+      // Aliases added since the wine was first seen rename it too
+      label: applyAliases(
+        {
+          ...aliased,
+          producer: identity.producer,
+          wine: identity.wine,
+          appellation: aliased.appellation || identity.appellation,
+        },
+        aliases
+      ),
+    };
+  }
+
+  const base = [normalizeName(aliased.producer), keys.wine].filter(Boolean).map(slug).join("--");
+  let wineId = base;
+  for (let n = 2; wines.some((w) => w.wineId === wineId); n++) wineId = `${base}-${n}`;
+  return {
+    match: "new",
+    score: 1,
+    identity: {
+      wineId,
+      producer: aliased.producer.trim(),
+      wine: aliased.wine.trim(),
+      appellation: aliased.appellation.trim(),
+      keys,
+      variants: [variantOf(label)],
+      firstSeen: now.toISOString(),
+    },
+    label: aliased,
+  };
+}
+
+/** How a spelling is remembered in `variants`. */
+export function variantOf(label: RecognizedLabel): string {
+  return `${label.producer.trim()} | ${label.wine.trim()}`;
+}
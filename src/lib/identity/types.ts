@@ -0,0 +1,53 @@
+// src/lib/identity/types.ts
+import type { RecognizedLabel } from "@/lib/schema";
+
+/** A wine (producer + cuvée, any vintage) as first seen, with the spellings seen since. */
+export type WineIdentity = {
+  /** Stable slug from the first-seen names, e.g. "chateau-musar--red". */
+  wineId: string;
+  producer: string;
+  wine: string;
+  appellation: string;
+  /** Normalized names the matcher compares against. */
+  keys: { producer: string; wine: string };
+  /** Every raw "producer | wine" spelling resolved to this wine. */
+  variants: string[];
+  firstSeen: string;
+};
+
+/**
+ * User-maintained spellings → canonical name, per field. Keys and values are
+ * written as displayed ("Ch. Musar": "Château Musar"); matching ignores case,
+ * accents and punctuation.
+ */
+export type AliasTable = {
+  producers: Record<string, string>;
+  wines: Record<string, string>;
+  appellations: Record<string, string>;
+};
+
+/** One spelling → canonical name entry of the alias table. */
+export type AliasEntry = { field: keyof AliasTable; from: string; to: string };
+
+/** How a label was tied to its identity; "none" when it names neither producer nor wine. */
+export type IdentityMatch = "exact" | "fuzzy" | "new" | "none";
+
+export type IdentityResolution = {
+  wineId: string | null;
+  match: IdentityMatch;
+  /** Similarity to the matched wine, 0–1 (1 for exact and new). */
+  score: number;
+  /** The label with producer, wine and appellation in their canonical spelling. */
+  label: RecognizedLabel;
+};
+
+export interface IdentityStore {
+  list(): Promise<WineIdentity[]>;
+  get(wineId: string): Promise<WineIdentity | null>;
+  aliases(): Promise<AliasTable>;
+  setAliases(aliases: AliasTable): Promise<void>;
+  /** Add or overwrite individual entries, leaving the rest of the table as it is. */
+  addAliases(entries: AliasEntry[]): Promise<AliasTable>;
+  /** Resolve a label; with `record`, unseen wines are registered and new spellings remembered. */
+  resolve(label: RecognizedLabel, opts?: { record?: boolean }): Promise<IdentityResolution>;
+}
@@ -0,0 +1,34 @@
+// src/lib/llm/fixture.ts
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { LlmProvider } from "./types";
+import groundedFixture from "./fixtures/grounded.json";
+import pairingFixture from "./fixtures/pairing.json";
+import visionFixture from "./fixtures/vision.json";
+import wineListFixture from "./fixtures/wine-list.json";
+
+const BUNDLED: Record<string, unknown> = {
+  vision: visionFixture,
+  grounded: groundedFixture,
+  "wine-list": wineListFixture,
+  pairing: pairingFixture,
+};
+
+/**
+ * Deterministic provider for tests and offline runs. Answers with `<task>.json`
+ * (`vision.json` / `grounded.json` when the request names no task) from `dir`
+ * when given, else the bundled sample responses. Prompts and images are ignored.
+ */
+export function createFixtureProvider(opts: { dir?: string } = {}): LlmProvider {
+  async function load(task: string) {
+    if (opts.dir) return readFile(path.join(opts.dir, `${task}.json`), "utf8");
+    if (!(task in BUNDLED)) throw new Error(`No bundled fixture response for task "${task}"`);
+    return JSON.stringify(BUNDLED[task]);
+  }
+
+  return {
+    name: "fixture",
+    vision: async (req) => load(req.task ?? "vision"),
+    complete: async (req) => load(req.task ?? "grounded"),
+  };
+}
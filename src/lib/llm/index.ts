@@ -0,0 +1,70 @@
+// src/lib/llm/index.ts
+import { retryOptions, withRetry, type RetryOptions } from "@/lib/upstream";
+import { createFixtureProvider } from "./fixture";
+import { createOpenAICompatibleProvider, createOpenAIProvider } from "./openai";
+import { LlmConfigError, type LlmProvider, type LlmStage, type StageConfig } from "./types";
+
+export * from "./types";
+export { createFixtureProvider } from "./fixture";
+export { createOpenAICompatibleProvider, createOpenAIProvider } from "./openai";
+
+const DEFAULT_MODELS: Record<LlmStage, string> = {
+  vision: "gpt-4o-mini",
+  grounding: "gpt-4.1",
+  pairing: "gpt-4o-mini",
+};
+
+/** Env prefix per stage, e.g. LLM_VISION_PROVIDER / LLM_GROUNDING_MODEL. */
+const STAGE_ENV: Record<LlmStage, string> = {
+  vision: "LLM_VISION",
+  grounding: "LLM_GROUNDING",
+  pairing: "LLM_PAIRING",
+};
+
+/**
+ * Resolve provider + model for a pipeline stage from env:
+ *
+ *   LLM_PROVIDER / LLM_<STAGE>_PROVIDER   openai (default) | openai-compatible | fixture
+ *   LLM_<STAGE>_MODEL                     defaults to gpt-4o-mini (vision, pairing) / gpt-4.1 (grounding)
+ *   LLM_BASE_URL, LLM_API_KEY             for openai-compatible
+ *   LLM_FIXTURE_DIR                       for fixture (optional)
+ *   LLM_TIMEOUT_MS                        per-request timeout for the HTTP providers (default 60000)
+ *
+ * The HTTP providers retry transient failures (see retryOptions).
+ */
+export function resolveStage(stage: LlmStage, env: NodeJS.ProcessEnv = process.env): StageConfig {
+  const prefix = STAGE_ENV[stage];
+  const kind = env[`${prefix}_PROVIDER`] || env.LLM_PROVIDER || "openai";
+  return {
+    provider: createProvider(kind, env),
+    model: env[`${prefix}_MODEL`] || DEFAULT_MODELS[stage],
+  };
+}
+
+function createProvider(kind: string, env: NodeJS.ProcessEnv): LlmProvider {
+  const timeoutMs = Number(env.LLM_TIMEOUT_MS) || undefined;
+  switch (kind) {
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY;
+      if (!apiKey) throw new LlmConfigError("Server misconfiguration: OPENAI_API_KEY is not set");
+      return withRetries(createOpenAIProvider({ apiKey, timeoutMs }), retryOptions(env));
+    }
+    case "openai-compatible": {
+      const baseURL = env.LLM_BASE_URL;
+      if (!baseURL) throw new LlmConfigError("Server misconfiguration: LLM_BASE_URL is not set");
+      return withRetries(createOpenAICompatibleProvider({ baseURL, apiKey: env.LLM_API_KEY, timeoutMs }), retryOptions(env));
+    }
+    case "fixture":
+      return createFixtureProvider({ dir: env.LLM_FIXTURE_DIR });
+    default:
+      throw new LlmConfigError(`Server misconfiguration: unknown LLM provider "${kind}"`);
+  }
+}
+
+function withRetries(provider: LlmProvider, opts: RetryOptions): LlmProvider {
+  return {
+    name: provider.name,
+    vision: (req) => withRetry(() => provider.vision(req), opts),
+    complete: (req) => withRetry(() => provider.complete(req), opts),
+  };
+}
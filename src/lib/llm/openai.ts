@@ -0,0 +1,110 @@
+// src/lib/llm/openai.ts
+import type OpenAI from "openai";
+import { ApiError } from "@/lib/errors";
+import { parseRetryAfter, upstreamCode } from "@/lib/upstream";
+import type { CompletionRequest, LlmProvider, VisionRequest } from "./types";
+
+type OpenAIOptions = {
+  apiKey: string;
+  /** Set for OpenAI-compatible servers (Ollama, llama.cpp, vLLM…), e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  name?: string;
+  /** Per-request timeout; default 60s. */
+  timeoutMs?: number;
+};
+
+type Sdk = typeof import("openai");
+
+export function createOpenAIProvider(opts: OpenAIOptions): LlmProvider {
+  const name = opts.name ?? "openai";
+  const timeout = opts.timeoutMs ?? 60_000;
+  // Lazy so the SDK is only loaded when a request actually needs it
+  const sdk = import("openai");
+  // Retries happen a level up (see resolveStage), so the SDK's own are off
+  const client = sdk.then(({ default: OpenAI }) => new OpenAI({ apiKey: opts.apiKey, baseURL: opts.baseURL, timeout, maxRetries: 0 }));
+
+  async function call(fn: (openai: OpenAI) => Promise<string>): Promise<string> {
+    const openai = await client;
+    try {
+      return await fn(openai);
+    } catch (err) {
+      throw upstreamError(err, await sdk, name, timeout);
+    }
+  }
+
+  return {
+    name,
+
+    vision(req: VisionRequest) {
+      return call(async (openai) => {
+        const res = await openai.chat.completions.create({
+          model: req.model,
+          temperature: req.temperature ?? 0.2,
+          messages: [
+            { role: "system", content: req.system },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: req.prompt },
+                ...req.images.flatMap((img) => [
+                  ...(img.caption ? [{ type: "text" as const, text: img.caption }] : []),
+                  {
+                    type: "image_url" as const,
+                    image_url: { url: `data:${img.mimeType};base64,${img.base64}` },
+                  },
+                ]),
+              ],
+            },
+          ],
+        });
+        return res.choices?.[0]?.message?.content || "{}";
+      });
+    },
+
+    complete(req: CompletionRequest) {
+      return call(async (openai) => {
+        const res = await openai.chat.completions.create({
+          model: req.model,
+          temperature: req.temperature ?? 0.2,
+          messages: [
+            { role: "system", content: req.system },
+            { role: "user", content: req.prompt },
+          ],
+        });
+        return res.choices?.[0]?.message?.content || "{}";
+      });
+    },
+  };
+}
+
+/** Local servers usually ignore the key, but the SDK insists on one. */
+export function createOpenAICompatibleProvider(opts: { baseURL: string; apiKey?: string; timeoutMs?: number }): LlmProvider {
+  return createOpenAIProvider({
+    apiKey: opts.apiKey || "not-needed",
+    baseURL: opts.baseURL,
+    name: "openai-compatible",
+    timeoutMs: opts.timeoutMs,
+  });
+}
+
+/**
+ * Map an SDK failure onto a stable code. OpenAI sends 429 both for rate limits
+ * (transient) and for an exhausted quota (`insufficient_quota`, which waiting
+ * will not fix), so the two are told apart by the error code.
+ */
+function upstreamError(err: unknown, sdk: Sdk, name: string, timeoutMs: number): unknown {
+  if (err instanceof sdk.APIConnectionTimeoutError) {
+    return new ApiError("TIMEOUT", `${name} did not answer within ${timeoutMs / 1000}s`);
+  }
+  if (err instanceof sdk.APIConnectionError) {
+    return new ApiError("UPSTREAM_UNAVAILABLE", `Could not reach ${name}: ${err.message}`);
+  }
+  if (!(err instanceof sdk.APIError) || err.status == null) return err;
+  if (err.status === 429 && err.code === "insufficient_quota") {
+    return new ApiError("UPSTREAM_QUOTA", `${name}: ${err.message}`);
+  }
+  const code = upstreamCode(err.status);
+  if (!code) return err;
+  const retryAfter = parseRetryAfter(err.headers?.get("retry-after"));
+  return new ApiError(code, `${name}: ${err.message}`, retryAfter != null ? { retryAfter } : {});
+}
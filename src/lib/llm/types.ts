@@ -0,0 +1,36 @@
+// src/lib/llm/types.ts
+import { ApiError } from "@/lib/errors";
+
+/** `caption` is sent as text right before the image, e.g. "Image 2: back label". */
+export type LlmImage = { mimeType: string; base64: string; caption?: string };
+
+export type CompletionRequest = {
+  model: string;
+  system: string;
+  prompt: string;
+  temperature?: number;
+  /** Names the prompt (e.g. "wine-list"); fixture providers answer with `<task>.json`. */
+  task?: string;
+};
+
+export type VisionRequest = CompletionRequest & { images: LlmImage[] };
+
+/** A chat-style model backend. Both methods resolve to the raw completion text. */
+export interface LlmProvider {
+  readonly name: string;
+  vision(req: VisionRequest): Promise<string>;
+  complete(req: CompletionRequest): Promise<string>;
+}
+
+/** Pipeline stages that talk to a model; each can be pointed at its own provider/model. */
+export type LlmStage = "vision" | "grounding" | "pairing";
+
+export type StageConfig = { provider: LlmProvider; model: string };
+
+/** Thrown when env/config does not describe a usable provider. */
+export class LlmConfigError extends ApiError {
+  constructor(message: string) {
+    super("CONFIG", message);
+    this.name = "LlmConfigError";
+  }
+}
@@ -0,0 +1,59 @@
+// src/lib/notes/diff.ts
+// Where a taster's note and the model's prediction disagree. Pure, so the
+// journal can show the diff without a round trip.
+import { AROMA_TIERS, canonicalAromaList, type AromaTier } from "@/lib/aromas";
+import { STRUCTURE_LEVELS, SWEETNESS_LEVELS, type WsetField } from "@/lib/schema";
+import type { NoteAssessment } from "./types";
+
+const WSET_FIELDS: WsetField[] = ["sweetness", "acidity", "tannin", "body", "alcohol", "finishLength"];
+
+export type StructureDiff = {
+  field: WsetField;
+  yours: string;
+  model: string;
+  /** Scale steps from the model's level to yours (+1: one step higher); null when either is blank. */
+  steps: number | null;
+};
+
+export type AromaDiff = { shared: string[]; onlyYours: string[]; onlyModel: string[] };
+
+export type NoteDiff = {
+  structure: StructureDiff[];
+  nose: AromaDiff;
+  palate: AromaDiff;
+  aromas: Record<AromaTier, AromaDiff>;
+  /** Share of the structure fields both filled in that sit on the same level. */
+  agreement: number | null;
+};
+
+export function diffNote(yours: NoteAssessment, model: NoteAssessment): NoteDiff {
+  const structure = WSET_FIELDS.map((field): StructureDiff => {
+    const a = yours.tastingNotes.wsetLevel2[field];
+    const b = model.tastingNotes.wsetLevel2[field];
+    const scale: readonly string[] = field === "sweetness" ? SWEETNESS_LEVELS : STRUCTURE_LEVELS;
+    const steps = a && b ? scale.indexOf(a) - scale.indexOf(b) : null;
+    return { field, yours: a, model: b, steps };
+  });
+  const compared = structure.filter((s) => s.steps != null);
+
+  return {
+    structure,
+    nose: diffAromas(yours.tastingNotes.nose, model.tastingNotes.nose),
+    palate: diffAromas(yours.tastingNotes.palate, model.tastingNotes.palate),
+    aromas: Object.fromEntries(
+      AROMA_TIERS.map((t) => [t, diffAromas(yours.aromasAndFlavours[t], model.aromasAndFlavours[t])])
+    ) as Record<AromaTier, AromaDiff>,
+    agreement: compared.length > 0 ? compared.filter((s) => s.steps === 0).length / compared.length : null,
+  };
+}
+
+/** Compared by canonical descriptor, so "cassis" and "blackcurrant" agree. */
+function diffAromas(yours: string[], model: string[]): AromaDiff {
+  const a = canonicalAromaList(yours);
+  const b = canonicalAromaList(model);
+  return {
+    shared: a.filter((x) => b.includes(x)),
+    onlyYours: a.filter((x) => !b.includes(x)),
+    onlyModel: b.filter((x) => !a.includes(x)),
+  };
+}
@@ -0,0 +1,17 @@
+// src/lib/notes/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonNoteRepository } from "./json-store";
+import type { NoteRepository } from "./types";
+
+export * from "./types";
+export { createJsonNoteRepository } from "./json-store";
+export { diffNote, type AromaDiff, type NoteDiff, type StructureDiff } from "./diff";
+export { parseNoteInput, parseNotePatch } from "./validate";
+
+let repo: NoteRepository | null = null;
+
+/** The app-wide tasting journal, stored in NOTES_FILE (default <DATA_DIR>/notes.json). */
+export function getNoteRepository(): NoteRepository {
+  repo ??= createJsonNoteRepository(process.env.NOTES_FILE || dataPath("notes.json"));
+  return repo;
+}
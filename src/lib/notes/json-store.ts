@@ -0,0 +1,56 @@
+// src/lib/notes/json-store.ts
+import { randomUUID } from "node:crypto";
+import { jsonFile } from "@/lib/store/json-file";
+import type { NoteFilter, NoteRepository, TastingNote } from "./types";
+
+type NotesFile = { notes: TastingNote[] };
+
+export function createJsonNoteRepository(file: string): NoteRepository {
+  const store = jsonFile<NotesFile>(file, () => ({ notes: [] }));
+
+  return {
+    async list(filter = {}) {
+      const { notes } = await store.read();
+      return notes
+        .filter((n) => matches(n, filter))
+        .sort((a, b) => b.tastedAt.localeCompare(a.tastedAt) || b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async get(id) {
+      const { notes } = await store.read();
+      return notes.find((n) => n.id === id) ?? null;
+    },
+
+    create(input) {
+      return store.update((data) => {
+        const now = new Date().toISOString();
+        const note: TastingNote = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+        data.notes.push(note);
+        return note;
+      });
+    },
+
+    update(id, patch) {
+      return store.update((data) => {
+        const i = data.notes.findIndex((n) => n.id === id);
+        if (i < 0) return null;
+        data.notes[i] = { ...data.notes[i], ...patch, id, updatedAt: new Date().toISOString() };
+        return data.notes[i];
+      });
+    },
+
+    remove(id) {
+      return store.update((data) => {
+        const before = data.notes.length;
+        data.notes = data.notes.filter((n) => n.id !== id);
+        return data.notes.length < before;
+      });
+    },
+  };
+}
+
+function matches(n: TastingNote, f: NoteFilter): boolean {
+  if (f.wineId && n.wineId !== f.wineId) return false;
+  if (f.taster && n.taster.toLowerCase() !== f.taster.toLowerCase()) return false;
+  return true;
+}
@@ -0,0 +1,38 @@
+// src/lib/notes/types.ts
+import type { AromasAndFlavours, RecognizedLabel, TastingNotes } from "@/lib/schema";
+
+/** The parts of an analysis a note is written against. */
+export type NoteAssessment = { tastingNotes: TastingNotes; aromasAndFlavours: AromasAndFlavours };
+
+/** One taster's own assessment of a wine, on the same SAT structure as the model's notes. */
+export type TastingNote = NoteAssessment & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The analysed wine (see wine identities); null when the analysis had none. */
+  wineId: string | null;
+  label: RecognizedLabel;
+  taster: string;
+  /** ISO date (YYYY-MM-DD) */
+  tastedAt: string;
+  comments: string;
+  /** The model's notes for the wine when the note was written, for the diff. */
+  prediction: NoteAssessment | null;
+};
+
+export type NoteInput = Omit<TastingNote, "id" | "createdAt" | "updatedAt">;
+
+export type NotePatch = Partial<NoteInput>;
+
+/** `taster` is a case-insensitive exact match. */
+export type NoteFilter = Partial<{ wineId: string; taster: string }>;
+
+export interface NoteRepository {
+  /** Most recently tasted first. */
+  list(filter?: NoteFilter): Promise<TastingNote[]>;
+  get(id: string): Promise<TastingNote | null>;
+  create(input: NoteInput): Promise<TastingNote>;
+  /** Resolves to null when no note has that id. */
+  update(id: string, patch: NotePatch): Promise<TastingNote | null>;
+  remove(id: string): Promise<boolean>;
+}
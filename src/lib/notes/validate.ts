@@ -0,0 +1,94 @@
+// src/lib/notes/validate.ts
+import { emptyAnalysis, parseAnalysis, parseRecognizedLabel, type FieldIssue, type ParseResult } from "@/lib/schema";
+import type { NoteInput, NotePatch } from "./types";
+
+/**
+ * Validate a POST body. `taster`, `tastedAt` and the wine are required; the wine
+ * comes from `result` (the analysis the note is written against, which also
+ * supplies `wineId` and the model's prediction) or from `label`.
+ */
+export function parseNoteInput(body: unknown): ParseResult<NoteInput> {
+  const parsed = parseNotePatch(body);
+  if (!parsed.ok) return parsed;
+  const { taster, tastedAt, label, ...rest } = parsed.value;
+  const issues: FieldIssue[] = [];
+  if (!taster) issues.push({ path: "taster", message: "taster is required" });
+  if (!tastedAt) issues.push({ path: "tastedAt", message: "tastedAt is required" });
+  if (!label || (!label.producer && !label.wine)) {
+    issues.push({ path: "result", message: "result, or a label with a producer or wine, is required" });
+  }
+  if (issues.length > 0 || !taster || !tastedAt || !label) return { ok: false, issues };
+
+  const empty = emptyAnalysis();
+  return {
+    ok: true,
+    value: {
+      wineId: null,
+      tastingNotes: empty.tastingNotes,
+      aromasAndFlavours: empty.aromasAndFlavours,
+      comments: "",
+      prediction: null,
+      ...rest,
+      label,
+      taster,
+      tastedAt,
+    },
+  };
+}
+
+/** Validate a PATCH body: only the fields present are checked and returned. */
+export function parseNotePatch(body: unknown): ParseResult<NotePatch> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+  const b = body as Record<string, unknown>;
+  const issues: FieldIssue[] = [];
+  const out: NotePatch = {};
+
+  if (b.result !== undefined) {
+    const r = parseAnalysis(b.result);
+    if (r.ok) {
+      out.wineId = r.value.wineId;
+      out.label = r.value.recognizedLabel;
+      out.prediction = { tastingNotes: r.value.tastingNotes, aromasAndFlavours: r.value.aromasAndFlavours };
+    } else {
+      issues.push(...r.issues.map((i) => ({ ...i, path: i.path ? `result.${i.path}` : "result" })));
+    }
+  }
+  if (b.label !== undefined) {
+    const r = parseRecognizedLabel(b.label, "label");
+    if (r.ok) out.label = r.value;
+    else issues.push(...r.issues);
+  }
+  if (b.wineId !== undefined) {
+    if (b.wineId === null || typeof b.wineId === "string") out.wineId = b.wineId || null;
+    else issues.push({ path: "wineId", message: "expected a string or null" });
+  }
+  if (b.taster !== undefined) {
+    if (typeof b.taster === "string" && b.taster.trim()) out.taster = b.taster.trim();
+    else issues.push({ path: "taster", message: "expected a non-empty string" });
+  }
+  if (b.tastedAt !== undefined) {
+    if (typeof b.tastedAt === "string" && isIsoDate(b.tastedAt)) out.tastedAt = b.tastedAt;
+    else issues.push({ path: "tastedAt", message: "expected a YYYY-MM-DD date" });
+  }
+  // The same coercion as model output: SAT wording mapped onto the scales, aromas onto the lexicon
+  if (b.tastingNotes !== undefined || b.aromasAndFlavours !== undefined) {
+    const r = parseAnalysis({ tastingNotes: b.tastingNotes, aromasAndFlavours: b.aromasAndFlavours });
+    if (!r.ok) issues.push(...r.issues);
+    else {
+      if (b.tastingNotes !== undefined) out.tastingNotes = r.value.tastingNotes;
+      if (b.aromasAndFlavours !== undefined) out.aromasAndFlavours = r.value.aromasAndFlavours;
+    }
+  }
+  if (b.comments !== undefined) {
+    if (typeof b.comments === "string") out.comments = b.comments;
+    else issues.push({ path: "comments", message: "expected a string" });
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: out };
+}
+
+function isIsoDate(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(Date.parse(s));
+}
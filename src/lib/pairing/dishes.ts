@@ -0,0 +1,132 @@
+// src/lib/pairing/dishes.ts
+import type { Dish, DishCategory, DishProfile } from "./types";
+
+export const DISH_CATEGORIES = [
+  "red-meat",
+  "lamb",
+  "game",
+  "pork",
+  "poultry",
+  "white-fish",
+  "oily-fish",
+  "shellfish",
+  "charcuterie",
+  "hard-cheese",
+  "soft-cheese",
+  "blue-cheese",
+  "spicy",
+  "tomato",
+  "creamy",
+  "mushroom",
+  "vegetables",
+  "fruit-dessert",
+  "chocolate",
+] as const;
+
+const base: DishProfile = {
+  fat: 0,
+  protein: 0,
+  acid: 0,
+  sweet: 0,
+  spice: 0,
+  salt: 0,
+  umami: 0,
+  weight: 2,
+  fish: false,
+  flavours: [],
+};
+
+const dish = (
+  category: DishCategory,
+  label: string,
+  keywords: string[],
+  profile: Partial<DishProfile>,
+  hints: string[] = []
+): Dish => ({ category, label, keywords, hints, profile: { ...base, ...profile } });
+
+export const DISHES: Dish[] = [
+  dish("red-meat", "Steak & roast beef", ["beef", "ribeye", "sirloin", "burger", "brisket"], {
+    fat: 2, protein: 2, umami: 1, weight: 4, flavours: ["oak", "spice", "dark-fruit"],
+  }, ["steak", "roast"]),
+  dish("lamb", "Lamb", ["lamb", "mutton", "kleftiko"], { fat: 2, protein: 2, weight: 3, flavours: ["herbal", "earthy"] }),
+  dish("game", "Game & venison", ["venison", "duck", "game", "pigeon", "pheasant", "boar", "rabbit"], {
+    fat: 1, protein: 2, umami: 1, weight: 3, flavours: ["earthy", "red-fruit", "dark-fruit"],
+  }),
+  dish("pork", "Pork", ["pork", "sausage", "ham", "gammon"], { fat: 1, protein: 2, weight: 2, flavours: ["spice"] }, ["chop"]),
+  dish("poultry", "Chicken & turkey", ["chicken", "turkey", "poultry", "guinea fowl"], {
+    fat: 1, protein: 2, weight: 2, flavours: ["herbal", "nutty"],
+  }),
+  dish("white-fish", "White fish", ["cod", "sole", "haddock", "hake", "bass", "plaice", "halibut", "fish"], {
+    protein: 1, weight: 1, fish: true, flavours: ["citrus", "herbal"],
+  }),
+  dish("oily-fish", "Salmon, tuna & oily fish", ["salmon", "tuna", "mackerel", "sardine", "trout", "anchovy"], {
+    fat: 1, protein: 2, umami: 1, weight: 2, fish: true, flavours: ["citrus"],
+  }),
+  dish("shellfish", "Shellfish", ["oyster", "prawn", "shrimp", "crab", "lobster", "mussel", "scallop", "clam"], {
+    protein: 1, salt: 1, weight: 1, fish: true, flavours: ["citrus"],
+  }),
+  dish("charcuterie", "Charcuterie", ["charcuterie", "salami", "chorizo", "prosciutto", "cured"], {
+    fat: 2, protein: 1, salt: 2, weight: 2, flavours: ["spice"],
+  }),
+  dish("hard-cheese", "Hard cheese", ["cheddar", "parmesan", "comté", "comte", "manchego", "gruyère", "gruyere"], {
+    fat: 2, protein: 2, salt: 1, umami: 2, weight: 3, flavours: ["nutty"],
+  }),
+  dish("soft-cheese", "Soft & goat's cheese", ["brie", "camembert", "goat", "chèvre", "chevre", "mozzarella", "burrata"], {
+    fat: 2, protein: 1, acid: 1, weight: 2, flavours: ["herbal"],
+  }),
+  dish("blue-cheese", "Blue cheese", ["stilton", "roquefort", "gorgonzola", "blue cheese"], {
+    fat: 2, protein: 1, salt: 2, umami: 1, weight: 3, flavours: ["nutty"],
+  }),
+  dish("spicy", "Spicy (curry, Thai, Sichuan)", ["curry", "thai", "chilli", "chili", "sichuan", "szechuan", "vindaloo", "spicy", "mexican"], {
+    fat: 1, protein: 1, sweet: 1, spice: 2, weight: 2, flavours: ["spice", "tropical"],
+  }),
+  dish("tomato", "Tomato-based pasta & pizza", ["tomato", "pizza", "bolognese", "marinara", "ragu", "ragù", "lasagne", "lasagna"], {
+    fat: 1, protein: 1, acid: 2, umami: 1, weight: 2, flavours: ["herbal", "red-fruit"],
+  }),
+  dish("creamy", "Creamy pasta & risotto", ["carbonara", "alfredo", "risotto", "cream", "creamy", "gratin"], {
+    fat: 2, protein: 1, weight: 2, flavours: ["nutty", "oak"],
+  }),
+  dish("mushroom", "Mushroom & truffle", ["mushroom", "truffle", "porcini", "wild mushroom"], {
+    fat: 1, umami: 2, weight: 2, flavours: ["earthy"],
+  }),
+  dish("vegetables", "Salads & green vegetables", ["salad", "asparagus", "vegetable", "greens", "vegan", "vegetarian"], {
+    acid: 1, weight: 1, flavours: ["herbal", "citrus"],
+  }),
+  dish("fruit-dessert", "Fruit desserts", ["crumble", "pavlova", "fruit", "cheesecake", "dessert", "pudding"], {
+    fat: 1, acid: 1, sweet: 2, weight: 2, flavours: ["red-fruit", "citrus", "tropical"],
+  }, ["tart"]),
+  dish("chocolate", "Chocolate", ["chocolate", "brownie", "cocoa", "mousse"], {
+    fat: 2, sweet: 2, weight: 3, flavours: ["dark-fruit", "nutty"],
+  }),
+];
+
+/**
+ * Map a dish name onto a category: an exact category id, else the category whose
+ * keywords appear most often in the text as whole words (plurals allowed). Hints
+ * count for less than any keyword, so "roast chicken" is poultry and "tuna steak"
+ * oily fish; earlier categories win ties. Null when nothing matches.
+ */
+export function matchDish(text: string): Dish | null {
+  const s = text.trim().toLowerCase();
+  if (!s) return null;
+  const exact = DISHES.find((d) => d.category === s);
+  if (exact) return exact;
+
+  let best: Dish | null = null;
+  let bestScore = 0;
+  for (const d of DISHES) {
+    const hits = (words: string[]) => words.filter((w) => mentions(s, w)).length;
+    // Keywords name the ingredient, so any one of them outweighs the hints
+    const score = hits(d.keywords) * 10 + hits(d.hints);
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** `word` as a whole word, optionally plural: "tart" matches "tarts" but not "tartare". */
+function mentions(text: string, word: string): boolean {
+  return new RegExp(`(?<!\\p{L})${word}(?:e?s)?(?!\\p{L})`, "u").test(text);
+}
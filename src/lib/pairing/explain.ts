@@ -0,0 +1,35 @@
+// src/lib/pairing/explain.ts
+import { resolveStage } from "@/lib/llm";
+import { modelOutputError, parseModelJson } from "@/lib/pipeline";
+import { wineTitle } from "@/lib/drink-window";
+import type { AnalysisResult, ParseResult } from "@/lib/schema";
+import type { DishSuggestion } from "./types";
+
+const SYSTEM_PROMPT_PAIRING = `You are a sommelier explaining food pairings to a guest.
+The dishes and the reasons behind them were chosen by fixed rules; do not add, drop or reorder dishes.
+Explain the suggestions in 2-4 friendly sentences using the given reasons and the wine's tasting notes.
+Return ONLY valid JSON: {"explanation": "..."}`;
+
+/** Optional prose for rule-based suggestions. The ranking itself never depends on the model. */
+export async function explainPairings(result: AnalysisResult, dishes: DishSuggestion[]): Promise<string> {
+  const pairing = resolveStage("pairing");
+  const raw = await pairing.provider.complete({
+    model: pairing.model,
+    system: SYSTEM_PROMPT_PAIRING,
+    prompt:
+      `Wine: ${wineTitle(result)}\nStructure: ${JSON.stringify(result.tastingNotes.wsetLevel2)}\n` +
+      `Aromas: ${JSON.stringify(result.aromasAndFlavours)}\n\nSuggested dishes (best first):\n` +
+      JSON.stringify(dishes.map((d) => ({ dish: d.label, reasons: d.reasons.map((r) => r.text) }))),
+    task: "pairing",
+  });
+  const parsed = parseModelJson(raw, parseExplanation);
+  if (!parsed.ok) throw modelOutputError("Model returned an invalid pairing explanation", parsed.issues, "pairing");
+  return parsed.value;
+}
+
+function parseExplanation(json: unknown): ParseResult<string> {
+  const text = typeof json === "object" && json !== null ? (json as { explanation?: unknown }).explanation : undefined;
+  return typeof text === "string" && text.trim()
+    ? { ok: true, value: text.trim() }
+    : { ok: false, issues: [{ path: "explanation", message: "expected a non-empty string" }] };
+}
@@ -0,0 +1,29 @@
+// src/lib/pairing/index.ts
+import type { AnalysisResult } from "@/lib/schema";
+import { DISHES } from "./dishes";
+import { wineProfile } from "./profile";
+import { scorePairing } from "./rules";
+import type { Dish, DishSuggestion, PairingScore } from "./types";
+
+export * from "./types";
+export { DISHES, DISH_CATEGORIES, matchDish } from "./dishes";
+export { explainPairings } from "./explain";
+export { wineProfile } from "./profile";
+export { PAIRING_RULES, scorePairing } from "./rules";
+
+/** Every dish category scored against the wine, best first (ties keep table order). */
+export function suggestDishes(result: AnalysisResult, limit = 5): DishSuggestion[] {
+  const wine = wineProfile(result);
+  return DISHES.map((d) => ({ dish: d.category, label: d.label, ...scorePairing(wine, d.profile) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export type RankedBottle<T> = { item: T } & PairingScore;
+
+/** Order bottles by how well they suit one dish, best first. Stable for equal scores. */
+export function rankBottlesForDish<T>(dish: Dish, items: T[], resultOf: (item: T) => AnalysisResult): RankedBottle<T>[] {
+  return items
+    .map((item) => ({ item, ...scorePairing(wineProfile(resultOf(item)), dish.profile) }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,55 @@
+// src/lib/pairing/profile.ts
+import { STRUCTURE_LEVELS, SWEETNESS_LEVELS, type AnalysisResult } from "@/lib/schema";
+import type { FlavourTag, WineProfile } from "./types";
+
+/** Descriptor words that place an aroma in a flavour family; see `familyPattern` for the endings allowed. */
+const FLAVOUR_WORDS: Record<FlavourTag, string[]> = {
+  "red-fruit": ["cherry", "raspberry", "strawberry", "cranberry", "redcurrant", "red currant", "pomegranate"],
+  "dark-fruit": ["blackberry", "blackcurrant", "black currant", "cassis", "plum", "black cherry", "blueberry", "fig", "prune"],
+  citrus: ["lemon", "lime", "grapefruit", "orange", "citrus", "zest"],
+  tropical: ["pineapple", "mango", "passion", "lychee", "banana", "melon", "tropical"],
+  herbal: ["herb", "herbaceous", "grass", "mint", "eucalyptus", "thyme", "rosemary", "green pepper", "bell pepper", "fennel"],
+  earthy: ["earth", "mushroom", "forest floor", "truffle", "leather", "tobacco", "game", "savoury", "savory"],
+  oak: ["oak", "vanilla", "toast", "smoke", "smoky", "cedar", "coconut", "char", "charred"],
+  spice: ["pepper", "clove", "cinnamon", "spice", "spicy", "liquorice", "licorice", "nutmeg", "anise"],
+  nutty: ["almond", "hazelnut", "walnut", "nut", "brioche", "biscuit", "marzipan"],
+  floral: ["violet", "rose", "blossom", "floral", "elderflower", "lavender", "jasmine"],
+};
+
+const FLAVOUR_PATTERNS = Object.fromEntries(
+  Object.entries(FLAVOUR_WORDS).map(([tag, words]) => [tag, familyPattern(words)])
+) as Record<FlavourTag, RegExp>;
+
+/** Numeric structure and flavour families for the rules table. */
+export function wineProfile(result: AnalysisResult): WineProfile {
+  const w2 = result.tastingNotes.wsetLevel2;
+  const level = (v: string) => {
+    const i = STRUCTURE_LEVELS.findIndex((l) => l === v);
+    return i < 0 ? null : i;
+  };
+  const sweetness = SWEETNESS_LEVELS.findIndex((l) => l === w2.sweetness);
+
+  const af = result.aromasAndFlavours;
+  const text = [...result.tastingNotes.nose, ...result.tastingNotes.palate, ...af.primary, ...af.secondary, ...af.tertiary]
+    .join(" | ")
+    .toLowerCase();
+  const flavours = (Object.keys(FLAVOUR_WORDS) as FlavourTag[]).filter((tag) => FLAVOUR_PATTERNS[tag].test(text));
+
+  return {
+    sweetness: sweetness < 0 ? null : sweetness,
+    acidity: level(w2.acidity),
+    tannin: level(w2.tannin),
+    body: level(w2.body),
+    alcohol: level(w2.alcohol),
+    flavours,
+  };
+}
+
+/**
+ * Any of `words` as a whole word, with a plural or adjective ending ("cherries",
+ * "nutty", "oaked"), so "nut" doesn't match "nutmeg" nor "rose" "rosemary".
+ */
+function familyPattern(words: string[]): RegExp {
+  const stems = words.map((w) => (w.endsWith("y") ? `${w}|${w.slice(0, -1)}i` : w));
+  return new RegExp(`(?<!\\p{L})(?:${stems.join("|")})(?:s|es|y|ty|al|ed)?(?!\\p{L})`, "u");
+}
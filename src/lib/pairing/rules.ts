@@ -0,0 +1,128 @@
+// src/lib/pairing/rules.ts
+// The pairing rules table. Each rule looks at one interaction between the wine's
+// structure and the dish and nudges the score up or down; rules whose inputs are
+// unknown stay silent. Scales: see WineProfile and DishProfile.
+import type { DishProfile, PairingRule, PairingScore, WineProfile } from "./types";
+
+const HIGH = 3; // medium(+) and above
+const SWEETISH = 1; // off-dry and above
+
+export const PAIRING_RULES: PairingRule[] = [
+  {
+    id: "acid-vs-fat",
+    apply: (w, d) =>
+      w.acidity != null && w.acidity >= HIGH && d.fat > 0
+        ? { delta: d.fat, text: "Crisp acidity cuts through the richness" }
+        : w.acidity != null && w.acidity <= 1 && d.fat === 2
+          ? { delta: -1, text: "Low acidity feels flabby next to rich food" }
+          : null,
+  },
+  {
+    id: "acid-vs-acid",
+    apply: (w, d) => {
+      if (w.acidity == null || d.acid === 0) return null;
+      // Tart food needs at least as much acidity in the glass (dish 0–2 vs wine 0–4)
+      const short = d.acid * 2 - w.acidity;
+      return short > 0
+        ? { delta: -short / 2, text: "Tart food makes a less acidic wine taste flat" }
+        : { delta: 0.5, text: "Enough acidity to match a tangy dish" };
+    },
+  },
+  {
+    id: "tannin-vs-protein",
+    apply: (w, d) => {
+      if (w.tannin == null || w.tannin < HIGH) return null;
+      if (d.protein + d.fat >= 3) return { delta: 1.5, text: "Protein and fat soften firm tannin" };
+      if (d.protein <= 1 && d.fat <= 1) return { delta: -1, text: "Firm tannin needs protein to soften it" };
+      return null;
+    },
+  },
+  {
+    id: "tannin-vs-fish",
+    apply: (w, d) =>
+      d.fish && w.tannin != null && w.tannin >= 2
+        ? { delta: -1.5, text: "Tannin turns metallic with fish" }
+        : null,
+  },
+  {
+    id: "tannin-vs-spice",
+    apply: (w, d) =>
+      d.spice > 0 && w.tannin != null && w.tannin >= HIGH
+        ? { delta: -d.spice, text: "Chilli heat makes tannin taste harsher" }
+        : null,
+  },
+  {
+    id: "alcohol-vs-spice",
+    apply: (w, d) =>
+      d.spice > 0 && w.alcohol != null && w.alcohol >= HIGH
+        ? { delta: -0.75 * d.spice, text: "High alcohol amplifies chilli heat" }
+        : null,
+  },
+  {
+    id: "sweetness-vs-spice",
+    apply: (w, d) =>
+      d.spice > 0 && w.sweetness != null && w.sweetness >= SWEETISH
+        ? { delta: 0.5 * Math.min(w.sweetness, 2) * d.spice, text: "A touch of sweetness tames the heat" }
+        : null,
+  },
+  {
+    id: "sweetness-vs-dessert",
+    apply: (w, d) => {
+      if (d.sweet < 2 || w.sweetness == null) return null;
+      // The wine must be at least as sweet as the dessert, or it tastes thin and sour
+      return w.sweetness >= 2
+        ? { delta: 1.5, text: "Sweet enough to stand up to dessert" }
+        : { delta: -2 * (2 - w.sweetness), text: "A drier wine tastes sour against dessert" };
+    },
+  },
+  {
+    id: "sweetness-vs-salt",
+    apply: (w, d) =>
+      d.salt === 2 && w.sweetness != null && w.sweetness >= 2
+        ? { delta: 1.5, text: "Sweetness plays off salty food" }
+        : null,
+  },
+  {
+    id: "tannin-vs-salt",
+    apply: (w, d) =>
+      d.salt > 0 && w.tannin != null && w.tannin >= HIGH ? { delta: 0.5, text: "Salt softens tannin" } : null,
+  },
+  {
+    id: "tannin-vs-umami",
+    apply: (w, d) =>
+      d.umami === 2 && w.tannin != null && w.tannin >= HIGH
+        ? { delta: -0.5, text: "Umami makes tannin taste more bitter" }
+        : null,
+  },
+  {
+    id: "body-vs-weight",
+    apply: (w, d) => {
+      if (w.body == null) return null;
+      const gap = w.body - d.weight;
+      if (gap === 0) return { delta: 1, text: "Body matches the weight of the dish" };
+      if (Math.abs(gap) === 1) return null;
+      return gap > 0
+        ? { delta: 1 - gap, text: "The wine will overpower the dish" }
+        : { delta: 1 + gap, text: "The dish will overpower the wine" };
+    },
+  },
+  {
+    id: "flavour-bridge",
+    apply: (w, d) => {
+      const shared = w.flavours.filter((f) => d.flavours.includes(f));
+      return shared.length > 0
+        ? { delta: Math.min(1.5, 0.5 * shared.length), text: `Shared flavours: ${shared.join(", ")}` }
+        : null;
+    },
+  },
+];
+
+/** Sum of every rule that fires; reasons keep table order. */
+export function scorePairing(wine: WineProfile, dish: DishProfile, rules: PairingRule[] = PAIRING_RULES): PairingScore {
+  const reasons = rules.flatMap((rule) => {
+    const r = rule.apply(wine, dish);
+    return r && r.delta !== 0 ? [{ rule: rule.id, ...r, delta: Math.round(r.delta * 100) / 100 }] : [];
+  });
+  const score = reasons.reduce((sum, r) => sum + r.delta, 0);
+  return { score: Math.round(score * 100) / 100, reasons };
+}
@@ -0,0 +1,70 @@
+// src/lib/pairing/types.ts
+import type { DISH_CATEGORIES } from "./dishes";
+
+export type DishCategory = (typeof DISH_CATEGORIES)[number];
+
+/** Flavour families shared by wine aromas and dishes; a shared tag is a "bridge". */
+export const FLAVOUR_TAGS = [
+  "red-fruit",
+  "dark-fruit",
+  "citrus",
+  "tropical",
+  "herbal",
+  "earthy",
+  "oak",
+  "spice",
+  "nutty",
+  "floral",
+] as const;
+
+export type FlavourTag = (typeof FLAVOUR_TAGS)[number];
+
+/**
+ * A wine's structure on numeric scales, null where the result gives no value.
+ * Structure is 0–4 (low → high, as STRUCTURE_LEVELS); sweetness is 0–3 (dry → sweet).
+ */
+export type WineProfile = {
+  sweetness: number | null;
+  acidity: number | null;
+  tannin: number | null;
+  body: number | null;
+  alcohol: number | null;
+  flavours: FlavourTag[];
+};
+
+/** 0 = none, 1 = some, 2 = a lot; `weight` is 0–4 (light → heavy) to line up with body. */
+export type DishProfile = {
+  fat: number;
+  protein: number;
+  acid: number;
+  sweet: number;
+  spice: number;
+  salt: number;
+  umami: number;
+  weight: number;
+  /** Oily or delicate fish, which turns metallic with tannin. */
+  fish: boolean;
+  flavours: FlavourTag[];
+};
+
+export type Dish = {
+  category: DishCategory;
+  label: string;
+  profile: DishProfile;
+  /** Words that map free-text dish names onto this category. */
+  keywords: string[];
+  /** Cooking words ("roast", "steak") that lean towards this category but lose to any named ingredient. */
+  hints: string[];
+};
+
+export type PairingReason = { rule: string; delta: number; text: string };
+
+/** One row of the rules table: a structural interaction scored on its own. */
+export type PairingRule = {
+  id: string;
+  apply(wine: WineProfile, dish: DishProfile): Omit<PairingReason, "rule"> | null;
+};
+
+export type PairingScore = { score: number; reasons: PairingReason[] };
+
+export type DishSuggestion = { dish: DishCategory; label: string } & PairingScore;
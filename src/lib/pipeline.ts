@@ -0,0 +1,408 @@
+// src/lib/pipeline.ts
+// The analyze pipeline: vision (label → JSON) → web search → grounded synthesis.
+// Shared by the API routes; callers can observe progress through `onEvent`.
+import { cacheTtls, getResultCache, imageKey, wineKey, type CacheReport, type CacheStatus } from "@/lib/cache";
+import { changedFields } from "@/lib/corrections";
+import { ApiError } from "@/lib/errors";
+import { convertPrice, getFxTable, hasCurrency, type FxTable } from "@/lib/fx";
+import { getIdentityStore } from "@/lib/identity";
+import { resolveStage, type LlmImage, type StageConfig } from "@/lib/llm";
+import { getPriceHistory } from "@/lib/price-history";
+import { applyPriceSummary, extractPricePoints, summarizePrices, type PriceSummary } from "@/lib/prices";
+import {
+  SCHEMA_TEMPLATE,
+  emptyAnalysis,
+  parseModelAnalysis,
+  type AnalysisResult,
+  type FieldIssue,
+  type ImageRole,
+  type ParseResult,
+  type ProvenanceField,
+  type RecognizedLabel,
+} from "@/lib/schema";
+import {
+  MARKETS,
+  MARKET_CURRENCY,
+  MARKET_LABEL,
+  gatherEvidence,
+  resolveSearch,
+  searchMarket,
+  type Evidence,
+  type Market,
+  type SearchDiagnostic,
+  type SearchProvider,
+} from "@/lib/search";
+
+/** The markets' currencies, as listed to the models. */
+const PRICE_CURRENCIES = Object.values(MARKET_CURRENCY).join(", ");
+
+const SYSTEM_PROMPT_VISION = `You are a master sommelier using only the label image and general wine knowledge.
+Return ONLY valid JSON matching the provided schema. If unknown, use null/""/[].
+Fill WSET L2 aroma and palette information based on what is typical for the grape and region. Include 'aromasAndFlavours' (primary/secondary/tertiary).
+Provide a quantified grape breakdown: grapes = array of { variety, percent|null } summing ≈100 when known (or null).
+Where the schema lists values separated by "|", use exactly one of them (or "" if unknown).
+priceEstimate.currency is a single ISO 4217 code: ${PRICE_CURRENCIES}.
+You may get several photos of the same bottle (front label, back label, capsule), each introduced by its role. Read each fact from whichever photo shows it; back labels usually carry ABV, grape percentages and the importer.
+In 'provenance', say for each listed field where it came from: origin "label" (with 'image' = the photo it is printed on) or "inferred" (typical for the grape/region, not printed), plus your confidence.
+`;
+
+const groundedSystemPrompt = (market: Market) => `You are a sommelier grounding outputs in provided web evidence (${MARKET_LABEL[market]} retail market).
+Use ONLY the evidence below + the parsed label to enhance the original information based on web sources, and 
+to estimate a realistic drink window with a one-line decant recommendation. If evidence conflicts, use the web search results.
+Prices have already been read from the evidence and summarised for you (per 75cl bottle, in ${MARKET_CURRENCY[market]}). Do not recompute them: copy the given currency/low/high into priceEstimate and use priceEstimate.note only to explain the figures (where they come from, the spread, any vintage or size caveats).
+Only when no price summary is given, estimate the typical retail price for this vintage yourself and set confidence=low.
+priceEstimate.currency is a single ISO 4217 code: ${PRICE_CURRENCIES}.
+Output must remain VALID JSON in the same schema. Add 0-5 'sources' (title+url) you actually used.
+For every field you change because of the evidence, set its 'provenance' entry to origin "web" with 'source' = the 0-based index of the supporting entry in your 'sources' array. Leave the other provenance entries as they were.`;
+
+/** Progress notifications, in the order they are emitted. `grounded` is skipped when there is no evidence. */
+export type AnalyzeEvent =
+  | { stage: "label"; data: AnalysisResult }
+  | { stage: "evidence"; count: number; diagnostics: SearchDiagnostic[] }
+  | { stage: "grounded"; data: AnalysisResult }
+  | { stage: "final"; data: AnalysisResult; diagnostics: SearchDiagnostic[]; cache: CacheReport };
+
+export type AnalyzeOutcome = { data: AnalysisResult; diagnostics: SearchDiagnostic[]; cache: CacheReport };
+
+/** Where the bottle is being bought: picks the retailers searched and the currency prices are shown in. */
+export type PriceContext = {
+  /** Defaults to SEARCH_MARKET (uk when unset). */
+  market?: Market;
+  /** ISO 4217 code to convert the estimate into; defaults to the market's currency. */
+  currency?: string;
+};
+
+/** Backends to use instead of the ones configured in env; the eval harness records and replays through these. */
+export type PipelineProviders = {
+  vision?: StageConfig;
+  grounding?: StageConfig;
+  /** null runs without search. */
+  search?: SearchProvider | null;
+};
+
+type Options = PriceContext & {
+  onEvent?: (event: AnalyzeEvent) => void;
+  /** Skip cache reads (results are still written back). */
+  refresh?: boolean;
+  providers?: PipelineProviders;
+};
+
+/** One uploaded photo of the bottle. */
+export type LabelImage = { role: ImageRole; mimeType: string; base64: string };
+
+const ROLE_CAPTION: Record<ImageRole, string> = {
+  front: "front label",
+  back: "back label",
+  capsule: "capsule / neck",
+  other: "other view",
+};
+
+const LABEL_CACHE = "label";
+const GROUNDED_CACHE = "grounded";
+
+const NOT_JSON = "response was not valid JSON";
+
+/**
+ * The error for model output that failed `parseModelJson`: MODEL_BAD_JSON when
+ * it was not JSON at all, MODEL_INVALID when it did not fit the schema.
+ */
+export function modelOutputError(message: string, issues: FieldIssue[], stage = "vision"): ApiError {
+  const badJson = issues.some((i) => i.path === "" && i.message === NOT_JSON);
+  return new ApiError(badJson ? "MODEL_BAD_JSON" : "MODEL_INVALID", message, { stage, issues });
+}
+
+export async function analyzeLabel(photos: LabelImage[], opts: Options = {}): Promise<AnalyzeOutcome> {
+  const cache = getResultCache();
+  const key = imageKey(toLlmImages(photos));
+
+  let label: AnalysisResult | undefined;
+  let labelStatus: CacheStatus = "skipped";
+  if (cache) {
+    labelStatus = opts.refresh ? "bypass" : "miss";
+    if (!opts.refresh) {
+      const hit = await cache.get<AnalysisResult>(LABEL_CACHE, key);
+      if (hit) {
+        label = hit.value;
+        labelStatus = "hit";
+      }
+    }
+  }
+  if (!label) {
+    label = await readLabel(photos, opts.providers?.vision);
+    await cache?.set(LABEL_CACHE, key, label, cacheTtls().label);
+  }
+
+  opts.onEvent?.({ stage: "label", data: label });
+  return groundLabel(label, opts, labelStatus);
+}
+
+function toLlmImages(photos: LabelImage[]): LlmImage[] {
+  return photos.map((p, i) => ({
+    mimeType: p.mimeType,
+    base64: p.base64,
+    caption: `Image ${i + 1}: ${ROLE_CAPTION[p.role]}`,
+  }));
+}
+
+/** Stage 1: vision model reads the label. Throws MODEL_BAD_JSON / MODEL_INVALID when the output fails validation. */
+export async function readLabel(photos: LabelImage[], vision = resolveStage("vision")): Promise<AnalysisResult> {
+  const images = toLlmImages(photos);
+  const subject = images.length > 1 ? `these ${images.length} photos of one bottle` : "this label image";
+  const userPrompt1 = `Identify the wine from ${subject} and fill this JSON schema exactly:\n${JSON.stringify(
+    SCHEMA_TEMPLATE
+  )}`;
+
+  const raw1 = await vision.provider.vision({
+    model: vision.model,
+    system: SYSTEM_PROMPT_VISION,
+    prompt: userPrompt1,
+    images,
+  });
+  const stage1 = parseModelJson(raw1);
+  if (!stage1.ok) {
+    throw modelOutputError("Model returned invalid data in stage 1", stage1.issues);
+  }
+  return stage1.value;
+}
+
+/** Stages 2 + 3: search for evidence, then let the grounding model merge it in. */
+export async function groundLabel(
+  label: AnalysisResult,
+  opts: Options = {},
+  labelStatus: CacheStatus = "skipped"
+): Promise<AnalyzeOutcome> {
+  // One spelling per wine, so search terms, the cache key and price history all agree
+  const identity = await getIdentityStore().resolve(label.recognizedLabel, { record: true });
+  const parsed1: AnalysisResult = { ...label, recognizedLabel: identity.label, wineId: identity.wineId };
+  const cache = getResultCache();
+  const market = opts.market ?? searchMarket();
+  const currency = opts.currency ?? MARKET_CURRENCY[market];
+  const fx = await getFxTable();
+  // Different markets search different retailers, so they don't share a grounded result
+  const wine = wineKey(parsed1.recognizedLabel);
+  const key = wine && `${wine}|${market}`;
+  const report: CacheReport = { label: labelStatus, grounded: "skipped" };
+
+  // Same wine seen recently: reuse its grounded result instead of searching again
+  if (cache && key) {
+    report.grounded = opts.refresh ? "bypass" : "miss";
+    if (!opts.refresh) {
+      const hit = await cache.get<AnalysisResult>(GROUNDED_CACHE, key);
+      if (hit) {
+        report.grounded = "hit";
+        const data = withConvertedPrice(withIdentity(hit.value, parsed1), currency, fx);
+        opts.onEvent?.({ stage: "grounded", data });
+        opts.onEvent?.({ stage: "final", data, diagnostics: [], cache: report });
+        return { data, diagnostics: [], cache: report };
+      }
+    }
+  }
+
+  // 2) Optional: server-side web search for prices & details
+  const search =
+    opts.providers?.search !== undefined ? { provider: opts.providers.search, diagnostics: [] } : resolveSearch();
+  const diagnostics: SearchDiagnostic[] = [...search.diagnostics];
+  let evidence: Evidence[] = [];
+  if (search.provider) {
+    const found = await gatherEvidence(search.provider, parsed1.recognizedLabel, market);
+    evidence = found.evidence;
+    diagnostics.push(...found.diagnostics);
+  }
+  opts.onEvent?.({ stage: "evidence", count: evidence.length, diagnostics });
+
+  // 3) Grounded synthesis: merge label + evidence
+  let finalData: AnalysisResult = withConvertedPrice(parsed1, currency, fx);
+  let grounded = false;
+  if (evidence.length > 0) {
+    // Price figures come from the snippets; the model only explains them
+    const prices = summarizePrices(extractPricePoints(evidence, parsed1.recognizedLabel), MARKET_CURRENCY[market], fx);
+    const grounding = opts.providers?.grounding ?? resolveStage("grounding");
+    const userPrompt2 =
+      `Label JSON:\n${JSON.stringify(parsed1)}\n\nWeb evidence (array of {title,url,snippet}):\n` +
+      `${JSON.stringify(evidence)}\n\n${pricePrompt(prices)}\n\n` +
+      `Return a SINGLE JSON object in the same schema, updating priceEstimate/drinkWindow and adding up to 5 'sources'.`;
+
+    const raw2 = await grounding.provider.complete({
+      model: grounding.model,
+      system: groundedSystemPrompt(market),
+      prompt: userPrompt2,
+    });
+    const stage2 = parseModelJson(raw2);
+    let merged: AnalysisResult;
+    if (stage2.ok) {
+      merged = stage2.value;
+      grounded = true;
+    } else {
+      // if grounded step fails validation, fall back to vision result but keep going
+      // and append a note so UI shows why prices may be weak
+      const fields = stage2.issues.map((i) => i.path || "(root)").join(", ");
+      merged = {
+        ...parsed1,
+        priceEstimate: {
+          ...parsed1.priceEstimate,
+          note:
+            `${parsed1.priceEstimate.note} (Grounding step returned invalid data` +
+            ` [${fields}]; prices may be less reliable.)`.trim(),
+        },
+      };
+    }
+
+    // Grounding works from evidence, not photos; keep the stage-1 provenance if it was dropped
+    if (Object.keys(merged.provenance).length === 0) {
+      merged.provenance = parsed1.provenance;
+    }
+
+    // Add top sources if model didn’t
+    if (merged.sources.length === 0) {
+      merged.sources = evidence.slice(0, 5).map((e) => ({
+        title: e.title,
+        url: e.url,
+      }));
+    }
+    merged.priceEstimate = applyPriceSummary(merged.priceEstimate, prices);
+    finalData = withConvertedPrice(withIdentity(merged, parsed1), currency, fx);
+    opts.onEvent?.({ stage: "grounded", data: finalData });
+  }
+
+  // Only cache real grounding, so a wine searched while the provider was down gets retried
+  if (cache && key && grounded) {
+    await cache.set(GROUNDED_CACHE, key, finalData, cacheTtls().grounded);
+  }
+  // Cache hits returned earlier, so each observation is a fresh look at the market.
+  // Keyed on the grounded label, as the saved result (and so the cellar valuation) is.
+  const priced = wineKey(finalData.recognizedLabel);
+  if (priced && grounded) {
+    await recordPrice(priced, finalData, market);
+  }
+
+  opts.onEvent?.({ stage: "final", data: finalData, diagnostics, cache: report });
+  return { data: finalData, diagnostics, cache: report };
+}
+
+/**
+ * Stages 2 + 3 again for a label the user corrected, without reading the photos
+ * again. The price, sources and web provenance belonged to the misread wine, so
+ * they are dropped; the corrected facts are marked as the user's.
+ */
+export async function regroundLabel(
+  result: AnalysisResult,
+  corrected: RecognizedLabel,
+  opts: Options = {}
+): Promise<AnalyzeOutcome> {
+  const fields = changedFields(result.recognizedLabel, corrected);
+  const markCorrected = (data: AnalysisResult): AnalysisResult => {
+    const provenance = { ...data.provenance };
+    for (const f of fields) provenance[`recognizedLabel.${f}` as ProvenanceField] = { origin: "user", confidence: "high" };
+    // The names went through identity resolution; other corrected facts stay as the user typed them
+    const recognizedLabel = { ...data.recognizedLabel };
+    for (const f of fields) if (f === "region" || f === "country") recognizedLabel[f] = corrected[f];
+    if (fields.includes("vintage")) recognizedLabel.vintage = corrected.vintage;
+    return { ...data, recognizedLabel, provenance };
+  };
+
+  const webFree = Object.fromEntries(Object.entries(result.provenance).filter(([, p]) => p.origin !== "web"));
+  const label = markCorrected({
+    ...result,
+    recognizedLabel: corrected,
+    wineId: null,
+    priceEstimate: emptyAnalysis().priceEstimate,
+    sources: [],
+    provenance: webFree,
+  });
+
+  const { onEvent } = opts;
+  const outcome = await groundLabel(label, {
+    ...opts,
+    onEvent:
+      onEvent &&
+      ((event) => onEvent(event.stage === "grounded" || event.stage === "final" ? { ...event, data: markCorrected(event.data) } : event)),
+  });
+  return { ...outcome, data: markCorrected(outcome.data) };
+}
+
+function stripCodeFences(s: string) {
+  return s.replace(/^```(json)?/i, "").replace(/```$/i, "").trim();
+}
+
+/** Parse a raw completion into a validated value, reporting bad JSON as a root-level issue. */
+export function parseModelJson(raw: string): ParseResult<AnalysisResult>;
+export function parseModelJson<T>(raw: string, parse: (json: unknown) => ParseResult<T>): ParseResult<T>;
+export function parseModelJson(raw: string, parse: (json: unknown) => ParseResult<unknown> = parseModelAnalysis) {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripCodeFences(raw));
+  } catch {
+    return { ok: false, issues: [{ path: "", message: NOT_JSON }] };
+  }
+  return parse(json);
+}
+
+/** Keep the resolved names and wine id over whatever spelling the grounding model wrote back. */
+function withIdentity(data: AnalysisResult, resolved: AnalysisResult): AnalysisResult {
+  const { producer, wine, appellation } = resolved.recognizedLabel;
+  return {
+    ...data,
+    wineId: resolved.wineId,
+    recognizedLabel: { ...data.recognizedLabel, producer, wine, appellation: appellation || data.recognizedLabel.appellation },
+  };
+}
+
+function recordPrice(key: string, data: AnalysisResult, market: Market) {
+  const pe = data.priceEstimate;
+  if (pe.low == null && pe.high == null) return;
+  const { producer, wine, vintage } = data.recognizedLabel;
+  return getPriceHistory().record(
+    { key, producer, wine, vintage },
+    {
+      observedAt: new Date().toISOString(),
+      market,
+      currency: pe.currency,
+      low: pe.low,
+      high: pe.high,
+      median: pe.median,
+      confidence: pe.confidence,
+      points: pe.points.filter((p) => !p.excluded).length,
+      sources: data.sources,
+    }
+  );
+}
+
+/** The computed price figures, as handed to the grounding model. */
+function pricePrompt(prices: PriceSummary): string {
+  if (prices.median == null) return "Price summary: none (no usable prices found in the evidence).";
+  const used = prices.points
+    .filter((p) => !p.excluded)
+    .map((p) => ({ source: p.url, as_listed: p.text, per_bottle: p.bottlePrice }));
+  const { currency, low, high, median, confidence } = prices;
+  return `Price summary (computed from the evidence; do not change):\n${JSON.stringify({ currency, low, high, median, confidence, used })}`;
+}
+
+/** Fill in `priceEstimate.converted` for the requester's currency. */
+function withConvertedPrice(data: AnalysisResult, currency: string, fx: FxTable): AnalysisResult {
+  const pe = data.priceEstimate;
+  return { ...data, priceEstimate: { ...pe, converted: convertPrice(pe, currency, fx) } };
+}
+
+/**
+ * Validate a request's `market` / `currency` (either may be missing). Throws
+ * BAD_REQUEST for an unknown market or a currency the FX table lacks.
+ */
+export async function parsePriceContext(market: unknown, currency: unknown): Promise<PriceContext> {
+  const out: PriceContext = {};
+  if (typeof market === "string" && market.trim()) {
+    const m = market.trim().toLowerCase();
+    const known = MARKETS.find((x) => x === m);
+    if (!known) throw new ApiError("BAD_REQUEST", `Unknown market; expected one of ${MARKETS.join(", ")}`);
+    out.market = known;
+  }
+  if (typeof currency === "string" && currency.trim()) {
+    const c = currency.trim().toUpperCase();
+    const fx = await getFxTable();
+    if (!hasCurrency(fx, c)) {
+      throw new ApiError("BAD_REQUEST", `No exchange rate for currency "${c}"; known: ${Object.keys(fx.rates).join(", ")}`);
+    }
+    out.currency = c;
+  }
+  return out;
+}
+
@@ -0,0 +1,16 @@
+// src/lib/price-history/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonPriceHistory } from "./json-store";
+import type { PriceHistoryStore } from "./types";
+
+export * from "./types";
+export { createJsonPriceHistory } from "./json-store";
+export { midPrice, valueCellar, type BottleValuation, type CellarValuation } from "./valuation";
+
+let store: PriceHistoryStore | null = null;
+
+/** Price observations for every wine grounded, in PRICE_HISTORY_FILE (default <DATA_DIR>/price-history.json). */
+export function getPriceHistory(): PriceHistoryStore {
+  store ??= createJsonPriceHistory(process.env.PRICE_HISTORY_FILE || dataPath("price-history.json"));
+  return store;
+}
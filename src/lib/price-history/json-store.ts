@@ -0,0 +1,39 @@
+// src/lib/price-history/json-store.ts
+import { jsonFile } from "@/lib/store/json-file";
+import type { PriceHistory, PriceHistoryStore } from "./types";
+
+type HistoryFile = { wines: Record<string, PriceHistory> };
+
+/** Older observations beyond this many per wine are dropped. */
+const MAX_OBSERVATIONS = 200;
+
+export function createJsonPriceHistory(file: string): PriceHistoryStore {
+  const store = jsonFile<HistoryFile>(file, () => ({ wines: {} }));
+
+  return {
+    async get(key) {
+      const { wines } = await store.read();
+      return wines[key] ?? null;
+    },
+
+    async latest(keys, market) {
+      const { wines } = await store.read();
+      const out = new Map<string, PriceHistory["observations"][number]>();
+      for (const key of keys) {
+        const last = wines[key]?.observations.findLast((o) => o.market === market);
+        if (last) out.set(key, last);
+      }
+      return out;
+    },
+
+    record(entry, observation) {
+      return store.update((data) => {
+        const history = (data.wines[entry.key] ??= { ...entry, observations: [] });
+        history.observations.push(observation);
+        if (history.observations.length > MAX_OBSERVATIONS) {
+          history.observations.splice(0, history.observations.length - MAX_OBSERVATIONS);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// src/lib/price-history/types.ts
+import type { Confidence, Source } from "@/lib/schema";
+import type { Market } from "@/lib/search/types";
+
+/** One grounded price estimate, as it stood when the wine was analysed. */
+export type PriceObservation = {
+  /** ISO timestamp */
+  observedAt: string;
+  market: Market;
+  currency: string;
+  low: number | null;
+  high: number | null;
+  median: number | null;
+  confidence: Confidence;
+  /** Price points the range was computed from (0 when it is the model's estimate). */
+  points: number;
+  sources: Source[];
+};
+
+/** Everything recorded for one wine identity (see `wineKey`). */
+export type PriceHistory = {
+  key: string;
+  producer: string;
+  wine: string;
+  vintage: number | null;
+  /** Oldest first. */
+  observations: PriceObservation[];
+};
+
+export interface PriceHistoryStore {
+  /** Resolves to null when the wine has never been priced. */
+  get(key: string): Promise<PriceHistory | null>;
+  /** The most recent observation of each of the given wines in `market`, by key. */
+  latest(keys: string[], market: Market): Promise<Map<string, PriceObservation>>;
+  record(entry: Omit<PriceHistory, "observations">, observation: PriceObservation): Promise<void>;
+}
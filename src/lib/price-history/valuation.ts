@@ -0,0 +1,101 @@
+// src/lib/price-history/valuation.ts
+import { wineKey } from "@/lib/cache/keys";
+import type { CellarBottle } from "@/lib/cellar/types";
+import { wineTitle } from "@/lib/drink-window";
+import { fxRate, type FxTable } from "@/lib/fx";
+import type { Market } from "@/lib/search/types";
+import type { PriceObservation, PriceHistoryStore } from "./types";
+
+export type BottleValuation = {
+  id: string;
+  title: string;
+  quantity: number;
+  /** One bottle, in the valuation currency; null when the wine has no price or no FX rate. */
+  unitValue: number | null;
+  value: number | null;
+  /** `history` = latest recorded observation, `analysis` = the estimate the bottle was saved with. */
+  basis: "history" | "analysis" | null;
+  /** When the price was observed (the bottle's save date for `analysis`). */
+  observedAt: string | null;
+};
+
+export type CellarValuation = {
+  market: Market;
+  currency: string;
+  rateDate: string;
+  /** Sum over the bottles that could be valued. */
+  total: number;
+  /** What those same bottles cost, where a purchase price was recorded. */
+  paid: number | null;
+  valued: number;
+  unvalued: number;
+  bottles: BottleValuation[];
+};
+
+/**
+ * Value the bottles in stock at the latest price recorded for each wine in
+ * `market`, falling back to the estimate they were saved with. A price is the median of its points,
+ * else the midpoint of low and high.
+ */
+export async function valueCellar(
+  bottles: CellarBottle[],
+  history: PriceHistoryStore,
+  currency: string,
+  fx: FxTable,
+  market: Market
+): Promise<CellarValuation> {
+  const inStock = bottles.filter((b) => b.quantity > 0);
+  // The key prices are recorded under: the grounded label, as saved
+  const keys = inStock.map((b) => wineKey(b.result.recognizedLabel));
+  const latest = await history.latest(keys.filter((k): k is string => k != null), market);
+
+  let total = 0;
+  let paid: number | null = null;
+  const out = inStock.map((b, i): BottleValuation => {
+    const key = keys[i];
+    const observed = key ? latest.get(key) : undefined;
+    const pe = observed ?? b.result.priceEstimate;
+    const mid = midPrice(pe);
+    const rate = fxRate(fx, pe.currency, currency);
+    const unitValue = mid != null && rate != null ? round2(mid * rate) : null;
+    const value = unitValue != null ? round2(unitValue * b.quantity) : null;
+
+    if (value != null) {
+      total += value;
+      const paidRate = fxRate(fx, b.purchaseCurrency, currency);
+      if (b.purchasePrice != null && paidRate != null) paid = (paid ?? 0) + b.purchasePrice * b.quantity * paidRate;
+    }
+    return {
+      id: b.id,
+      title: wineTitle(b.result),
+      quantity: b.quantity,
+      unitValue,
+      value,
+      basis: unitValue == null ? null : observed ? "history" : "analysis",
+      observedAt: unitValue == null ? null : observed ? observed.observedAt : b.createdAt,
+    };
+  });
+
+  const valued = out.filter((b) => b.value != null).length;
+  return {
+    market,
+    currency,
+    rateDate: fx.date,
+    total: round2(total),
+    paid: paid == null ? null : round2(paid),
+    valued,
+    unvalued: out.length - valued,
+    bottles: out,
+  };
+}
+
+/** The single figure a price range stands for. */
+export function midPrice(p: Pick<PriceObservation, "low" | "high" | "median">): number | null {
+  if (p.median != null) return p.median;
+  const known = [p.low, p.high].filter((n): n is number => n != null);
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : null;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
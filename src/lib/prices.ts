@@ -0,0 +1,221 @@
+// src/lib/prices.ts
+// Reads concrete prices out of search snippets ("£40.00 per bottle (75cl)",
+// "CHF 42.50", "6 x 75cl €180") and turns them into a price range, so the
+// estimate rests on the evidence rather than on the model's arithmetic.
+import { fxRate, type FxTable } from "@/lib/fx";
+import type { Confidence, PriceEstimate, PricePoint, RecognizedLabel } from "@/lib/schema";
+import type { Evidence } from "@/lib/search";
+
+export type PriceSummary = {
+  currency: string;
+  low: number | null;
+  high: number | null;
+  median: number | null;
+  confidence: Confidence;
+  points: PricePoint[];
+};
+
+const BOTTLE_ML = 750;
+/** A point further than this factor from the median is an outlier (a magnum slip, a case typo…). */
+const OUTLIER_FACTOR = 2;
+/** Per-bottle prices outside this band are misreads, not wine prices. */
+const PLAUSIBLE = { min: 2, max: 50_000 };
+
+// Longest first so "US$" and "CHF" are not read as "$" and a bare number
+const CURRENCY_TOKENS: Array<[string, string]> = [
+  ["US$", "USD"],
+  ["AU$", "AUD"],
+  ["A$", "AUD"],
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["NZ$", "NZD"],
+  ["HK$", "HKD"],
+  ["S$", "SGD"],
+  ["SFr.", "CHF"],
+  ["Fr.", "CHF"],
+  ["£", "GBP"],
+  ["€", "EUR"],
+  ["$", "USD"],
+  ["¥", "JPY"],
+];
+const ISO_CODES = ["GBP", "EUR", "USD", "CHF", "AUD", "CAD", "NZD", "HKD", "SGD", "JPY", "SEK", "NOK", "DKK", "ZAR"];
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+// Tokens that start with a letter must start a word too, or "Lafleur 2015" reads as EUR 2015
+const token = (t: string) => (/^[A-Za-z]/.test(t) ? `(?<![A-Za-z])${escape(t)}` : escape(t));
+const CURRENCY = `(${[...CURRENCY_TOKENS.map(([t]) => token(t)), ...ISO_CODES.map((c) => `${token(c)}\\b`)].join("|")})`;
+const AMOUNT = `(\\d{1,3}(?:[,.' ]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)`;
+/** "£40.00", "CHF 42.50", "45,00 €", "59.99 USD"; a trailing code followed by a number belongs to that number. */
+const PRICE = new RegExp(`${CURRENCY}\\s?${AMOUNT}(?![\\d.,]*\\d)|\\b${AMOUNT}\\s?${CURRENCY}(?!\\s?\\d)`, "gi");
+
+/** Price points in every snippet, sized and checked against the label's vintage (not yet converted). */
+export function extractPricePoints(evidence: Evidence[], label: RecognizedLabel): PricePoint[] {
+  const points: PricePoint[] = [];
+  for (const e of evidence) {
+    const vintageMatch = matchVintage(`${e.title} ${e.snippet}`, label.vintage);
+    for (const m of e.snippet.matchAll(PRICE)) {
+      const currency = currencyOf(m[1] ?? m[4]);
+      const amount = parseAmount(m[2] ?? m[3]);
+      if (!currency || amount == null) continue;
+      // "Vintage EUR 2015", "Amateur 90": a year next to a code is far likelier than a price
+      if (looksLikeYear(m[2] ?? m[3]) && !/[$£€¥]/.test(m[1] ?? m[4])) continue;
+
+      // The size usually follows the price ("£40 (75cl)", "£180 per case of 6")
+      const start = m.index ?? 0;
+      const after = e.snippet.slice(start + m[0].length).split(/[;.](?:\s|$)|,\s(?=[A-Za-z])/)[0].slice(0, 40);
+      const before = e.snippet.slice(Math.max(0, start - 25), start).split(/[;.,](?:\s|$)/).pop() ?? "";
+      const size = sizeOf(after) ?? sizeOf(before) ?? { volumeMl: BOTTLE_ML, caseSize: null };
+      if (size.caseSize === 0) continue; // a case without a bottle count can't be divided down
+
+      points.push({
+        title: e.title,
+        url: e.url,
+        text: `${before.trimStart()}${m[0]}${after.trimEnd()}`.trim(),
+        amount,
+        currency,
+        volumeMl: size.volumeMl,
+        caseSize: size.caseSize,
+        bottlePrice: null,
+        vintageMatch,
+        excluded: null,
+      });
+    }
+  }
+  return points;
+}
+
+/**
+ * Convert each point to one 75cl bottle in `currency`, leave out other vintages,
+ * unconvertible currencies and outliers, then take low / high / median of the rest.
+ * Confidence follows the number of points kept: 1 low, 2–3 medium, 4+ high.
+ */
+export function summarizePrices(points: PricePoint[], currency: string, fx: FxTable): PriceSummary {
+  const out = points.map((p): PricePoint => {
+    const rate = fxRate(fx, p.currency, currency);
+    const perBottle = (p.amount / (p.caseSize ?? 1)) * (BOTTLE_ML / p.volumeMl);
+    const bottlePrice = rate == null ? null : round2(perBottle * rate);
+    const excluded = p.vintageMatch === false ? "other-vintage" : rate == null ? "no-fx-rate" : null;
+    return { ...p, bottlePrice, excluded };
+  });
+
+  const plausible = (p: PricePoint) =>
+    p.bottlePrice != null && p.bottlePrice >= PLAUSIBLE.min && p.bottlePrice <= PLAUSIBLE.max;
+  let kept = out.filter((p) => !p.excluded && plausible(p));
+  for (const p of out) if (!p.excluded && !plausible(p)) p.excluded = "outlier";
+
+  if (kept.length >= 3) {
+    const mid = median(kept.map((p) => p.bottlePrice as number));
+    for (const p of kept) {
+      const ratio = (p.bottlePrice as number) / mid;
+      if (ratio > OUTLIER_FACTOR || ratio < 1 / OUTLIER_FACTOR) p.excluded = "outlier";
+    }
+    kept = kept.filter((p) => !p.excluded);
+  }
+
+  const prices = kept.map((p) => p.bottlePrice as number);
+  return {
+    currency,
+    low: prices.length > 0 ? Math.min(...prices) : null,
+    high: prices.length > 0 ? Math.max(...prices) : null,
+    median: prices.length > 0 ? round2(median(prices)) : null,
+    confidence: prices.length >= 4 ? "high" : prices.length >= 2 ? "medium" : "low",
+    points: out,
+  };
+}
+
+/**
+ * Put the computed figures into the estimate, keeping the model's note. With no
+ * usable points the model's own range stays, but only ever at low confidence.
+ */
+export function applyPriceSummary(pe: PriceEstimate, summary: PriceSummary): PriceEstimate {
+  if (summary.median == null) {
+    const note = summary.points.length > 0 ? "No usable prices in the evidence" : "No prices found in the evidence";
+    return {
+      ...pe,
+      confidence: "low",
+      median: null,
+      points: summary.points,
+      note: [pe.note, `(${note}; this range is the model's estimate.)`].filter(Boolean).join(" "),
+    };
+  }
+  const { currency, low, high, median, confidence, points } = summary;
+  return { ...pe, currency, low, high, median, confidence, points };
+}
+
+function currencyOf(token: string): string | null {
+  const upper = token.toUpperCase();
+  if (ISO_CODES.includes(upper)) return upper;
+  return CURRENCY_TOKENS.find(([t]) => t.toUpperCase() === upper)?.[1] ?? null;
+}
+
+/** 1900–2099 with no decimals: only read as a price when a currency symbol is attached. */
+function looksLikeYear(raw: string): boolean {
+  return /^(?:19|20)\d\d$/.test(raw);
+}
+
+/** "1,234.50", "1.234,50", "45,00", "1'250" (Swiss) → number. */
+function parseAmount(raw: string): number | null {
+  let s = raw.replace(/[' ]/g, "");
+  const lastSep = Math.max(s.lastIndexOf("."), s.lastIndexOf(","));
+  if (lastSep >= 0 && s.length - lastSep - 1 <= 2) {
+    // Final separator with 1–2 digits after it is the decimal point
+    s = `${s.slice(0, lastSep).replace(/[.,]/g, "")}.${s.slice(lastSep + 1)}`;
+  } else {
+    s = s.replace(/[.,]/g, "");
+  }
+  const n = Number(s);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const NAMED_SIZES: Array<[RegExp, number]> = [
+  [/\bhalf[- ]bottle\b|\bhalves\b/i, 375],
+  [/\bmagnum\b/i, 1500],
+  [/\bjeroboam\b|\bdouble magnum\b/i, 3000],
+];
+
+/** Bottle size and case count mentioned in a fragment; caseSize 0 means "per case" without a count. */
+function sizeOf(text: string): { volumeMl: number; caseSize: number | null } | null {
+  let volumeMl: number | null = null;
+  const vol = text.match(/(\d+(?:[.,]\d+)?)\s?(cl|ml|l|ltr|litres?|liters?)\b/i);
+  if (vol) {
+    const n = Number(vol[1].replace(",", "."));
+    const unit = vol[2].toLowerCase();
+    volumeMl = unit === "cl" ? n * 10 : unit === "ml" ? n : n * 1000;
+  } else {
+    volumeMl = NAMED_SIZES.find(([re]) => re.test(text))?.[1] ?? null;
+  }
+
+  let caseSize: number | null = null;
+  const count = text.match(/\bcase of (\d{1,2})\b|\b(\d{1,2})\s?x\s?\d|\b(\d{1,2})[- ]bottle case\b/i);
+  if (count) caseSize = Number(count[1] ?? count[2] ?? count[3]);
+  else if (/\bdozen\b/i.test(text)) caseSize = 12;
+  else if (/\bper case\b|\bthe case\b|\bcase price\b/i.test(text)) caseSize = 0;
+
+  if (volumeMl == null && caseSize == null) return null;
+  return { volumeMl: volumeMl && volumeMl > 0 ? volumeMl : BOTTLE_ML, caseSize: caseSize === 1 ? null : caseSize };
+}
+
+/**
+ * true when the text names the vintage, false when it names a different one,
+ * null when it names none. Drink-window years ("drink 2024 to 2040") don't count.
+ */
+function matchVintage(text: string, vintage: number | null): boolean | null {
+  if (vintage == null) return null;
+  const cleaned = text
+    .replace(/\b(?:drink|drinking|best|until|through|till|by|from|before|after|est\.?|since|founded|in)\s+(?:now\s*)?(?:[-–]|to)?\s*(?:19|20)\d{2}(?:\s*(?:[-–]|to)\s*(?:19|20)\d{2})?/gi, " ")
+    .replace(/\b(?:19|20)\d{2}\s*(?:[-–]|to)\s*(?:19|20)\d{2}\b/g, " ");
+  const thisYear = new Date().getFullYear();
+  const years = [...cleaned.matchAll(/\b((?:19|20)\d{2})\b/g)].map((m) => Number(m[1])).filter((y) => y <= thisYear);
+  if (years.includes(vintage)) return true;
+  return years.length > 0 ? false : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,20 @@
+// src/lib/quiz/index.ts
+import { dataPath } from "@/lib/store/json-file";
+import { createJsonQuizLog } from "./json-store";
+import type { QuizLog } from "./types";
+
+export * from "./types";
+export { createJsonQuizLog } from "./json-store";
+export { qualityLevel } from "./quality";
+export { makeQuestion, pickBottle, quizEligible } from "./question";
+export { quizTruth, scoreBlind, scoreReverse } from "./score";
+export { quizStats } from "./stats";
+export { parseQuizMode, parseQuizSubmission, type QuizSubmission } from "./validate";
+
+let log: QuizLog | null = null;
+
+/** Every quiz answer, in QUIZ_FILE (default <DATA_DIR>/quiz.json). */
+export function getQuizLog(): QuizLog {
+  log ??= createJsonQuizLog(process.env.QUIZ_FILE || dataPath("quiz.json"));
+  return log;
+}
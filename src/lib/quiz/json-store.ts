@@ -0,0 +1,25 @@
+// src/lib/quiz/json-store.ts
+import { randomUUID } from "node:crypto";
+import { jsonFile } from "@/lib/store/json-file";
+import type { QuizAttempt, QuizLog } from "./types";
+
+type QuizFile = { attempts: QuizAttempt[] };
+
+export function createJsonQuizLog(file: string): QuizLog {
+  const store = jsonFile<QuizFile>(file, () => ({ attempts: [] }));
+
+  return {
+    async list(user) {
+      const { attempts } = await store.read();
+      return user ? attempts.filter((a) => a.user.toLowerCase() === user.toLowerCase()) : attempts;
+    },
+
+    record(input) {
+      return store.update((data) => {
+        const attempt: QuizAttempt = { id: randomUUID(), answeredAt: new Date().toISOString(), ...input };
+        data.attempts.push(attempt);
+        return attempt;
+      });
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// src/lib/quiz/quality.ts
+// The labelling tier a wine sits in, read from its appellation and name. Only
+// the terms a Level 2 taster is expected to know; anything else with a named
+// origin counts as PDO.
+import { normalizeName } from "@/lib/identity/normalize";
+import type { RecognizedLabel } from "@/lib/schema";
+import type { QualityLevel } from "./types";
+
+const GRAND = /\b(grand cru|cru classe|premier grand cru|first growth|gran reserva|gran selezione|grosse lage|grosses gewachs)\b/;
+// "Classico" names the historic zone, not a step up in quality, so it isn't here
+const PREMIER = /\b(premier cru|riserva|reserva|crianza|kabinett|spatlese|auslese|pradikatswein|erste lage)\b/;
+const PGI = /\b(igp|igt|pgi|vin de pays|vino de la tierra|landwein|regional wine)\b/;
+const TABLE = /\b(vin de france|vino d italia|vino de espana|vin de table|table wine|vino da tavola|deutscher wein)\b/;
+
+export function qualityLevel(label: RecognizedLabel): QualityLevel {
+  const text = normalizeName(`${label.wine} ${label.appellation}`);
+  if (GRAND.test(text)) return "grand";
+  if (PREMIER.test(text)) return "premier";
+  if (TABLE.test(text)) return "table";
+  if (PGI.test(text)) return "pgi";
+  return label.appellation || label.region ? "pdo" : "table";
+}
@@ -0,0 +1,42 @@
+// src/lib/quiz/question.ts
+import type { CellarBottle } from "@/lib/cellar/types";
+import type { AnalysisResult } from "@/lib/schema";
+import type { QuizMode, QuizQuestion } from "./types";
+
+/** Whether a result has enough to ask about: a profile to taste from, and a label or grapes to name. */
+export function quizEligible(result: AnalysisResult, mode: QuizMode): boolean {
+  const { wsetLevel2: w, nose, palate } = result.tastingNotes;
+  const af = result.aromasAndFlavours;
+  const hasProfile =
+    [w.sweetness, w.acidity, w.tannin, w.body, w.alcohol, w.finishLength].some(Boolean) ||
+    nose.length + palate.length + af.primary.length + af.secondary.length + af.tertiary.length > 0;
+  const rl = result.recognizedLabel;
+  if (!hasProfile) return false;
+  return mode === "blind" ? result.grapes.length > 0 || !!rl.country : !!(rl.producer || rl.wine);
+}
+
+/** The side of the result the taster gets to see; the rest is the answer. */
+export function makeQuestion(bottle: CellarBottle, mode: QuizMode): QuizQuestion {
+  const r = bottle.result;
+  if (mode === "blind") {
+    return {
+      mode,
+      bottleId: bottle.id,
+      profile: { tastingNotes: r.tastingNotes, aromasAndFlavours: r.aromasAndFlavours, abv: r.abv },
+    };
+  }
+  return { mode, bottleId: bottle.id, label: r.recognizedLabel, grapes: r.grapes.map((g) => g.variety) };
+}
+
+/** A random eligible bottle, avoiding the `recent` ones while there are others. */
+export function pickBottle(
+  bottles: CellarBottle[],
+  mode: QuizMode,
+  recent: string[],
+  random: () => number = Math.random
+): CellarBottle | null {
+  const eligible = bottles.filter((b) => quizEligible(b.result, mode));
+  const fresh = eligible.filter((b) => !recent.includes(b.id));
+  const pool = fresh.length > 0 ? fresh : eligible;
+  return pool.length > 0 ? pool[Math.floor(random() * pool.length)] : null;
+}
@@ -0,0 +1,182 @@
+// src/lib/quiz/score.ts
+import { normalizeName, similarity } from "@/lib/identity/normalize";
+import { diffNote } from "@/lib/notes/diff";
+import type { AnalysisResult, GrapePart } from "@/lib/schema";
+import { qualityLevel } from "./quality";
+import {
+  QUALITY_LEVELS,
+  QUALITY_LEVEL_LABEL,
+  type BlindAnswer,
+  type QuizPart,
+  type QuizScore,
+  type QuizTruth,
+  type ReverseAnswer,
+} from "./types";
+
+/** Partial credit: right country, wrong region; a blending grape; one step off on a scale. */
+const PARTIAL = 0.5;
+/** Region spellings this similar count as the same place. */
+const REGION_PASS = 0.85;
+/** Words many place names share; on their own they don't pin down a region. */
+const PLACE_STOP_WORDS = new Set([
+  "valley", "valle", "vallee", "coast", "hills", "hill", "county", "river", "region", "district", "wine",
+  "north", "south", "east", "west", "northern", "southern", "eastern", "western", "central", "upper", "lower",
+  "the", "de", "del", "della", "di", "du", "des", "la", "le", "les", "el", "y", "and",
+]);
+
+/** Names a grape goes by in different countries, keyed to one of them. */
+const GRAPE_SYNONYMS: Record<string, string> = {
+  shiraz: "syrah",
+  garnacha: "grenache",
+  "garnacha tinta": "grenache",
+  cannonau: "grenache",
+  monastrell: "mourvedre",
+  mataro: "mourvedre",
+  "pinot grigio": "pinot gris",
+  grauburgunder: "pinot gris",
+  spatburgunder: "pinot noir",
+  "pinot nero": "pinot noir",
+  weissburgunder: "pinot blanc",
+  "pinot bianco": "pinot blanc",
+  primitivo: "zinfandel",
+  cot: "malbec",
+  "tinta roriz": "tempranillo",
+  "tinto fino": "tempranillo",
+  aragonez: "tempranillo",
+  carinena: "carignan",
+  mazuelo: "carignan",
+  "fume blanc": "sauvignon blanc",
+  "prugnolo gentile": "sangiovese",
+  spanna: "nebbiolo",
+};
+
+const COUNTRY_SYNONYMS: Record<string, string> = {
+  usa: "united states",
+  us: "united states",
+  america: "united states",
+  "united states of america": "united states",
+  uk: "united kingdom",
+  england: "united kingdom",
+  deutschland: "germany",
+  espana: "spain",
+  italia: "italy",
+};
+
+export function grapeKey(name: string): string {
+  const n = normalizeName(name);
+  return GRAPE_SYNONYMS[n] ?? n;
+}
+
+function countryKey(name: string): string {
+  const n = normalizeName(name);
+  return COUNTRY_SYNONYMS[n] ?? n;
+}
+
+/** The answer key for a stored result. */
+export function quizTruth(result: AnalysisResult): QuizTruth {
+  return {
+    label: result.recognizedLabel,
+    grapes: mainFirst(result.grapes).map((g) => g.variety),
+    quality: qualityLevel(result.recognizedLabel),
+    profile: { tastingNotes: result.tastingNotes, aromasAndFlavours: result.aromasAndFlavours },
+  };
+}
+
+/** Highest share first; the model's order when it gave no percentages. */
+function mainFirst(grapes: GrapePart[]): GrapePart[] {
+  return grapes
+    .map((g, i) => ({ g, i }))
+    .sort((a, b) => (b.g.percent ?? -1) - (a.g.percent ?? -1) || a.i - b.i)
+    .map(({ g }) => g);
+}
+
+/** Grape, origin and quality level, each 0, 0.5 or 1. Parts the stored result can't answer are left out. */
+export function scoreBlind(truth: QuizTruth, answer: BlindAnswer): QuizScore {
+  const parts: QuizPart[] = [];
+  const rl = truth.label;
+
+  if (truth.grapes.length > 0) {
+    const guess = grapeKey(answer.grape);
+    const keys = truth.grapes.map(grapeKey);
+    const score = !guess ? 0 : guess === keys[0] ? 1 : keys.includes(guess) ? PARTIAL : 0;
+    parts.push({ part: "grape", score, expected: truth.grapes.join(", "), given: answer.grape });
+  }
+
+  if (rl.country || rl.region || rl.appellation) {
+    const countryRight = !!rl.country && !!answer.country && countryKey(answer.country) === countryKey(rl.country);
+    const places = [rl.region, rl.appellation].filter(Boolean);
+    const regionRight = places.some((p) => samePlace(p, answer.region));
+    // A right region implies the country; with no region on record the country is the whole answer
+    const score = regionRight || (countryRight && places.length === 0) ? 1 : countryRight ? PARTIAL : 0;
+    parts.push({
+      part: "origin",
+      score,
+      expected: [rl.region || rl.appellation, rl.country].filter(Boolean).join(", "),
+      given: [answer.region, answer.country].filter(Boolean).join(", "),
+    });
+  }
+
+  const steps = answer.quality ? Math.abs(QUALITY_LEVELS.indexOf(answer.quality) - QUALITY_LEVELS.indexOf(truth.quality)) : null;
+  parts.push({
+    part: "quality",
+    score: steps === 0 ? 1 : steps === 1 ? PARTIAL : 0,
+    expected: QUALITY_LEVEL_LABEL[truth.quality],
+    given: answer.quality ? QUALITY_LEVEL_LABEL[answer.quality] : "",
+  });
+
+  return { total: mean(parts.map((p) => p.score)), parts };
+}
+
+/** Structure (1 per field on the level, 0.5 one step off) and aromas (overlap of the descriptors). */
+export function scoreReverse(truth: QuizTruth, answer: ReverseAnswer): QuizScore {
+  const diff = diffNote(answer, truth.profile);
+  const parts: QuizPart[] = [];
+
+  const fields = diff.structure.filter((s) => s.model);
+  if (fields.length > 0) {
+    parts.push({
+      part: "structure",
+      score: mean(fields.map((s) => (s.steps === 0 ? 1 : s.steps != null && Math.abs(s.steps) === 1 ? PARTIAL : 0))),
+      expected: fields.map((s) => `${s.field} ${s.model}`).join(", "),
+      given: fields.map((s) => `${s.field} ${s.yours || "—"}`).join(", "),
+    });
+  }
+
+  const tiers = Object.values(diff.aromas);
+  const shared = tiers.flatMap((d) => d.shared);
+  const yours = [...shared, ...tiers.flatMap((d) => d.onlyYours)];
+  const model = [...shared, ...tiers.flatMap((d) => d.onlyModel)];
+  if (model.length > 0) {
+    parts.push({
+      part: "aromas",
+      // F1 of the two sets: missing and extra descriptors both cost
+      score: (2 * shared.length) / (yours.length + model.length),
+      expected: model.join(", "),
+      given: yours.join(", "),
+    });
+  }
+
+  return { total: mean(parts.map((p) => p.score)), parts };
+}
+
+/**
+ * Right when every distinctive word of one name is in the other ("Napa" for
+ * "Napa Valley") or the two are near-identical spellings. "Valley" alone matches nothing.
+ */
+function samePlace(truth: string, guess: string): boolean {
+  const a = placeWords(truth);
+  const b = placeWords(guess);
+  if (a.length === 0 || b.length === 0 || b.join("").length < 3) return false;
+  const within = (xs: string[], ys: string[]) => xs.every((x) => ys.includes(x));
+  return within(a, b) || within(b, a) || similarity(a.join(" "), b.join(" ")) >= REGION_PASS;
+}
+
+function placeWords(s: string): string[] {
+  return normalizeName(s)
+    .split(" ")
+    .filter((w) => w && !PLACE_STOP_WORDS.has(w));
+}
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((s, x) => s + x, 0) / xs.length : 0;
+}
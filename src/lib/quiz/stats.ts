@@ -0,0 +1,62 @@
+// src/lib/quiz/stats.ts
+import { grapeKey } from "./score";
+import { QUIZ_MODES, type QuizAttempt, type QuizPartName, type QuizStats, type QuizTally } from "./types";
+
+/** A grape or region is weak when its mean score is below this… */
+const WEAK_BELOW = 0.5;
+/** …over at least this many attempts, so one bad guess doesn't count. */
+const MIN_ATTEMPTS = 2;
+
+/**
+ * Per-user stats over their attempts. Grapes are tallied by the main grape and
+ * scored on the grape part where there is one; regions likewise on the origin
+ * part. Reverse attempts count their total for both.
+ */
+export function quizStats(user: string, attempts: QuizAttempt[]): QuizStats {
+  const grapes = tally(attempts, "grape", (a) => (a.truth.grapes[0] ? [grapeKey(a.truth.grapes[0]), a.truth.grapes[0]] : null));
+  const regions = tally(attempts, "origin", (a) => {
+    const { region, appellation, country } = a.truth.label;
+    const name = [region || appellation, country].filter(Boolean).join(", ");
+    return name ? [name.toLowerCase(), name] : null;
+  });
+
+  return {
+    user,
+    attempts: attempts.length,
+    meanScore: mean(attempts.map((a) => a.score.total)),
+    byMode: Object.fromEntries(
+      QUIZ_MODES.map((mode) => {
+        const of = attempts.filter((a) => a.mode === mode);
+        return [mode, { attempts: of.length, meanScore: mean(of.map((a) => a.score.total)) }];
+      })
+    ) as QuizStats["byMode"],
+    grapes,
+    regions,
+    weakGrapes: grapes.filter(isWeak).map((t) => t.name),
+    weakRegions: regions.filter(isWeak).map((t) => t.name),
+  };
+}
+
+/** `keyOf` gives the grouping key and the name to show, or null to skip the attempt. */
+function tally(attempts: QuizAttempt[], part: QuizPartName, keyOf: (a: QuizAttempt) => [string, string] | null): QuizTally[] {
+  const groups = new Map<string, { name: string; scores: number[] }>();
+  for (const a of attempts) {
+    const key = keyOf(a);
+    if (!key) continue;
+    const score = a.score.parts.find((p) => p.part === part)?.score ?? a.score.total;
+    const g = groups.get(key[0]) ?? { name: key[1], scores: [] };
+    g.scores.push(score);
+    groups.set(key[0], g);
+  }
+  return [...groups.values()]
+    .map(({ name, scores }) => ({ name, attempts: scores.length, meanScore: mean(scores) }))
+    .sort((a, b) => a.meanScore - b.meanScore || b.attempts - a.attempts);
+}
+
+function isWeak(t: QuizTally): boolean {
+  return t.attempts >= MIN_ATTEMPTS && t.meanScore < WEAK_BELOW;
+}
+
+function mean(xs: number[]): number {
+  return xs.length > 0 ? xs.reduce((s, x) => s + x, 0) / xs.length : 0;
+}
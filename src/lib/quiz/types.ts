@@ -0,0 +1,81 @@
+// src/lib/quiz/types.ts
+import type { NoteAssessment } from "@/lib/notes/types";
+import type { RecognizedLabel } from "@/lib/schema";
+
+/** `blind`: see the profile, name the wine. `reverse`: see the label, describe the wine. */
+export const QUIZ_MODES = ["blind", "reverse"] as const;
+export type QuizMode = (typeof QUIZ_MODES)[number];
+
+/** Labelling tiers, lowest first, as read from the appellation and wine name. */
+export const QUALITY_LEVELS = ["table", "pgi", "pdo", "premier", "grand"] as const;
+export type QualityLevel = (typeof QUALITY_LEVELS)[number];
+
+export const QUALITY_LEVEL_LABEL: Record<QualityLevel, string> = {
+  table: "Wine without a GI",
+  pgi: "PGI (IGP, IGT, vin de pays…)",
+  pdo: "PDO (AOC, DOC, DO, AVA…)",
+  premier: "Premier cru, riserva, reserva…",
+  grand: "Grand cru, cru classé, gran reserva…",
+};
+
+export type QuizQuestion =
+  | { mode: "blind"; bottleId: string; profile: NoteAssessment & { abv: number | null } }
+  | { mode: "reverse"; bottleId: string; label: RecognizedLabel; grapes: string[] };
+
+/** Free text except `quality`; "" means no guess. */
+export type BlindAnswer = { grape: string; country: string; region: string; quality: QualityLevel | "" };
+
+export type ReverseAnswer = NoteAssessment;
+
+/** What the stored result says, as the answers are scored against it. */
+export type QuizTruth = {
+  label: RecognizedLabel;
+  /** Main grape first. */
+  grapes: string[];
+  quality: QualityLevel;
+  profile: NoteAssessment;
+};
+
+export type QuizPartName = "grape" | "origin" | "quality" | "structure" | "aromas";
+
+/** 0–1; 0.5 is the usual partial credit (right country, wrong region). */
+export type QuizPart = { part: QuizPartName; score: number; expected: string; given: string };
+
+/** `total` is the mean of the parts that could be scored. */
+export type QuizScore = { total: number; parts: QuizPart[] };
+
+export type QuizAttempt = {
+  id: string;
+  /** ISO timestamp */
+  answeredAt: string;
+  user: string;
+  mode: QuizMode;
+  bottleId: string;
+  wineId: string | null;
+  truth: QuizTruth;
+  answer: BlindAnswer | ReverseAnswer;
+  score: QuizScore;
+};
+
+export type QuizAttemptInput = Omit<QuizAttempt, "id" | "answeredAt">;
+
+export type QuizTally = { name: string; attempts: number; meanScore: number };
+
+export type QuizStats = {
+  user: string;
+  attempts: number;
+  meanScore: number;
+  byMode: Record<QuizMode, { attempts: number; meanScore: number }>;
+  /** Weakest first. */
+  grapes: QuizTally[];
+  regions: QuizTally[];
+  /** Tallies with enough attempts and a mean below the pass mark. */
+  weakGrapes: string[];
+  weakRegions: string[];
+};
+
+export interface QuizLog {
+  /** Oldest first; `user` is matched case-insensitively. */
+  list(user?: string): Promise<QuizAttempt[]>;
+  record(input: QuizAttemptInput): Promise<QuizAttempt>;
+}
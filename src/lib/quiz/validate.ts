@@ -0,0 +1,56 @@
+// src/lib/quiz/validate.ts
+import { parseAnalysis, type FieldIssue, type ParseResult } from "@/lib/schema";
+import { QUALITY_LEVELS, QUIZ_MODES, type BlindAnswer, type QualityLevel, type QuizMode, type ReverseAnswer } from "./types";
+
+export type QuizSubmission = { user: string; bottleId: string } & (
+  | { mode: "blind"; answer: BlindAnswer }
+  | { mode: "reverse"; answer: ReverseAnswer }
+);
+
+export function parseQuizMode(value: unknown): QuizMode | null {
+  return QUIZ_MODES.includes(value as QuizMode) ? (value as QuizMode) : null;
+}
+
+/**
+ * Validate an answer POST: `{ user, bottleId, mode, answer }`. A blind answer is
+ * `{ grape?, country?, region?, quality? }`; a reverse one is
+ * `{ tastingNotes?, aromasAndFlavours? }`, coerced onto the SAT scales and the
+ * aroma lexicon as model output is.
+ */
+export function parseQuizSubmission(body: unknown): ParseResult<QuizSubmission> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+  const b = body as Record<string, unknown>;
+  const issues: FieldIssue[] = [];
+
+  const user = typeof b.user === "string" ? b.user.trim() : "";
+  if (!user) issues.push({ path: "user", message: "expected a non-empty string" });
+  const bottleId = typeof b.bottleId === "string" ? b.bottleId : "";
+  if (!bottleId) issues.push({ path: "bottleId", message: "expected a non-empty string" });
+  const mode = parseQuizMode(b.mode);
+  if (!mode) issues.push({ path: "mode", message: `expected one of ${QUIZ_MODES.join(", ")}` });
+
+  const a = typeof b.answer === "object" && b.answer !== null && !Array.isArray(b.answer) ? (b.answer as Record<string, unknown>) : null;
+  if (!a) issues.push({ path: "answer", message: "expected an object" });
+  if (issues.length > 0 || !a || !mode) return { ok: false, issues };
+
+  if (mode === "blind") {
+    const answer: BlindAnswer = { grape: "", country: "", region: "", quality: "" };
+    for (const key of ["grape", "country", "region"] as const) {
+      if (a[key] === undefined) continue;
+      if (typeof a[key] === "string") answer[key] = a[key].trim();
+      else issues.push({ path: `answer.${key}`, message: "expected a string" });
+    }
+    if (a.quality !== undefined && a.quality !== "") {
+      if (QUALITY_LEVELS.includes(a.quality as QualityLevel)) answer.quality = a.quality as QualityLevel;
+      else issues.push({ path: "answer.quality", message: `expected one of ${QUALITY_LEVELS.join(", ")}` });
+    }
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value: { user, bottleId, mode, answer } };
+  }
+
+  const r = parseAnalysis({ tastingNotes: a.tastingNotes, aromasAndFlavours: a.aromasAndFlavours });
+  if (!r.ok) return { ok: false, issues: r.issues.map((i) => ({ ...i, path: `answer.${i.path}` })) };
+  const answer: ReverseAnswer = { tastingNotes: r.value.tastingNotes, aromasAndFlavours: r.value.aromasAndFlavours };
+  return { ok: true, value: { user, bottleId, mode, answer } };
+}
@@ -0,0 +1,123 @@
+// src/lib/sat.ts
+// Maps the model's free-form structure words ("med+", "fairly high", "full-bodied",
+// "bone dry") onto the WSET Level 2 Systematic Approach to Tasting scales.
+import type { StructureLevel, Sweetness } from "@/lib/schema";
+
+/** The structure fields of `wsetLevel2`, in tasting order. */
+export const SAT_STRUCTURE_FIELDS = ["acidity", "tannin", "body", "alcohol", "finishLength"] as const;
+
+const LEVELS: StructureLevel[] = ["low", "medium(-)", "medium", "medium(+)", "high"];
+
+/** Single words that stand for a level on their own. */
+const STRUCTURE_WORDS: Record<string, StructureLevel> = {
+  low: "low",
+  light: "low",
+  soft: "low",
+  short: "low",
+  delicate: "low",
+  lean: "low",
+  thin: "low",
+  moderate: "medium",
+  medium: "medium",
+  med: "medium",
+  mid: "medium",
+  average: "medium",
+  firm: "medium(+)",
+  grippy: "medium(+)",
+  crisp: "medium(+)",
+  high: "high",
+  full: "high",
+  long: "high",
+  pronounced: "high",
+  bold: "high",
+  big: "high",
+  powerful: "high",
+};
+
+/** Softening or strengthening a level: "fairly high" is medium(+), "very light" is low. */
+const HEDGES = /^(fairly|moderately|quite|rather|somewhat|slightly)\s+/;
+const INTENSIFIERS = /^(very|extremely|super|really)\s+/;
+
+/** Words that only say which field is meant ("full-bodied", "high acidity"). */
+const FIELD_NOISE =
+  /[-\s]+(bodied|body|acidity|acid|tannins?|tannic|alcohol|abv|finish|length|palate|structure)$|^(body|acidity|tannins?|alcohol|finish)\s*:?\s+/g;
+
+/**
+ * Normalise one structure descriptor. Returns "" with `mapped: false` when the
+ * wording can't be placed on the scale, so the caller can keep the original.
+ */
+export function normalizeStructure(input: string): { value: StructureLevel | ""; mapped: boolean } {
+  const s = clean(input);
+  if (!s) return { value: "", mapped: true };
+  const value = structureLevel(s);
+  return value ? { value, mapped: true } : { value: "", mapped: false };
+}
+
+function structureLevel(s: string): StructureLevel | null {
+  // Scores like "4", "4/5"
+  const score = s.match(/^([1-5])(?:\s*\/\s*5)?$/);
+  if (score) return LEVELS[Number(score[1]) - 1];
+
+  // medium(+), medium+, med plus, medium minus…
+  const med = s.match(/^(?:medium|med|mid)\s*(\+|-|plus|minus)$/);
+  if (med) return med[1] === "+" || med[1] === "plus" ? "medium(+)" : "medium(-)";
+
+  // Ranges: "low to medium", "medium-high", "med/high"
+  const range = s.match(/^(\w+)\s*(?:-|to|\/|–)\s*(\w+)$/);
+  if (range) {
+    const a = STRUCTURE_WORDS[range[1]];
+    const b = STRUCTURE_WORDS[range[2]];
+    if (a && b) return LEVELS[Math.round((LEVELS.indexOf(a) + LEVELS.indexOf(b)) / 2)] ?? null;
+  }
+
+  if (HEDGES.test(s)) {
+    const base = STRUCTURE_WORDS[s.replace(HEDGES, "")];
+    if (base === "high") return "medium(+)";
+    if (base === "low") return "medium(-)";
+    return base ?? null;
+  }
+  if (INTENSIFIERS.test(s)) {
+    const base = STRUCTURE_WORDS[s.replace(INTENSIFIERS, "")];
+    return base === "high" || base === "low" ? base : null;
+  }
+
+  return STRUCTURE_WORDS[s] ?? null;
+}
+
+/**
+ * Alcohol also accepts an ABV ("13.5%"), placed with the SAT bands:
+ * below 11% low, 11–13.9% medium, 14% and above high.
+ */
+export function normalizeAlcohol(input: string): { value: StructureLevel | ""; mapped: boolean } {
+  const abv = input.trim().match(/^(\d+(?:\.\d+)?)\s*%?(?:\s*abv)?$/i);
+  if (abv && Number(abv[1]) > 5) {
+    const n = Number(abv[1]);
+    return { value: n < 11 ? "low" : n < 14 ? "medium" : "high", mapped: true };
+  }
+  return normalizeStructure(input);
+}
+
+const SWEETNESS_WORDS: Array<[RegExp, Sweetness]> = [
+  [/^(bone[- ]dry|very dry|dry|brut|extra brut|brut nature|zero dosage|sec(?:o|co)?|trocken)$/, "dry"],
+  [/^(off[- ]dry|medium[- ]dry|semi[- ]dry|slightly sweet|just off[- ]dry|halbtrocken|extra dry|feinherb)$/, "off-dry"],
+  [/^(medium|medium[- ]sweet|semi[- ]sweet|demi[- ]sec|moelleux|lieblich|amabile)$/, "medium"],
+  [/^(sweet|very sweet|luscious(?:ly sweet)?|doux|dolce|dulce|liquoreux)$/, "sweet"],
+];
+
+/** Normalise a sweetness descriptor onto dry / off-dry / medium / sweet. */
+export function normalizeSweetness(input: string): { value: Sweetness | ""; mapped: boolean } {
+  const s = clean(input).replace(/[-\s]+sweetness$|^sweetness\s*:?\s+/, "");
+  if (!s) return { value: "", mapped: true };
+  const hit = SWEETNESS_WORDS.find(([re]) => re.test(s));
+  return hit ? { value: hit[1], mapped: true } : { value: "", mapped: false };
+}
+
+function clean(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/[()]/g, "")
+    .replace(FIELD_NOISE, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
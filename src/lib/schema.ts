@@ -0,0 +1,802 @@
+// src/lib/schema.ts
+// Single source of truth for the analysis result shape. Shared by the API route
+// (to validate/coerce model output) and the page (to type what it renders).
+import { canonicalAromaList, canonicalizeAromas } from "@/lib/aromas";
+import { normalizeAlcohol, normalizeStructure, normalizeSweetness } from "@/lib/sat";
+
+export const SWEETNESS_LEVELS = ["dry", "off-dry", "medium", "sweet"] as const;
+export const STRUCTURE_LEVELS = ["low", "medium(-)", "medium", "medium(+)", "high"] as const;
+export const CONFIDENCE_LEVELS = ["low", "medium", "high"] as const;
+/** Which photo of the bottle an image shows. */
+export const IMAGE_ROLES = ["front", "back", "capsule", "other"] as const;
+/** Where a value came from: printed on a photo, the model's own knowledge, web evidence, or corrected by the user. */
+export const ORIGINS = ["label", "inferred", "web", "user"] as const;
+/** How a wine-list line is sold. */
+export const SERVINGS = ["bottle", "glass"] as const;
+/** The facts read off a label, in the order they are shown. */
+export const LABEL_FIELDS = ["producer", "wine", "appellation", "region", "country", "vintage"] as const;
+/** Fields that carry provenance: every top-level field, plus the individual label facts. */
+export const PROVENANCE_FIELDS = [
+  "recognizedLabel",
+  "recognizedLabel.producer",
+  "recognizedLabel.wine",
+  "recognizedLabel.appellation",
+  "recognizedLabel.region",
+  "recognizedLabel.country",
+  "recognizedLabel.vintage",
+  "grapes",
+  "abv",
+  "tastingNotes",
+  "drinkWindow",
+  "priceEstimate",
+  "caveats",
+  "aromasAndFlavours",
+] as const;
+
+export type Sweetness = (typeof SWEETNESS_LEVELS)[number];
+export type StructureLevel = (typeof STRUCTURE_LEVELS)[number];
+export type Confidence = (typeof CONFIDENCE_LEVELS)[number];
+export type ImageRole = (typeof IMAGE_ROLES)[number];
+export type ProvenanceField = (typeof PROVENANCE_FIELDS)[number];
+export type Origin = (typeof ORIGINS)[number];
+export type Serving = (typeof SERVINGS)[number];
+export type LabelField = (typeof LABEL_FIELDS)[number];
+
+export type FieldProvenance = {
+  origin: Origin;
+  /** The photo it was read from, when origin is "label". */
+  image?: ImageRole;
+  /** Index into `sources`, when origin is "web". */
+  source?: number;
+  confidence: Confidence;
+};
+
+export type GrapePart = { variety: string; percent: number | null };
+
+export type RecognizedLabel = {
+  producer: string;
+  wine: string;
+  appellation: string;
+  region: string;
+  country: string;
+  vintage: number | null;
+};
+
+export type WsetField = "sweetness" | "acidity" | "tannin" | "body" | "alcohol" | "finishLength";
+
+/** Values are on the SAT scales; "" means the model could not say, or said something off the scale. */
+export type WsetL2 = {
+  sweetness: Sweetness | "";
+  acidity: StructureLevel | "";
+  tannin: StructureLevel | "";
+  body: StructureLevel | "";
+  alcohol: StructureLevel | "";
+  finishLength: StructureLevel | "";
+  /** The model's own wording for descriptors that could not be placed on the scale. */
+  unmapped?: Partial<Record<WsetField, string>>;
+};
+
+export type TastingNotes = {
+  nose: string[];
+  palate: string[];
+  finish: string;
+  wsetLevel2: WsetL2;
+};
+
+export type DrinkWindow = {
+  drinkNow: boolean;
+  from: string;
+  to: string;
+  peakFrom: string;
+  peakTo: string;
+  decant: string;
+};
+
+/** `currency` is the currency the estimate was found in (usually the evidence's). */
+export type PriceEstimate = {
+  currency: string;
+  low: number | null;
+  high: number | null;
+  confidence: Confidence;
+  note: string;
+  /** Middle of the price points found in the evidence; null when the range is the model's own estimate. */
+  median: number | null;
+  /** Every price found in the evidence, including those left out of the range. */
+  points: PricePoint[];
+  /** The same range in the requester's currency; null when no FX rate was available. */
+  converted: ConvertedPrice | null;
+};
+
+/** Why a price point was left out of low/high/median. */
+export const PRICE_EXCLUSIONS = ["outlier", "other-vintage", "no-fx-rate"] as const;
+export type PriceExclusion = (typeof PRICE_EXCLUSIONS)[number];
+
+/** One price read from an evidence snippet. */
+export type PricePoint = {
+  title: string;
+  url: string;
+  /** The snippet text the price was read from, e.g. "£40.00 per bottle (75cl)". */
+  text: string;
+  amount: number;
+  currency: string;
+  /** Bottle size the price is for; 750 when the snippet doesn't say. */
+  volumeMl: number;
+  /** Bottles in the case when the price is per case, else null. */
+  caseSize: number | null;
+  /** One 75cl bottle in the estimate's currency; null when it couldn't be converted. */
+  bottlePrice: number | null;
+  /** Whether the source names the label's vintage; null when it names none (or the label has none). */
+  vintageMatch: boolean | null;
+  excluded: PriceExclusion | null;
+};
+
+/** Converted with the offline FX table; `rateDate` is the date of the rates used. */
+export type ConvertedPrice = {
+  currency: string;
+  low: number | null;
+  high: number | null;
+  rate: number;
+  rateDate: string;
+};
+
+export type AromasAndFlavours = {
+  primary: string[];
+  secondary: string[];
+  tertiary: string[];
+};
+
+export type Source = { title: string; url: string };
+
+export type AnalysisResult = {
+  recognizedLabel: RecognizedLabel;
+  /** Stable id of the wine across label spellings and vintages; assigned by the server, never the model. */
+  wineId: string | null;
+  grapes: GrapePart[];
+  abv: number | null;
+  tastingNotes: TastingNotes;
+  drinkWindow: DrinkWindow;
+  priceEstimate: PriceEstimate;
+  caveats: string[];
+  aromasAndFlavours: AromasAndFlavours;
+  sources: Source[];
+  /** Only fields the model reported on are present. */
+  provenance: Partial<Record<ProvenanceField, FieldProvenance>>;
+};
+
+/** One wine offered on a restaurant list. */
+export type WineListLine = {
+  /** Heading it is listed under, e.g. "Red" or "By the glass". */
+  section: string;
+  producer: string;
+  wine: string;
+  vintage: number | null;
+  serving: Serving;
+  /** As printed, in the list's currency. */
+  price: number | null;
+  /** Pour or bottle size when printed (125 for a 125ml glass, 1500 for a magnum). */
+  volumeMl: number | null;
+};
+
+export type WineList = { currency: string; lines: WineListLine[] };
+
+export type FieldIssue = { path: string; message: string };
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: FieldIssue[] };
+
+/** Example object embedded in the prompts. Enum slots list their allowed values. */
+export const SCHEMA_TEMPLATE = {
+  recognizedLabel: {
+    producer: "",
+    wine: "",
+    appellation: "",
+    region: "",
+    country: "",
+    vintage: "number|null",
+  },
+  grapes: [{ variety: "", percent: "number|null" }],
+  abv: "number|null",
+  tastingNotes: {
+    nose: ["string"],
+    palate: ["string"],
+    finish: "",
+    wsetLevel2: {
+      sweetness: SWEETNESS_LEVELS.join("|"),
+      acidity: STRUCTURE_LEVELS.join("|"),
+      tannin: STRUCTURE_LEVELS.join("|"),
+      body: STRUCTURE_LEVELS.join("|"),
+      alcohol: STRUCTURE_LEVELS.join("|"),
+      finishLength: STRUCTURE_LEVELS.join("|"),
+    },
+  },
+  drinkWindow: {
+    drinkNow: "boolean",
+    from: "",
+    to: "",
+    peakFrom: "",
+    peakTo: "",
+    decant: "",
+  },
+  priceEstimate: {
+    // One example code; the prompts list the allowed ones, as models echo a "GBP|EUR|…" placeholder verbatim
+    currency: "GBP",
+    low: "number|null",
+    high: "number|null",
+    confidence: CONFIDENCE_LEVELS.join("|"),
+    note: "",
+  },
+  caveats: ["string"],
+  aromasAndFlavours: {
+    primary: ["string"],
+    secondary: ["string"],
+    tertiary: ["string"],
+  },
+  sources: [{ title: "", url: "https://…" }],
+  provenance: Object.fromEntries(
+    PROVENANCE_FIELDS.map((f) => [
+      f,
+      {
+        // Only the user can claim a correction
+        origin: ORIGINS.filter((o) => o !== "user").join("|"),
+        image: `${IMAGE_ROLES.join("|")}|null`,
+        source: "number|null",
+        confidence: CONFIDENCE_LEVELS.join("|"),
+      },
+    ])
+  ),
+};
+
+export const WINE_LIST_TEMPLATE = {
+  currency: "GBP",
+  lines: [
+    {
+      section: "",
+      producer: "",
+      wine: "",
+      vintage: "number|null",
+      serving: SERVINGS.join("|"),
+      price: "number|null",
+      volumeMl: "number|null",
+    },
+  ],
+};
+
+/** A result with every field empty, for building one up from a few known facts. */
+export function emptyAnalysis(label: Partial<RecognizedLabel> = {}): AnalysisResult {
+  return {
+    recognizedLabel: { producer: "", wine: "", appellation: "", region: "", country: "", vintage: null, ...label },
+    wineId: null,
+    grapes: [],
+    abv: null,
+    tastingNotes: {
+      nose: [],
+      palate: [],
+      finish: "",
+      wsetLevel2: { sweetness: "", acidity: "", tannin: "", body: "", alcohol: "", finishLength: "" },
+    },
+    drinkWindow: { drinkNow: false, from: "", to: "", peakFrom: "", peakTo: "", decant: "" },
+    priceEstimate: {
+      currency: "GBP",
+      low: null,
+      high: null,
+      confidence: "low",
+      note: "",
+      median: null,
+      points: [],
+      converted: null,
+    },
+    caveats: [],
+    aromasAndFlavours: { primary: [], secondary: [], tertiary: [] },
+    sources: [],
+    provenance: {},
+  };
+}
+
+/**
+ * Validate and coerce an arbitrary (model-produced) value into an AnalysisResult.
+ * Missing sections default to empty; values of the wrong type that cannot be
+ * coerced are reported with their dotted path.
+ */
+export function parseAnalysis(input: unknown): ParseResult<AnalysisResult> {
+  const issues: FieldIssue[] = [];
+  if (!isRecord(input)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+
+  const rl = section(input, "recognizedLabel", issues);
+  const tn = section(input, "tastingNotes", issues);
+  const w2 = section(tn, "wsetLevel2", issues, "tastingNotes.wsetLevel2");
+  const dw = section(input, "drinkWindow", issues);
+  const pe = section(input, "priceEstimate", issues);
+  const af = section(input, "aromasAndFlavours", issues);
+
+  const value: AnalysisResult = {
+    recognizedLabel: recognizedLabel(rl, "recognizedLabel", issues),
+    wineId: typeof input.wineId === "string" && input.wineId ? input.wineId : null,
+    grapes: grapes(input.grapes, "grapes", issues),
+    abv: abv(input.abv, "abv", issues),
+    tastingNotes: {
+      nose: canonicalAromaList(strList(tn.nose, "tastingNotes.nose", issues)),
+      palate: canonicalAromaList(strList(tn.palate, "tastingNotes.palate", issues)),
+      finish: str(tn.finish, "tastingNotes.finish", issues),
+      wsetLevel2: wsetLevel2(w2, "tastingNotes.wsetLevel2", issues),
+    },
+    drinkWindow: {
+      drinkNow: bool(dw.drinkNow, "drinkWindow.drinkNow", issues),
+      from: str(dw.from, "drinkWindow.from", issues),
+      to: str(dw.to, "drinkWindow.to", issues),
+      peakFrom: str(dw.peakFrom, "drinkWindow.peakFrom", issues),
+      peakTo: str(dw.peakTo, "drinkWindow.peakTo", issues),
+      decant: str(dw.decant, "drinkWindow.decant", issues),
+    },
+    priceEstimate: priceEstimate(pe, issues),
+    caveats: strList(input.caveats, "caveats", issues),
+    // Descriptors are mapped onto the aroma lexicon and moved to their proper tier
+    aromasAndFlavours: canonicalizeAromas({
+      primary: strList(af.primary, "aromasAndFlavours.primary", issues),
+      secondary: strList(af.secondary, "aromasAndFlavours.secondary", issues),
+      tertiary: strList(af.tertiary, "aromasAndFlavours.tertiary", issues),
+    }),
+    sources: sources(input.sources, "sources", issues),
+    provenance: {},
+  };
+  // Needs the parsed sources to range-check web source indexes
+  value.provenance = provenance(input.provenance, value.sources.length, "provenance", issues);
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+}
+
+/**
+ * Validate a completion. Only the user can correct a field, so a model that
+ * claims `origin: "user"` is taken as having inferred it.
+ */
+export function parseModelAnalysis(input: unknown): ParseResult<AnalysisResult> {
+  const result = parseAnalysis(input);
+  if (!result.ok) return result;
+  const { provenance } = result.value;
+  for (const field of PROVENANCE_FIELDS) {
+    if (provenance[field]?.origin === "user") provenance[field] = { origin: "inferred", confidence: DEFAULT_CONFIDENCE.inferred };
+  }
+  return result;
+}
+
+/** Validate a label on its own (e.g. a user's corrections), with issue paths under `path`. */
+export function parseRecognizedLabel(input: unknown, path = "recognizedLabel"): ParseResult<RecognizedLabel> {
+  if (!isRecord(input)) return { ok: false, issues: [{ path, message: "expected an object" }] };
+  const issues: FieldIssue[] = [];
+  const value = recognizedLabel(input, path, issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+}
+
+/** Validate an array of results (e.g. a `results` request field), prefixing issue paths with `path[i]`. */
+export function parseAnalysisList(input: unknown, path = "results"): ParseResult<AnalysisResult[]> {
+  if (!Array.isArray(input)) {
+    return { ok: false, issues: [{ path, message: "expected an array of analysis results" }] };
+  }
+  const issues: FieldIssue[] = [];
+  const value: AnalysisResult[] = [];
+  input.forEach((item, i) => {
+    const r = parseAnalysis(item);
+    if (r.ok) value.push(r.value);
+    else issues.push(...r.issues.map((x) => ({ ...x, path: `${path}[${i}]${x.path ? `.${x.path}` : ""}` })));
+  });
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+}
+
+/**
+ * Validate a wine-list read. Lines without a producer or wine name (headings,
+ * descriptions) are dropped; a missing serving means by the bottle.
+ */
+export function parseWineList(input: unknown): ParseResult<WineList> {
+  if (!isRecord(input)) {
+    return { ok: false, issues: [{ path: "", message: "expected a JSON object" }] };
+  }
+  const issues: FieldIssue[] = [];
+  const currency = currencyCode(input.currency, "currency", issues);
+  if (!Array.isArray(input.lines)) {
+    issues.push({ path: "lines", message: "expected an array of wine-list lines" });
+    return { ok: false, issues };
+  }
+
+  const lines: WineListLine[] = [];
+  input.lines.forEach((l, i) => {
+    const path = `lines[${i}]`;
+    if (!isRecord(l)) {
+      issues.push({ path, message: "expected an object" });
+      return;
+    }
+    const price = num(l.price);
+    if (price === undefined || (price != null && price < 0)) {
+      issues.push({ path: `${path}.price`, message: "expected a non-negative number or null" });
+    }
+    const volume = num(l.volumeMl);
+    if (volume === undefined || (volume != null && volume <= 0)) {
+      issues.push({ path: `${path}.volumeMl`, message: "expected a positive number or null" });
+    }
+    const line: WineListLine = {
+      section: str(l.section, `${path}.section`, issues),
+      producer: str(l.producer, `${path}.producer`, issues),
+      wine: str(l.wine, `${path}.wine`, issues),
+      vintage: vintage(l.vintage, `${path}.vintage`, issues),
+      serving: oneOf(l.serving, SERVINGS, `${path}.serving`, issues) || "bottle",
+      price: price ?? null,
+      volumeMl: volume ?? null,
+    };
+    if (line.producer || line.wine) lines.push(line);
+  });
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: { currency, lines } };
+}
+
+// ---------- field coercers ----------
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isBlank(v: unknown) {
+  return v == null || (typeof v === "string" && v.trim() === "");
+}
+
+function section(
+  parent: Record<string, unknown>,
+  key: string,
+  issues: FieldIssue[],
+  path = key
+): Record<string, unknown> {
+  const v = parent[key];
+  if (v == null) return {};
+  if (isRecord(v)) return v;
+  issues.push({ path, message: "expected an object" });
+  return {};
+}
+
+function recognizedLabel(rl: Record<string, unknown>, path: string, issues: FieldIssue[]): RecognizedLabel {
+  return {
+    producer: str(rl.producer, `${path}.producer`, issues),
+    wine: str(rl.wine, `${path}.wine`, issues),
+    appellation: str(rl.appellation, `${path}.appellation`, issues),
+    region: str(rl.region, `${path}.region`, issues),
+    country: str(rl.country, `${path}.country`, issues),
+    vintage: vintage(rl.vintage, `${path}.vintage`, issues),
+  };
+}
+
+function str(v: unknown, path: string, issues: FieldIssue[]): string {
+  if (v == null) return "";
+  if (typeof v === "string") return v.trim();
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  issues.push({ path, message: "expected a string" });
+  return "";
+}
+
+function strList(v: unknown, path: string, issues: FieldIssue[]): string[] {
+  if (v == null) return [];
+  if (typeof v === "string") return v.trim() ? [v.trim()] : [];
+  if (!Array.isArray(v)) {
+    issues.push({ path, message: "expected an array of strings" });
+    return [];
+  }
+  const out: string[] = [];
+  v.forEach((item, i) => {
+    if (typeof item === "string") {
+      if (item.trim()) out.push(item.trim());
+    } else if (typeof item === "number") {
+      out.push(String(item));
+    } else if (item != null) {
+      issues.push({ path: `${path}[${i}]`, message: "expected a string" });
+    }
+  });
+  return out;
+}
+
+/** Pulls the first number out of things like "13.5%", "£24.99" or "1,250". */
+function num(v: unknown): number | null | undefined {
+  if (isBlank(v)) return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+  if (typeof v === "string") {
+    const m = v.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+    return m ? Number(m[0]) : undefined;
+  }
+  return undefined;
+}
+
+function vintage(v: unknown, path: string, issues: FieldIssue[]): number | null {
+  if (isBlank(v)) return null;
+  if (typeof v === "string" && /^(nv|n\/v|non[- ]?vintage)$/i.test(v.trim())) return null;
+  const raw = typeof v === "string" ? v.match(/\b(1[89]\d\d|20\d\d)\b/)?.[1] : v;
+  const n = num(raw);
+  const maxYear = new Date().getFullYear() + 1;
+  if (n == null || !Number.isInteger(n) || n < 1800 || n > maxYear) {
+    issues.push({ path, message: `expected a year between 1800 and ${maxYear} or null` });
+    return null;
+  }
+  return n;
+}
+
+function abv(v: unknown, path: string, issues: FieldIssue[]): number | null {
+  const n = num(v);
+  if (n === null) return null;
+  if (n === undefined || n < 0 || n > 25) {
+    issues.push({ path, message: "expected a percentage between 0 and 25 or null" });
+    return null;
+  }
+  return Math.round(n * 10) / 10;
+}
+
+function bool(v: unknown, path: string, issues: FieldIssue[]): boolean {
+  if (v == null) return false;
+  if (typeof v === "boolean") return v;
+  if (typeof v === "string") {
+    if (/^(true|yes|y)$/i.test(v.trim())) return true;
+    if (/^(false|no|n|)$/i.test(v.trim())) return false;
+  }
+  issues.push({ path, message: "expected a boolean" });
+  return false;
+}
+
+function oneOf<T extends string>(
+  v: unknown,
+  allowed: readonly T[],
+  path: string,
+  issues: FieldIssue[]
+): T | "" {
+  if (isBlank(v)) return "";
+  const s = typeof v === "string" ? v.trim().toLowerCase() : "";
+  const hit = allowed.find((a) => a === s);
+  if (hit) return hit;
+  issues.push({ path, message: `expected one of ${allowed.join(", ")}` });
+  return "";
+}
+
+/** Free-form descriptors ("med+", "full-bodied") are mapped onto the SAT scales; the rest are kept in `unmapped`. */
+function wsetLevel2(w2: Record<string, unknown>, path: string, issues: FieldIssue[]): WsetL2 {
+  const unmapped: Partial<Record<WsetField, string>> = {};
+  const level = <T extends string>(field: WsetField, normalize: (s: string) => { value: T | ""; mapped: boolean }) => {
+    const v = w2[field];
+    if (isBlank(v)) return "";
+    if (typeof v !== "string" && typeof v !== "number") {
+      issues.push({ path: `${path}.${field}`, message: "expected a descriptor such as \"medium(+)\"" });
+      return "";
+    }
+    const original = String(v).trim();
+    const { value, mapped } = normalize(original);
+    if (!mapped) unmapped[field] = original;
+    return value;
+  };
+
+  const out: WsetL2 = {
+    sweetness: level("sweetness", normalizeSweetness),
+    acidity: level("acidity", normalizeStructure),
+    tannin: level("tannin", normalizeStructure),
+    body: level("body", normalizeStructure),
+    alcohol: level("alcohol", normalizeAlcohol),
+    finishLength: level("finishLength", normalizeStructure),
+  };
+  // Re-validating a stored result (e.g. saving to the cellar) keeps the wording set aside earlier
+  if (isRecord(w2.unmapped)) {
+    for (const [k, v] of Object.entries(w2.unmapped)) {
+      if (k in out && typeof v === "string" && v.trim() && !out[k as WsetField]) unmapped[k as WsetField] ??= v.trim();
+    }
+  }
+  if (Object.keys(unmapped).length > 0) out.unmapped = unmapped;
+  return out;
+}
+
+function grapes(v: unknown, path: string, issues: FieldIssue[]): GrapePart[] {
+  if (v == null) return [];
+  if (!Array.isArray(v)) {
+    issues.push({ path, message: "expected an array of { variety, percent }" });
+    return [];
+  }
+  const out: GrapePart[] = [];
+  v.forEach((g, i) => {
+    // Older prompts returned plain variety names
+    if (typeof g === "string") {
+      if (g.trim()) out.push({ variety: g.trim(), percent: null });
+      return;
+    }
+    if (!isRecord(g)) {
+      issues.push({ path: `${path}[${i}]`, message: "expected { variety, percent }" });
+      return;
+    }
+    const variety = str(g.variety, `${path}[${i}].variety`, issues);
+    if (!variety) {
+      issues.push({ path: `${path}[${i}].variety`, message: "variety is required" });
+      return;
+    }
+    const p = num(g.percent);
+    if (p === undefined) {
+      issues.push({ path: `${path}[${i}].percent`, message: "expected a number or null" });
+    }
+    out.push({ variety, percent: p == null ? null : Math.min(100, Math.max(0, Math.round(p))) });
+  });
+  return out;
+}
+
+/** ISO 4217 code, GBP when missing. */
+function currencyCode(v: unknown, path: string, issues: FieldIssue[]): string {
+  const currency = isBlank(v) ? "GBP" : str(v, path, issues).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    issues.push({ path, message: "expected an ISO 4217 code" });
+  }
+  return currency;
+}
+
+function priceEstimate(pe: Record<string, unknown>, issues: FieldIssue[]): PriceEstimate {
+  const currency = currencyCode(pe.currency, "priceEstimate.currency", issues);
+
+  const amount = (key: "low" | "high" | "median") => {
+    const n = num(pe[key]);
+    if (n === undefined || (n != null && n < 0)) {
+      issues.push({ path: `priceEstimate.${key}`, message: "expected a non-negative number or null" });
+      return null;
+    }
+    return n;
+  };
+  let low = amount("low");
+  let high = amount("high");
+  if (low != null && high != null && low > high) [low, high] = [high, low];
+
+  const confidence = oneOf(pe.confidence, CONFIDENCE_LEVELS, "priceEstimate.confidence", issues) || "low";
+  return {
+    currency,
+    low,
+    high,
+    confidence,
+    note: str(pe.note, "priceEstimate.note", issues),
+    median: amount("median"),
+    points: pricePoints(pe.points, "priceEstimate.points", issues),
+    converted: convertedPrice(pe.converted, "priceEstimate.converted", issues),
+  };
+}
+
+/** Kept when re-validating a stored result; the pipeline fills these from the evidence. */
+function pricePoints(v: unknown, path: string, issues: FieldIssue[]): PricePoint[] {
+  if (v == null) return [];
+  if (!Array.isArray(v)) {
+    issues.push({ path, message: "expected an array of price points" });
+    return [];
+  }
+  const out: PricePoint[] = [];
+  v.forEach((p, i) => {
+    const at = `${path}[${i}]`;
+    if (!isRecord(p)) {
+      issues.push({ path: at, message: "expected an object" });
+      return;
+    }
+    const amount = num(p.amount);
+    const volumeMl = num(p.volumeMl);
+    if (amount == null || amount < 0 || volumeMl == null || volumeMl <= 0) {
+      issues.push({ path: at, message: "expected a non-negative amount and a positive volumeMl" });
+      return;
+    }
+    const caseSize = num(p.caseSize);
+    const bottlePrice = num(p.bottlePrice);
+    out.push({
+      title: str(p.title, `${at}.title`, issues),
+      url: str(p.url, `${at}.url`, issues),
+      text: str(p.text, `${at}.text`, issues),
+      amount,
+      currency: currencyCode(p.currency, `${at}.currency`, issues),
+      volumeMl,
+      caseSize: caseSize != null && caseSize > 0 ? Math.round(caseSize) : null,
+      bottlePrice: bottlePrice ?? null,
+      vintageMatch: typeof p.vintageMatch === "boolean" ? p.vintageMatch : null,
+      excluded: PRICE_EXCLUSIONS.find((x) => x === p.excluded) ?? null,
+    });
+  });
+  return out;
+}
+
+/** Kept when re-validating a stored result; the pipeline recomputes it on every request. */
+function convertedPrice(v: unknown, path: string, issues: FieldIssue[]): ConvertedPrice | null {
+  if (v == null) return null;
+  if (!isRecord(v)) {
+    issues.push({ path, message: "expected an object or null" });
+    return null;
+  }
+  const rate = num(v.rate);
+  if (rate == null || rate <= 0) {
+    issues.push({ path: `${path}.rate`, message: "expected a positive number" });
+    return null;
+  }
+  const amount = (key: "low" | "high") => {
+    const n = num(v[key]);
+    if (n === undefined) issues.push({ path: `${path}.${key}`, message: "expected a number or null" });
+    return n ?? null;
+  };
+  return {
+    currency: currencyCode(v.currency, `${path}.currency`, issues),
+    low: amount("low"),
+    high: amount("high"),
+    rate,
+    rateDate: str(v.rateDate, `${path}.rateDate`, issues),
+  };
+}
+
+function sources(v: unknown, path: string, issues: FieldIssue[]): Source[] {
+  if (v == null) return [];
+  if (!Array.isArray(v)) {
+    issues.push({ path, message: "expected an array of { title, url }" });
+    return [];
+  }
+  const out: Source[] = [];
+  v.forEach((s, i) => {
+    if (!isRecord(s)) {
+      issues.push({ path: `${path}[${i}]`, message: "expected { title, url }" });
+      return;
+    }
+    const url = str(s.url, `${path}[${i}].url`, issues);
+    if (!/^https?:\/\//i.test(url)) {
+      issues.push({ path: `${path}[${i}].url`, message: "expected an http(s) URL" });
+      return;
+    }
+    out.push({ title: str(s.title, `${path}[${i}].title`, issues) || url, url });
+  });
+  return out;
+}
+
+/** Confidence assumed when the model leaves it out. */
+const DEFAULT_CONFIDENCE: Record<Origin, Confidence> = { label: "high", web: "medium", inferred: "low", user: "high" };
+
+function provenance(
+  v: unknown,
+  sourceCount: number,
+  path: string,
+  issues: FieldIssue[]
+): Partial<Record<ProvenanceField, FieldProvenance>> {
+  if (v == null) return {};
+  if (!isRecord(v)) {
+    issues.push({ path, message: "expected an object of field → { origin, confidence }" });
+    return {};
+  }
+  const out: Partial<Record<ProvenanceField, FieldProvenance>> = {};
+  // Unknown keys are ignored; models like to add extras
+  for (const field of PROVENANCE_FIELDS) {
+    const p = fieldProvenance(v[field], sourceCount, `${path}.${field}`, issues);
+    if (p) out[field] = p;
+  }
+  return out;
+}
+
+function fieldProvenance(v: unknown, sourceCount: number, path: string, issues: FieldIssue[]): FieldProvenance | null {
+  if (isBlank(v)) return null;
+  // Shorthand: a bare photo role or origin name
+  if (typeof v === "string") {
+    const s = v.trim().toLowerCase();
+    const image = IMAGE_ROLES.find((r) => r === s);
+    if (image) return { origin: "label", image, confidence: DEFAULT_CONFIDENCE.label };
+    const origin = ORIGINS.find((o) => o === s);
+    if (origin) return { origin, confidence: DEFAULT_CONFIDENCE[origin] };
+    issues.push({ path, message: `expected one of ${[...ORIGINS, ...IMAGE_ROLES].join(", ")} or an object` });
+    return null;
+  }
+  if (!isRecord(v)) {
+    issues.push({ path, message: "expected { origin, confidence }" });
+    return null;
+  }
+
+  const origin = oneOf(v.origin, ORIGINS, `${path}.origin`, issues);
+  if (!origin) {
+    if (isBlank(v.origin)) issues.push({ path: `${path}.origin`, message: "origin is required" });
+    return null;
+  }
+  const out: FieldProvenance = {
+    origin,
+    confidence: oneOf(v.confidence, CONFIDENCE_LEVELS, `${path}.confidence`, issues) || DEFAULT_CONFIDENCE[origin],
+  };
+  if (origin === "label" && !isBlank(v.image)) {
+    const image = oneOf(v.image, IMAGE_ROLES, `${path}.image`, issues);
+    if (image) out.image = image;
+  }
+  if (origin === "web" && !isBlank(v.source)) {
+    // A dangling index is dropped rather than failing the whole result over metadata
+    const n = num(v.source);
+    if (n == null || !Number.isInteger(n)) {
+      issues.push({ path: `${path}.source`, message: "expected an index into sources" });
+    } else if (n >= 0 && n < sourceCount) {
+      out.source = n;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,32 @@
+// src/lib/search/fixture.ts
+import { readFile } from "node:fs/promises";
+import { matchesDomain } from "./retailers";
+import { SearchError, type Evidence, type RetailerAllowList, type SearchProvider, type SearchQuery } from "./types";
+import bundledEvidence from "./fixtures/evidence.json";
+
+/**
+ * Offline provider for tests: serves results from a JSON file (an array of
+ * `{ title, url, snippet }`, or the bundled sample), keeping only those on the
+ * market's allow-list so retailer config can be exercised without a network.
+ */
+export function createFixtureSearch(opts: { file?: string; retailers: RetailerAllowList }): SearchProvider {
+  async function load(): Promise<Evidence[]> {
+    if (!opts.file) return bundledEvidence;
+    try {
+      return JSON.parse(await readFile(opts.file, "utf8")) as Evidence[];
+    } catch (err) {
+      throw new SearchError("fixture", `could not read ${opts.file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return {
+    name: "fixture",
+    retailers: opts.retailers,
+
+    async search({ market, maxResults = 6 }: SearchQuery): Promise<Evidence[]> {
+      const domains = opts.retailers[market];
+      const all = await load();
+      return all.filter((e) => domains.length === 0 || matchesDomain(e.url, domains)).slice(0, maxResults);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// src/lib/search/http.ts
+import { isTimeout, parseRetryAfter, upstreamCode } from "@/lib/upstream";
+import { SearchError } from "./types";
+
+/** Default per-request timeout for the HTTP search backends. */
+export const SEARCH_TIMEOUT_MS = 15_000;
+
+/**
+ * `fetch` for a search backend: gives up after `timeoutMs`, and turns network
+ * failures and non-2xx responses into a SearchError with the upstream code
+ * (TIMEOUT, UPSTREAM_RATE_LIMIT…) so transient ones can be retried.
+ */
+export async function searchFetch(provider: string, url: string, init: RequestInit, timeoutMs = SEARCH_TIMEOUT_MS): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (err) {
+    if (isTimeout(err)) throw new SearchError(provider, `no answer within ${timeoutMs / 1000}s`, "TIMEOUT");
+    const message = `request failed: ${err instanceof Error ? err.message : String(err)}`;
+    throw new SearchError(provider, message, "UPSTREAM_UNAVAILABLE");
+  }
+  if (!res.ok) {
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    throw new SearchError(
+      provider,
+      `HTTP ${res.status} ${res.statusText}`.trim(),
+      upstreamCode(res.status) ?? "SEARCH_FAILED",
+      retryAfter != null ? { retryAfter } : {}
+    );
+  }
+  return res;
+}
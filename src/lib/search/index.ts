@@ -0,0 +1,117 @@
+// src/lib/search/index.ts
+import { toApiError } from "@/lib/errors";
+import type { RecognizedLabel } from "@/lib/schema";
+import { retryOptions, withRetry, type RetryOptions } from "@/lib/upstream";
+import { createFixtureSearch } from "./fixture";
+import { createJsonSearch, createSearxngSearch } from "./json";
+import { retailersFromEnv } from "./retailers";
+import { createTavilySearch } from "./tavily";
+import { MARKETS, type Evidence, type Market, type SearchDiagnostic, type SearchProvider } from "./types";
+
+export * from "./types";
+export { DEFAULT_RETAILERS, matchesDomain, retailersFromEnv, siteFilter } from "./retailers";
+export { createFixtureSearch } from "./fixture";
+export { createJsonSearch, createSearxngSearch } from "./json";
+export { createTavilySearch } from "./tavily";
+
+type Resolved = { provider: SearchProvider | null; diagnostics: SearchDiagnostic[] };
+
+/**
+ * Pick the evidence backend from env:
+ *
+ *   SEARCH_PROVIDER      tavily | searxng | json | fixture | none
+ *                        (default: tavily when TAVILY_API_KEY is set, else none)
+ *   TAVILY_API_KEY       for tavily
+ *   SEARXNG_URL          for searxng, e.g. http://localhost:8888
+ *   SEARCH_JSON_URL      for json, a URL template containing {query}
+ *   SEARCH_FIXTURE_FILE  for fixture (optional, defaults to the bundled sample)
+ *   SEARCH_TIMEOUT_MS    per-request timeout for the HTTP backends (default 15000)
+ *   <PROVIDER>_RETAILERS_<MARKET>  per-provider allow-list override, see retailersFromEnv
+ *
+ * Misconfiguration is reported as a diagnostic rather than failing the request,
+ * since search is an optional enrichment step.
+ */
+export function resolveSearch(env: NodeJS.ProcessEnv = process.env): Resolved {
+  const kind = env.SEARCH_PROVIDER || (env.TAVILY_API_KEY ? "tavily" : "none");
+  const timeoutMs = Number(env.SEARCH_TIMEOUT_MS) || undefined;
+  const missing = (name: string): Resolved => ({
+    provider: null,
+    diagnostics: [{ provider: kind, level: "error", message: `${name} is not set; search skipped` }],
+  });
+
+  switch (kind) {
+    case "tavily":
+      if (!env.TAVILY_API_KEY) return missing("TAVILY_API_KEY");
+      return {
+        provider: createTavilySearch({ apiKey: env.TAVILY_API_KEY, retailers: retailersFromEnv("TAVILY", env), timeoutMs }),
+        diagnostics: [],
+      };
+    case "searxng":
+      if (!env.SEARXNG_URL) return missing("SEARXNG_URL");
+      return {
+        provider: createSearxngSearch({ baseURL: env.SEARXNG_URL, retailers: retailersFromEnv("SEARXNG", env), timeoutMs }),
+        diagnostics: [],
+      };
+    case "json":
+      if (!env.SEARCH_JSON_URL) return missing("SEARCH_JSON_URL");
+      return {
+        provider: createJsonSearch({ urlTemplate: env.SEARCH_JSON_URL, retailers: retailersFromEnv("SEARCH_JSON", env), timeoutMs }),
+        diagnostics: [],
+      };
+    case "fixture":
+      return {
+        provider: createFixtureSearch({ file: env.SEARCH_FIXTURE_FILE, retailers: retailersFromEnv("FIXTURE", env) }),
+        diagnostics: [],
+      };
+    case "none":
+      return { provider: null, diagnostics: [{ provider: "none", level: "info", message: "No search provider configured" }] };
+    default:
+      return {
+        provider: null,
+        diagnostics: [{ provider: kind, level: "error", message: `Unknown search provider "${kind}"; search skipped` }],
+      };
+  }
+}
+
+/** The market used when a request names none (SEARCH_MARKET, default uk). */
+export function searchMarket(env: NodeJS.ProcessEnv = process.env): Market {
+  const m = env.SEARCH_MARKET?.toLowerCase();
+  return MARKETS.find((x) => x === m) ?? "uk";
+}
+
+export function buildSearchTerms(label: RecognizedLabel): string {
+  const parts = [label.producer, label.wine, label.appellation, label.region, label.country, label.vintage]
+    .filter(Boolean)
+    .join(" ");
+  return parts ? `${parts} price` : "";
+}
+
+/**
+ * Run a search, converting failures and empty results into diagnostics.
+ * Transient failures (timeouts, 429s, 5xx) are retried first.
+ */
+export async function gatherEvidence(
+  provider: SearchProvider,
+  label: RecognizedLabel,
+  market: Market,
+  retry: RetryOptions = retryOptions()
+): Promise<{ evidence: Evidence[]; diagnostics: SearchDiagnostic[] }> {
+  const terms = buildSearchTerms(label);
+  if (!terms) {
+    return {
+      evidence: [],
+      diagnostics: [{ provider: provider.name, level: "warning", message: "Label had nothing to search for" }],
+    };
+  }
+
+  try {
+    const evidence = await withRetry(() => provider.search({ terms, market }), retry);
+    const diagnostics: SearchDiagnostic[] =
+      evidence.length === 0 ? [{ provider: provider.name, level: "warning", message: `No results for "${terms}"` }] : [];
+    return { evidence, diagnostics };
+  } catch (err) {
+    const e = toApiError(err);
+    const code = e.code === "INTERNAL" ? "SEARCH_FAILED" : e.code;
+    return { evidence: [], diagnostics: [{ provider: provider.name, level: "error", message: e.message, code }] };
+  }
+}
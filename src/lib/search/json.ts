@@ -0,0 +1,61 @@
+// src/lib/search/json.ts
+import { searchFetch } from "./http";
+import { siteFilter } from "./retailers";
+import { SearchError, type Evidence, type RetailerAllowList, type SearchProvider, type SearchQuery } from "./types";
+
+type JsonSearchResponse = {
+  results?: Array<{ title?: string; url?: string; content?: string; snippet?: string }>;
+};
+
+/**
+ * Generic GET-and-parse-JSON search backend. `urlTemplate` must contain `{query}`;
+ * the response is expected to carry `results: [{ title, url, content|snippet }]`
+ * (the SearXNG shape). The market's retailers are added as `site:` operators.
+ */
+export function createJsonSearch(opts: {
+  urlTemplate: string;
+  retailers: RetailerAllowList;
+  name?: string;
+  timeoutMs?: number;
+}): SearchProvider {
+  const name = opts.name ?? "json";
+  return {
+    name,
+    retailers: opts.retailers,
+
+    async search({ terms, market, maxResults = 6 }: SearchQuery): Promise<Evidence[]> {
+      const q = [terms, siteFilter(opts.retailers[market])].filter(Boolean).join(" ");
+      const url = opts.urlTemplate.replace("{query}", encodeURIComponent(q));
+
+      const res = await searchFetch(name, url, { headers: { Accept: "application/json" }, cache: "no-store" }, opts.timeoutMs);
+
+      let data: JsonSearchResponse;
+      try {
+        data = (await res.json()) as JsonSearchResponse;
+      } catch {
+        throw new SearchError(name, "response was not valid JSON");
+      }
+      return (data.results ?? []).slice(0, maxResults).flatMap((r) =>
+        r.url
+          ? [
+              {
+                title: r.title?.slice(0, 140) || "Result",
+                url: r.url,
+                snippet: (r.content ?? r.snippet ?? "").slice(0, 500),
+              },
+            ]
+          : []
+      );
+    },
+  };
+}
+
+/** SearXNG instance with the JSON output format enabled (`search.formats: [json]`). */
+export function createSearxngSearch(opts: { baseURL: string; retailers: RetailerAllowList; timeoutMs?: number }): SearchProvider {
+  return createJsonSearch({
+    name: "searxng",
+    urlTemplate: `${opts.baseURL.replace(/\/+$/, "")}/search?format=json&q={query}`,
+    retailers: opts.retailers,
+    timeoutMs: opts.timeoutMs,
+  });
+}
@@ -0,0 +1,53 @@
+// src/lib/search/retailers.ts
+import { MARKETS, type RetailerAllowList } from "./types";
+
+export const DEFAULT_RETAILERS: RetailerAllowList = {
+  uk: [
+    "wine-searcher.com",
+    "thewinesociety.com",
+    "bbr.com",
+    "vinatis.co.uk",
+    "vinissimus.co.uk",
+    "waitrose.com",
+    "majestic.co.uk",
+  ],
+  eu: ["wine-searcher.com", "vinatis.com", "vinissimus.com", "wineandco.com", "hawesko.de", "lavinia.es"],
+  us: ["wine-searcher.com", "wine.com", "totalwine.com", "klwines.com", "vivino.com"],
+  ch: ["wine-searcher.com", "mondovino.ch", "flaschenpost.ch", "gerstl.ch", "moevenpick-wein.com"],
+};
+
+/**
+ * Per-provider allow-list: `<PREFIX>_RETAILERS_<MARKET>` (comma-separated domains)
+ * replaces the default list for that market, e.g. TAVILY_RETAILERS_UK.
+ */
+export function retailersFromEnv(prefix: string, env: NodeJS.ProcessEnv = process.env): RetailerAllowList {
+  const out = {} as RetailerAllowList;
+  for (const market of MARKETS) {
+    const raw = env[`${prefix}_RETAILERS_${market.toUpperCase()}`];
+    out[market] = raw != null ? splitDomains(raw) : DEFAULT_RETAILERS[market];
+  }
+  return out;
+}
+
+function splitDomains(raw: string) {
+  return raw
+    .split(",")
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** `(site:a OR site:b)` for engines that understand search operators. */
+export function siteFilter(domains: string[]): string {
+  if (domains.length === 0) return "";
+  return `(${domains.map((d) => `site:${d}`).join(" OR ")})`;
+}
+
+export function matchesDomain(url: string, domains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return domains.some((d) => host === d || host.endsWith(`.${d}`));
+}
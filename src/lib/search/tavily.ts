@@ -0,0 +1,44 @@
+// src/lib/search/tavily.ts
+import { searchFetch } from "./http";
+import { type Evidence, type RetailerAllowList, type SearchProvider, type SearchQuery } from "./types";
+
+type TavilyResponse = {
+  results?: Array<{ title?: string; url?: string; content?: string }>;
+};
+
+export function createTavilySearch(opts: { apiKey: string; retailers: RetailerAllowList; timeoutMs?: number }): SearchProvider {
+  return {
+    name: "tavily",
+    retailers: opts.retailers,
+
+    async search({ terms, market, maxResults = 6 }: SearchQuery): Promise<Evidence[]> {
+      const res = await searchFetch(
+        "tavily",
+        "https://api.tavily.com/search",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            api_key: opts.apiKey,
+            query: terms,
+            include_answer: false,
+            max_results: maxResults,
+            search_depth: "advanced",
+            // Tavily filters by domain natively, no need for site: operators
+            include_domains: opts.retailers[market],
+          }),
+          // keep Vercel/Edge happy
+          cache: "no-store",
+        },
+        opts.timeoutMs
+      );
+
+      const data = (await res.json()) as TavilyResponse;
+      return (data.results ?? []).flatMap((r) =>
+        r.url
+          ? [{ title: r.title?.slice(0, 140) || "Result", url: r.url, snippet: r.content?.slice(0, 500) || "" }]
+          : []
+      );
+    },
+  };
+}
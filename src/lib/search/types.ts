@@ -0,0 +1,52 @@
+// src/lib/search/types.ts
+import { ApiError, type ErrorCode, type ErrorDetails } from "@/lib/errors";
+
+/** One web result handed to the grounding stage. */
+export type Evidence = { title: string; url: string; snippet: string };
+
+export const MARKETS = ["uk", "eu", "us", "ch"] as const;
+export type Market = (typeof MARKETS)[number];
+
+/** Home currency of each market; prices are converted into it unless the request names another. */
+export const MARKET_CURRENCY: Record<Market, string> = { uk: "GBP", eu: "EUR", us: "USD", ch: "CHF" };
+
+/** How a market is described to the grounding model. */
+export const MARKET_LABEL: Record<Market, string> = { uk: "UK", eu: "Eurozone", us: "US", ch: "Swiss" };
+
+/** Retailer domains to bias/restrict results to, per market. */
+export type RetailerAllowList = Record<Market, string[]>;
+
+export type SearchQuery = {
+  /** Free-text terms, without any site filter. */
+  terms: string;
+  market: Market;
+  maxResults?: number;
+};
+
+export interface SearchProvider {
+  readonly name: string;
+  readonly retailers: RetailerAllowList;
+  search(query: SearchQuery): Promise<Evidence[]>;
+}
+
+/** Surfaced in the API response so failed/skipped searches are visible. */
+export type SearchDiagnostic = {
+  provider: string;
+  level: "info" | "warning" | "error";
+  message: string;
+  /** Set on errors: SEARCH_FAILED, or the upstream code when the provider said why. */
+  code?: ErrorCode;
+};
+
+/** A failed search. `code` defaults to SEARCH_FAILED; transient codes are retried. */
+export class SearchError extends ApiError {
+  constructor(
+    readonly provider: string,
+    message: string,
+    code: ErrorCode = "SEARCH_FAILED",
+    details: ErrorDetails = {}
+  ) {
+    super(code, message, details);
+    this.name = "SearchError";
+  }
+}
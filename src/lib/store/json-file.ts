@@ -0,0 +1,58 @@
+// src/lib/store/json-file.ts
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/** Where file-backed stores live: DATA_DIR, defaulting to ./.data */
+export function dataPath(name: string, env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.DATA_DIR || ".data", name);
+}
+
+export type JsonFile<T> = {
+  read(): Promise<T>;
+  /** Read-modify-write; updates to the same file are applied one at a time. */
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<R>;
+};
+
+// One queue per path, so two stores opened on the same file don't interleave writes.
+// Kept on globalThis because each route is bundled separately and would otherwise get its own copy.
+const globalForStore = globalThis as typeof globalThis & { jsonFileQueues?: Map<string, Promise<unknown>> };
+const queues = (globalForStore.jsonFileQueues ??= new Map<string, Promise<unknown>>());
+
+/**
+ * A JSON document on disk. Missing files read as `initial()`; writes go to a
+ * temp file first and are renamed into place so a crash never leaves half a file.
+ */
+export function jsonFile<T>(file: string, initial: () => T): JsonFile<T> {
+  async function read(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return initial();
+      throw err;
+    }
+  }
+
+  async function write(data: T) {
+    await mkdir(path.dirname(file), { recursive: true });
+    // Unique per write, so a writer that doesn't share this queue can't rename it away
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, file);
+  }
+
+  return {
+    read,
+    update(fn) {
+      const run = (queues.get(file) ?? Promise.resolve()).then(async () => {
+        const data = await read();
+        const out = await fn(data);
+        await write(data);
+        return out;
+      });
+      // keep the queue alive even if this update fails
+      queues.set(file, run.catch(() => undefined));
+      return run;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+// src/lib/stream.ts
+import { toApiError, type ErrorCode } from "@/lib/errors";
+import type { FieldIssue } from "@/lib/schema";
+
+export type StreamFormat = "sse" | "ndjson";
+
+/** Streamed in place of the final event when the pipeline fails part-way. */
+export type ErrorEvent = {
+  stage: "error";
+  error: string;
+  code: ErrorCode;
+  status: number;
+  failedStage?: string;
+  issues?: FieldIssue[];
+  retryAfter?: number;
+};
+
+/**
+ * Pick a streaming format from `?stream=sse|ndjson` or the Accept header.
+ * Returns null for a plain JSON request.
+ */
+export function streamFormat(req: Request): StreamFormat | null {
+  const param = new URL(req.url).searchParams.get("stream");
+  if (param === "sse" || param === "ndjson") return param;
+  const accept = req.headers.get("accept") || "";
+  if (accept.includes("text/event-stream")) return "sse";
+  if (accept.includes("application/x-ndjson")) return "ndjson";
+  return null;
+}
+
+/**
+ * Stream the events produced by `run`. Each event must carry a `stage` name,
+ * which becomes the SSE `event:` field. The stream closes when `run` settles.
+ * Once the client disconnects `send` does nothing, so `run` can finish quietly.
+ */
+export function streamEvents<E extends { stage: string }>(
+  format: StreamFormat,
+  run: (send: (event: E) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: E) => {
+        if (closed) return;
+        const json = JSON.stringify(event);
+        try {
+          controller.enqueue(encoder.encode(format === "sse" ? `event: ${event.stage}\ndata: ${json}\n\n` : `${json}\n`));
+        } catch {
+          closed = true;
+        }
+      };
+      try {
+        await run(send);
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already torn down
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": format === "sse" ? "text/event-stream; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/** The error envelope as a stream event; the pipeline stage that failed goes in `failedStage`. */
+export function errorEvent(err: unknown): ErrorEvent {
+  const e = toApiError(err);
+  const { stage, issues, retryAfter } = e.details;
+  return { stage: "error", status: e.status, error: e.message, code: e.code, failedStage: stage, issues, retryAfter };
+}
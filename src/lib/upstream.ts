@@ -0,0 +1,89 @@
+// src/lib/upstream.ts
+// Classifying provider failures (model and search APIs) and retrying the
+// transient ones with exponential backoff. Server-only.
+import { ApiError, type ErrorCode } from "@/lib/errors";
+
+/**
+ * The code for an HTTP error status from a provider, or null for a success.
+ * Any other 4xx (an unknown model name, a request the provider won't take) is
+ * UPSTREAM_REJECTED: our side of the call is wrong, so retrying won't help.
+ */
+export function upstreamCode(status: number): ErrorCode | null {
+  if (status === 408) return "TIMEOUT";
+  if (status === 429) return "UPSTREAM_RATE_LIMIT";
+  if (status === 401 || status === 403) return "UPSTREAM_AUTH";
+  if (status >= 500) return "UPSTREAM_UNAVAILABLE";
+  if (status >= 400) return "UPSTREAM_REJECTED";
+  return null;
+}
+
+/** A `Retry-After` header (seconds or an HTTP date) in whole seconds. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? undefined : Math.max(0, Math.ceil((at - now) / 1000));
+}
+
+/** True for the error `fetch` throws when an `AbortSignal.timeout` fires. */
+export function isTimeout(err: unknown): boolean {
+  return err instanceof Error && err.name === "TimeoutError";
+}
+
+export type RetryOptions = {
+  /** Extra attempts after the first. */
+  retries: number;
+  baseMs: number;
+  /** Cap on a single wait; a provider asking for longer is not retried. */
+  maxMs: number;
+  isRetryable?: (err: unknown) => boolean;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+/**
+ * Retry settings from env:
+ *
+ *   UPSTREAM_RETRIES       retries after a transient failure (default 2, 0 disables)
+ *   UPSTREAM_RETRY_BASE_MS first backoff (default 500), doubled per attempt
+ *   UPSTREAM_RETRY_MAX_MS  longest single wait (default 8000)
+ */
+export function retryOptions(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  return {
+    retries: num(env.UPSTREAM_RETRIES, 2),
+    baseMs: num(env.UPSTREAM_RETRY_BASE_MS, 500),
+    maxMs: num(env.UPSTREAM_RETRY_MAX_MS, 8000),
+  };
+}
+
+/**
+ * Run `fn`, retrying transient ApiErrors (see TRANSIENT_CODES) with full-jitter
+ * exponential backoff. A `retryAfter` from the provider is waited out when it
+ * fits under `maxMs`; otherwise the error is thrown straight away.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions): Promise<T> {
+  const isRetryable = opts.isRetryable ?? ((err: unknown) => err instanceof ApiError && err.transient);
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= opts.retries || !isRetryable(err)) throw err;
+      const wait = backoffMs(attempt, opts, err instanceof ApiError ? err.details.retryAfter : undefined);
+      if (wait == null) throw err;
+      await sleep(wait);
+    }
+  }
+}
+
+function backoffMs(attempt: number, opts: RetryOptions, retryAfter?: number): number | null {
+  const jittered = Math.random() * Math.min(opts.maxMs, opts.baseMs * 2 ** attempt);
+  if (retryAfter == null) return Math.round(jittered);
+  const asked = retryAfter * 1000;
+  return asked > opts.maxMs ? null : Math.max(asked, Math.round(jittered));
+}
+
+function num(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
@@ -0,0 +1,164 @@
+// src/lib/wine-list.ts
+// Wine-list mode: read every line off a restaurant list, ground each one like a
+// single bottle to estimate its retail price, then score the list on markup.
+import { forEachLimit } from "@/lib/concurrency";
+import { resolveStage, type LlmImage } from "@/lib/llm";
+import { groundLabel, modelOutputError, parseModelJson } from "@/lib/pipeline";
+import {
+  WINE_LIST_TEMPLATE,
+  emptyAnalysis,
+  parseWineList,
+  type AnalysisResult,
+  type WineList,
+  type WineListLine,
+} from "@/lib/schema";
+import type { Market, SearchDiagnostic } from "@/lib/search";
+
+const SYSTEM_PROMPT_WINE_LIST = `You are a sommelier reading a restaurant wine list from photos of its pages.
+Return ONLY valid JSON matching the provided schema, with one entry in 'lines' per wine offered.
+If a wine is offered both by the glass and by the bottle, output it twice, once per serving.
+'section' is the heading the wine is listed under. 'price' is the number as printed, without the currency symbol; 'currency' is the list's ISO 4217 code.
+'volumeMl' is the pour or bottle size when printed (125 for "125ml", 1500 for a magnum), else null.
+Only report what is printed: do not invent lines, and skip headings, descriptions, spirits and beers.`;
+
+/** Lines grounded at once; each one is a search plus a model call. */
+const LINE_CONCURRENCY = 3;
+/** Assumed pour when a by-the-glass price gives no size (the usual UK large glass). */
+const DEFAULT_GLASS_ML = 175;
+const BOTTLE_ML = 750;
+
+export type RetailPrice = { currency: string; low: number | null; high: number | null; mid: number };
+
+export type WineListEntry = {
+  index: number;
+  line: WineListLine;
+  /** The grounded single-bottle analysis, or null when the line was not looked up. */
+  result: AnalysisResult | null;
+  retail: RetailPrice | null;
+  /** Listed price scaled to a 750ml bottle. */
+  bottlePrice: number | null;
+  /** bottlePrice ÷ retail mid; null when either is missing or there is no FX rate between the currencies. */
+  markup: number | null;
+  /** 1 = best value (lowest markup); null when there is no markup. */
+  valueRank: number | null;
+  /** Why the markup is missing, or a lookup error. */
+  note: string;
+};
+
+export type WineListAnalysis = { currency: string; entries: WineListEntry[]; diagnostics: SearchDiagnostic[] };
+
+/** Progress notifications: the lines once read, each line as it is grounded (in completion order), then the ranked list. */
+export type WineListEvent =
+  | { stage: "lines"; currency: string; lines: WineListLine[] }
+  | { stage: "line"; entry: WineListEntry }
+  | { stage: "final"; data: WineListAnalysis };
+
+type Options = {
+  onEvent?: (event: WineListEvent) => void;
+  /** Skip cache reads for the grounded lookups. */
+  refresh?: boolean;
+  /** Retail market to price against; retail estimates are converted into the list's currency. */
+  market?: Market;
+};
+
+export type WineListPage = { mimeType: string; base64: string };
+
+export async function analyzeWineList(pages: WineListPage[], opts: Options = {}): Promise<WineListAnalysis> {
+  const list = await readWineList(pages);
+  opts.onEvent?.({ stage: "lines", currency: list.currency, lines: list.lines });
+
+  const max = maxLines();
+  const entries: WineListEntry[] = list.lines.map((line, index) => blankEntry(index, line));
+  const diagnostics = new Map<string, SearchDiagnostic>();
+
+  await forEachLimit(list.lines.slice(0, max), LINE_CONCURRENCY, async (line, index) => {
+    const entry = entries[index];
+    try {
+      const label = emptyAnalysis({ producer: line.producer, wine: line.wine, vintage: line.vintage });
+      const outcome = await groundLabel(label, { refresh: opts.refresh, market: opts.market, currency: list.currency });
+      for (const d of outcome.diagnostics) diagnostics.set(`${d.provider}|${d.level}|${d.message}`, d);
+      Object.assign(entry, scoreLine(line, list.currency, outcome.data));
+    } catch (err) {
+      // One unfindable wine should not cost the rest of the list
+      entry.note = `Lookup failed: ${err instanceof Error ? err.message : "unexpected error"}`;
+    }
+    opts.onEvent?.({ stage: "line", entry });
+  });
+  for (const entry of entries.slice(max)) {
+    entry.note = `Not looked up: only the first ${max} lines are priced`;
+  }
+
+  rankByValue(entries);
+  const data: WineListAnalysis = { currency: list.currency, entries, diagnostics: [...diagnostics.values()] };
+  opts.onEvent?.({ stage: "final", data });
+  return data;
+}
+
+/** Vision model reads the list. Throws MODEL_BAD_JSON / MODEL_INVALID when the output fails validation. */
+export async function readWineList(pages: WineListPage[]): Promise<WineList> {
+  const vision = resolveStage("vision");
+  const images: LlmImage[] = pages.map((p, i) => ({ ...p, caption: `Page ${i + 1} of the wine list` }));
+  const raw = await vision.provider.vision({
+    model: vision.model,
+    system: SYSTEM_PROMPT_WINE_LIST,
+    prompt: `List every wine on ${images.length > 1 ? "these pages" : "this page"} in this JSON schema exactly:\n${JSON.stringify(
+      WINE_LIST_TEMPLATE
+    )}`,
+    images,
+    task: "wine-list",
+  });
+  const parsed = parseModelJson(raw, parseWineList);
+  if (!parsed.ok) {
+    throw modelOutputError("Model returned an invalid wine list", parsed.issues);
+  }
+  return parsed.value;
+}
+
+function blankEntry(index: number, line: WineListLine): WineListEntry {
+  return { index, line, result: null, retail: null, bottlePrice: null, markup: null, valueRank: null, note: "" };
+}
+
+/** Compare the listed price with the grounded retail estimate. */
+function scoreLine(
+  line: WineListLine,
+  currency: string,
+  result: AnalysisResult
+): Pick<WineListEntry, "result" | "retail" | "bottlePrice" | "markup" | "note"> {
+  // Prefer the estimate converted into the list's currency; fall back to the one found
+  const converted = result.priceEstimate.converted;
+  const { low, high, currency: found } = converted?.currency === currency ? converted : result.priceEstimate;
+  const known = [low, high].filter((n): n is number => n != null);
+  const retail =
+    known.length > 0 ? { currency: found, low, high, mid: known.reduce((a, b) => a + b, 0) / known.length } : null;
+
+  const volume = line.volumeMl ?? (line.serving === "glass" ? DEFAULT_GLASS_ML : BOTTLE_ML);
+  const bottlePrice = line.price != null ? round2((line.price * BOTTLE_ML) / volume) : null;
+
+  let markup: number | null = null;
+  let note = "";
+  if (bottlePrice == null) note = "No listed price";
+  else if (!retail) note = "No retail estimate";
+  else if (retail.currency !== currency) note = `Retail estimate is in ${retail.currency}, the list in ${currency}`;
+  else if (retail.mid > 0) markup = round2(bottlePrice / retail.mid);
+  return { result, retail, bottlePrice, markup, note };
+}
+
+/** Lowest markup first; entries without one stay unranked. */
+function rankByValue(entries: WineListEntry[]) {
+  entries
+    .filter((e) => e.markup != null)
+    .sort((a, b) => (a.markup ?? 0) - (b.markup ?? 0) || a.index - b.index)
+    .forEach((e, i) => {
+      e.valueRank = i + 1;
+    });
+}
+
+/** Lines priced per list (WINE_LIST_MAX_LINES, default 30); the rest are returned unpriced. */
+function maxLines(env: NodeJS.ProcessEnv = process.env): number {
+  const n = Number(env.WINE_LIST_MAX_LINES);
+  return Number.isInteger(n) && n > 0 ? n : 30;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
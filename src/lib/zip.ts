@@ -0,0 +1,96 @@
+// src/lib/zip.ts
+// Just enough of the ZIP format to pull files out of an uploaded archive:
+// stored and deflated entries, no encryption, no ZIP64.
+import { inflateRawSync } from "node:zlib";
+import type { ErrorCode } from "@/lib/errors";
+
+export type ZipEntry = { name: string; data: Buffer };
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+/** `code` is UNSUPPORTED_MEDIA for archives this reader can't handle, BAD_REQUEST for damaged ones. */
+export class ZipError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode = "UNSUPPORTED_MEDIA"
+  ) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+export function isZip(buf: Buffer): boolean {
+  return buf.length >= 4 && buf.readUInt32LE(0) === LOCAL_SIG;
+}
+
+/** Extract every file entry (directories are skipped). Throws ZipError on malformed input. */
+export function readZip(buf: Buffer, opts: { maxEntries?: number; maxBytes?: number } = {}): ZipEntry[] {
+  const maxEntries = opts.maxEntries ?? 1000;
+  const maxBytes = opts.maxBytes ?? 200 * 1024 * 1024;
+
+  // End-of-central-directory sits in the last 22 bytes + up to 64 KiB of comment
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIG) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ZipError("not a zip archive (no end of central directory)");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  if (count > maxEntries) throw new ZipError(`archive has ${count} entries; the limit is ${maxEntries}`);
+  let p = buf.readUInt32LE(eocd + 16);
+
+  const entries: ZipEntry[] = [];
+  let total = 0;
+  for (let n = 0; n < count; n++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== CENTRAL_SIG) throw new ZipError("corrupt central directory");
+    const flags = buf.readUInt16LE(p + 8);
+    const method = buf.readUInt16LE(p + 10);
+    const compressedSize = buf.readUInt32LE(p + 20);
+    const size = buf.readUInt32LE(p + 24);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const localOffset = buf.readUInt32LE(p + 42);
+    const name = buf.toString(flags & 0x800 ? "utf8" : "latin1", p + 46, p + 46 + nameLen);
+    p += 46 + nameLen + extraLen + commentLen;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) throw new ZipError(`${name} is encrypted`);
+    total += size;
+    if (total > maxBytes) throw new ZipError(`archive expands beyond ${maxBytes} bytes`);
+
+    if (localOffset + 30 > buf.length || buf.readUInt32LE(localOffset) !== LOCAL_SIG) {
+      throw new ZipError(`corrupt local header for ${name}`);
+    }
+    const start = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    // subarray would quietly cut a short entry off at the end of the upload
+    if (start + compressedSize > buf.length) throw new ZipError(`${name} runs past the end of the archive`, "BAD_REQUEST");
+    const raw = buf.subarray(start, start + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      if (size !== compressedSize) throw new ZipError(`${name} is stored but its sizes disagree`, "BAD_REQUEST");
+      data = Buffer.from(raw);
+    } else if (method === 8) {
+      data = inflate(raw, size, name);
+    } else {
+      throw new ZipError(`${name} uses unsupported compression method ${method}`);
+    }
+    entries.push({ name, data });
+  }
+  return entries;
+}
+
+/** zlib throws plain errors (RangeError past the cap), which would otherwise surface as a 500. */
+function inflate(raw: Buffer, size: number, name: string): Buffer {
+  try {
+    return inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+  } catch {
+    throw new ZipError(`${name} is corrupt or larger than declared`, "BAD_REQUEST");
+  }
+}